@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+/**
+ * Build-time script to download ACS Data Profile tables for a state and
+ * its counties and save them as static assets, so county pages keep
+ * working when the Census API is down.
+ *
+ * Usage: node scripts/fetch-census.mjs [dataset:year ...]
+ *   e.g. node scripts/fetch-census.mjs acs5:2023 acs1:2023
+ *
+ * Reads VITE_CENSUS_API_KEY from environment or .env.production / .env
+ * files. Variable codes come from src/api/census-variables.json, the same
+ * mapping the client parses with. Files are written to
+ * public/census/<dataset>-<year>/<state FIPS>.json.
+ */
+
+import { readFileSync, mkdirSync, writeFileSync } from "node:fs"
+import { resolve, dirname } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const projectRoot = resolve(__dirname, "..")
+const outputDir = resolve(projectRoot, "public", "census")
+
+const STATE_FIPS = "13"
+const DEFAULT_VINTAGES = ["acs5:2023"]
+
+// The Census API accepts at most 50 variables per request
+const MAX_VARIABLES_PER_REQUEST = 50
+
+function loadEnvFile(filename) {
+  try {
+    const content = readFileSync(resolve(projectRoot, filename), "utf-8")
+    const vars = {}
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#")) continue
+      const eqIdx = trimmed.indexOf("=")
+      if (eqIdx === -1) continue
+      const key = trimmed.slice(0, eqIdx).trim()
+      let value = trimmed.slice(eqIdx + 1).trim()
+      if (
+        (value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'"))
+      ) {
+        value = value.slice(1, -1)
+      }
+      vars[key] = value
+    }
+    return vars
+  } catch {
+    return {}
+  }
+}
+
+function getApiKey() {
+  if (process.env.VITE_CENSUS_API_KEY) return process.env.VITE_CENSUS_API_KEY
+  const prod = loadEnvFile(".env.production")
+  if (prod.VITE_CENSUS_API_KEY) return prod.VITE_CENSUS_API_KEY
+  const dev = loadEnvFile(".env")
+  return dev.VITE_CENSUS_API_KEY || null
+}
+
+function requestCodes() {
+  const variables = JSON.parse(
+    readFileSync(
+      resolve(projectRoot, "src", "api", "census-variables.json"),
+      "utf-8",
+    ),
+  )
+  // Each estimate plus its margin of error: DP03_0062E → DP03_0062M
+  return Object.keys(variables).flatMap((code) => [
+    code,
+    code.replace(/E$/, "M"),
+  ])
+}
+
+async function fetchTables(baseUrl, geographyClause, apiKey) {
+  const codes = requestCodes()
+  const tables = []
+  for (let i = 0; i < codes.length; i += MAX_VARIABLES_PER_REQUEST) {
+    const batch = codes.slice(i, i + MAX_VARIABLES_PER_REQUEST)
+    let url = `${baseUrl}?get=${batch.join(",")}&${geographyClause}`
+    if (apiKey) url += `&key=${encodeURIComponent(apiKey)}`
+    const res = await fetch(url)
+    if (!res.ok || res.status === 204) {
+      throw new Error(`HTTP ${res.status}`)
+    }
+    tables.push(await res.json())
+  }
+  return tables
+}
+
+async function main() {
+  const vintages = process.argv.slice(2)
+  const apiKey = getApiKey()
+  console.log(
+    `[fetch-census] ${apiKey ? "Using API key" : "No API key (rate limited)"}`,
+  )
+
+  let ok = 0
+  let failed = 0
+  for (const vintage of vintages.length > 0 ? vintages : DEFAULT_VINTAGES) {
+    const [dataset, year] = vintage.split(":")
+    process.stdout.write(`[fetch-census] ${dataset} ${year} ... `)
+    const baseUrl = `https://api.census.gov/data/${year}/acs/${dataset}/profile`
+    try {
+      const state = await fetchTables(baseUrl, `for=state:${STATE_FIPS}`, apiKey)
+      const counties = await fetchTables(
+        baseUrl,
+        `for=county:*&in=state:${STATE_FIPS}`,
+        apiKey,
+      )
+      const dir = resolve(outputDir, `${dataset}-${year}`)
+      mkdirSync(dir, { recursive: true })
+      const json = JSON.stringify({
+        fetchedAt: new Date().toISOString(),
+        fipsState: STATE_FIPS,
+        state,
+        counties,
+      })
+      writeFileSync(resolve(dir, `${STATE_FIPS}.json`), json)
+      const sizeKB = (Buffer.byteLength(json) / 1024).toFixed(1)
+      console.log(`${counties[0].length - 1} counties (${sizeKB} KB)`)
+      ok++
+    } catch (err) {
+      console.log(`SKIP (${err.message})`)
+      failed++
+    }
+  }
+
+  console.log(`[fetch-census] Done: ${ok} cached, ${failed} skipped`)
+}
+
+main().catch((err) => {
+  console.error(`[fetch-census] Error: ${err.message}`)
+  process.exit(1)
+})
@@ -1,41 +1,72 @@
-import type { CensusApiRawResponse, CensusProfile } from "@/types/census"
+import ky, { HTTPError } from "ky"
+import censusVariables from "@/api/census-variables.json"
+import { DEFAULT_CENSUS_VINTAGE } from "@/lib/census"
+import { readCensusCache, writeCensusCache } from "@/lib/census-cache"
+import { fetchStaticCensusSnapshot } from "@/lib/static-census"
+import type {
+  CensusApiRawResponse,
+  CensusBreakdowns,
+  CensusDistributionBin,
+  CensusDistrictType,
+  CensusEstimateField,
+  CensusGeography,
+  CensusProfile,
+  CensusVintage,
+} from "@/types/census"
 
-const CENSUS_BASE_URL = "https://api.census.gov/data/2023/acs/acs5/profile"
+/** Optional; keyless requests are limited to 500 per IP per day. */
+const CENSUS_API_KEY: string | undefined = import.meta.env.VITE_CENSUS_API_KEY
+
+/**
+ * Serve state and county profiles from the build-time snapshot before
+ * trying the API. Otherwise the snapshot is only used when the API fails.
+ */
+const PREFER_SNAPSHOT = import.meta.env.VITE_CENSUS_PREFER_SNAPSHOT === "true"
+
+const censusApi = ky.create({
+  prefixUrl: "https://api.census.gov/data",
+  timeout: 30000,
+  retry: {
+    limit: 3,
+    methods: ["get"],
+    statusCodes: [408, 429, 500, 502, 503, 504],
+    backoffLimit: 10000,
+  },
+})
+
+function censusProfilePath({ year, dataset }: CensusVintage): string {
+  return `${year}/acs/${dataset}/profile`
+}
+
+/** Detailed tables (B/C prefixed variables) for a vintage. */
+function censusDetailedPath({ year, dataset }: CensusVintage): string {
+  return `${year}/acs/${dataset}`
+}
 
 /**
  * ACS Data Profile variable codes mapped to CensusProfile field names.
- * This mapping drives both the API request URL and response parsing.
+ * This mapping drives both the API request URL and response parsing, and
+ * is shared with scripts/fetch-census.mjs.
+ * Codes follow the 2023 profile. DP02 was renumbered in 2019, so
+ * CENSUS_YEARS starts there; check these codes before adding a vintage.
  */
-const CENSUS_VARIABLES = {
-  DP05_0001E: "totalPopulation",
-  DP05_0018E: "medianAge",
-  DP05_0005PE: "percentUnder18",
-  DP05_0024PE: "percentOver65",
-  DP03_0062E: "medianHouseholdIncome",
-  DP03_0119PE: "povertyRate",
-  DP02_0068PE: "percentBachelorsOrHigher",
-  DP05_0037PE: "percentWhite",
-  DP05_0038PE: "percentBlack",
-  DP05_0044PE: "percentAsian",
-  DP05_0071PE: "percentHispanicLatino",
-  DP03_0099PE: "percentUninsured",
-  DP04_0089E: "medianHomeValue",
-  DP04_0046PE: "homeownershipRate",
-  DP03_0025E: "meanCommuteTimeMinutes",
-  DP02_0154PE: "percentBroadband",
-  DP03_0009PE: "unemploymentRate",
-  DP03_0024PE: "percentWorkFromHome",
-  DP03_0088E: "perCapitaIncome",
-  DP03_0074PE: "percentSnap",
-  DP02_0066PE: "percentGraduateDegree",
-  DP02_0094PE: "percentForeignBorn",
-  DP02_0114PE: "percentNonEnglish",
-  DP02_0070PE: "percentVeterans",
-  DP02_0072PE: "percentDisability",
-  DP04_0134E: "medianGrossRent",
-  DP04_0003PE: "vacancyRate",
-  DP04_0058PE: "percentNoVehicle",
-} as const satisfies Record<string, keyof CensusProfile>
+const CENSUS_VARIABLES = censusVariables as Record<string, CensusEstimateField>
+
+/** The Census API accepts at most 50 variables per request. */
+const MAX_VARIABLES_PER_REQUEST = 50
+
+/**
+ * Margin of error code for an estimate code:
+ * DP03_0062E → DP03_0062M, DP03_0119PE → DP03_0119PM.
+ */
+function marginCode(estimateCode: string): string {
+  return estimateCode.replace(/E$/, "M")
+}
+
+const REQUEST_CODES = Object.keys(CENSUS_VARIABLES).flatMap((code) => [
+  code,
+  marginCode(code),
+])
 
 /**
  * Parse a raw Census API value string to a number or null.
@@ -49,55 +80,477 @@ function parseCensusValue(raw: string): number | null {
   return num
 }
 
-function parseCensusResponse(data: CensusApiRawResponse): CensusProfile {
+/**
+ * Parse a raw margin of error. Negative sentinels mean the margin could not
+ * be computed, except -555555555: the estimate is controlled (fixed by
+ * the Census Bureau), so it has no sampling error.
+ */
+function parseMarginValue(raw: string): number | null {
+  if (!raw || raw.trim() === "") return null
+  const num = Number(raw)
+  if (Number.isNaN(num)) return null
+  if (num === -555555555) return 0
+  if (num < 0) return null
+  return num
+}
+
+function parseCensusRecord(record: Record<string, string>): CensusProfile {
+  const estimates: Record<string, number | null> = {}
+  const margins: Record<string, number | null> = {}
+  for (const [code, fieldName] of Object.entries(CENSUS_VARIABLES)) {
+    estimates[fieldName] =
+      code in record ? parseCensusValue(record[code]) : null
+    const margin = marginCode(code)
+    margins[fieldName] =
+      margin in record ? parseMarginValue(record[margin]) : null
+  }
+
+  return {
+    ...estimates,
+    margins,
+  } as unknown as CensusProfile
+}
+
+async function requestCensusRows(
+  path: string,
+): Promise<CensusApiRawResponse> {
+  const url = CENSUS_API_KEY
+    ? `${path}&key=${encodeURIComponent(CENSUS_API_KEY)}`
+    : path
+
+  let response: Response
+  try {
+    response = await censusApi.get(url)
+  } catch (error) {
+    if (error instanceof HTTPError) {
+      throw new Error(
+        `Census API request failed: ${error.response.status} ${error.response.statusText}`,
+      )
+    }
+    throw error
+  }
+
+  // 1-year estimates are only published for areas of 65,000+ people; the
+  // API answers other geographies with an empty 204
+  if (response.status === 204) {
+    throw new Error("No estimates published for this geography and dataset")
+  }
+
+  let data: CensusApiRawResponse
+  try {
+    data = await response.json()
+  } catch {
+    // An invalid key is answered with an HTML page rather than an error code
+    throw new Error(
+      "Census API returned an unexpected response; check VITE_CENSUS_API_KEY",
+    )
+  }
   if (data.length < 2) {
     throw new Error("Census API returned no data rows")
   }
+  return data
+}
 
-  const headers = data[0]
-  const values = data[1]
+const inFlightRequests = new Map<string, Promise<CensusApiRawResponse>>()
 
-  const profile: Record<string, number | null> = {}
-  for (const [code, fieldName] of Object.entries(CENSUS_VARIABLES)) {
-    const index = headers.indexOf(code)
-    profile[fieldName] = index >= 0 ? parseCensusValue(values[index]) : null
+/** Concurrent requests for the same URL share one network request. */
+function fetchCensusRows(path: string): Promise<CensusApiRawResponse> {
+  let request = inFlightRequests.get(path)
+  if (!request) {
+    request = requestCensusRows(path).finally(() => {
+      inFlightRequests.delete(path)
+    })
+    inFlightRequests.set(path, request)
+  }
+  return request
+}
+
+/**
+ * Join batched tables into one profile per row. Rows are matched on the
+ * geography columns, since the API does not promise the same row order
+ * across requests.
+ * @param keyColumns  Response columns identifying a row, e.g. ["county"]
+ */
+function mergeCensusTables(
+  tables: CensusApiRawResponse[],
+  keyColumns: string[],
+): Record<string, CensusProfile> {
+  const records = new Map<string, Record<string, string>>()
+  for (const [headers, ...rows] of tables) {
+    const keyIndexes = keyColumns.map((column) => headers.indexOf(column))
+    for (const row of rows) {
+      const key = keyIndexes.map((index) => row[index]).join(":")
+      const record = records.get(key) ?? {}
+      headers.forEach((header, index) => {
+        record[header] = row[index]
+      })
+      records.set(key, record)
+    }
   }
 
-  return profile as unknown as CensusProfile
+  return Object.fromEntries(
+    [...records].map(([key, record]) => [key, parseCensusRecord(record)]),
+  )
 }
 
-async function fetchCensusData(url: string): Promise<CensusProfile> {
-  const response = await fetch(url)
+/**
+ * Fetch every profile variable and its margin of error for the geographies
+ * matched by a clause, split into as many requests as the variable limit
+ * requires. Responses are persisted in IndexedDB for CENSUS_CACHE_TTL_MS.
+ * @param geographyClause  e.g. "for=county:021&in=state:13" or
+ *   "for=county:*&in=state:13"
+ */
+async function fetchCensusTable(
+  vintage: CensusVintage,
+  geographyClause: string,
+  keyColumns: string[],
+): Promise<Record<string, CensusProfile>> {
+  const cacheKey = `${vintage.dataset}/${vintage.year}?${geographyClause}`
+  const cached =
+    await readCensusCache<Record<string, CensusProfile>>(cacheKey)
+  if (cached) return cached
 
-  if (!response.ok) {
-    throw new Error(
-      `Census API request failed: ${response.status} ${response.statusText}`,
-    )
+  const batches: string[][] = []
+  for (let i = 0; i < REQUEST_CODES.length; i += MAX_VARIABLES_PER_REQUEST) {
+    batches.push(REQUEST_CODES.slice(i, i + MAX_VARIABLES_PER_REQUEST))
   }
 
-  const data: CensusApiRawResponse = await response.json()
-  return parseCensusResponse(data)
+  const tables = await Promise.all(
+    batches.map((codes) =>
+      fetchCensusRows(
+        `${censusProfilePath(vintage)}?get=${codes.join(",")}&${geographyClause}`,
+      ),
+    ),
+  )
+  const profiles = mergeCensusTables(tables, keyColumns)
+  await writeCensusCache(cacheKey, profiles)
+  return profiles
+}
+
+/** Fetch every profile variable and its margin for a single geography. */
+async function fetchCensusData(
+  vintage: CensusVintage,
+  geographyClause: string,
+): Promise<CensusProfile> {
+  const table = await fetchCensusTable(vintage, geographyClause, [])
+  return Object.values(table)[0]
+}
+
+/** State or county profiles from the build-time snapshot, if one exists. */
+async function fetchSnapshotProfiles(
+  vintage: CensusVintage,
+  fipsState: string,
+  geography: "state" | "counties",
+): Promise<Record<string, CensusProfile> | null> {
+  const snapshot = await fetchStaticCensusSnapshot(vintage, fipsState)
+  if (!snapshot) return null
+  return geography === "state"
+    ? mergeCensusTables(snapshot.state, [])
+    : mergeCensusTables(snapshot.counties, ["county"])
 }
 
 /**
- * Fetch Census ACS 5-Year Data Profile for a county.
+ * Use the snapshot first when PREFER_SNAPSHOT is set; otherwise only fall
+ * back to it when the API request fails, so pages keep working while the
+ * Census API is down.
+ */
+async function withSnapshotFallback<T>(
+  fromApi: () => Promise<T>,
+  fromSnapshot: () => Promise<T | null>,
+): Promise<T> {
+  if (PREFER_SNAPSHOT) {
+    const snapshot = await fromSnapshot()
+    if (snapshot !== null) return snapshot
+  }
+  try {
+    return await fromApi()
+  } catch (error) {
+    const snapshot = PREFER_SNAPSHOT ? null : await fromSnapshot()
+    if (snapshot !== null) return snapshot
+    throw error
+  }
+}
+
+/**
+ * Fetch Census ACS Data Profile for a county.
  */
 export async function fetchCensusProfile(
   fipsState: string,
   fipsCounty: string,
+  vintage: CensusVintage = DEFAULT_CENSUS_VINTAGE,
 ): Promise<CensusProfile> {
-  const variableCodes = Object.keys(CENSUS_VARIABLES).join(",")
-  const url = `${CENSUS_BASE_URL}?get=${variableCodes}&for=county:${fipsCounty}&in=state:${fipsState}`
-  return fetchCensusData(url)
+  return withSnapshotFallback(
+    () =>
+      fetchCensusData(
+        vintage,
+        `for=county:${fipsCounty}&in=state:${fipsState}`,
+      ),
+    async () =>
+      (await fetchSnapshotProfiles(vintage, fipsState, "counties"))?.[
+        fipsCounty
+      ] ?? null,
+  )
 }
 
 /**
- * Fetch Census ACS 5-Year Data Profile for a state.
+ * Fetch Census ACS Data Profile for a state.
  */
 export async function fetchStateCensusProfile(
   fipsState: string,
+  vintage: CensusVintage = DEFAULT_CENSUS_VINTAGE,
+): Promise<CensusProfile> {
+  return withSnapshotFallback(
+    () => fetchCensusData(vintage, `for=state:${fipsState}`),
+    async () => {
+      const profiles = await fetchSnapshotProfiles(vintage, fipsState, "state")
+      return profiles ? (Object.values(profiles)[0] ?? null) : null
+    },
+  )
+}
+
+/**
+ * ACS geography for each district type, with the zero-padded width of its
+ * code (congressional "05", state legislative "035").
+ */
+const DISTRICT_GEOGRAPHIES: Record<
+  CensusDistrictType,
+  { geography: string; codeWidth: number }
+> = {
+  congressional: { geography: "congressional district", codeWidth: 2 },
+  state_senate: {
+    geography: "state legislative district (upper chamber)",
+    codeWidth: 3,
+  },
+  state_house: {
+    geography: "state legislative district (lower chamber)",
+    codeWidth: 3,
+  },
+}
+
+function districtGeographyClause(
+  fipsState: string,
+  districtType: CensusDistrictType,
+  districtNumber: string,
+): string {
+  const { geography, codeWidth } = DISTRICT_GEOGRAPHIES[districtType]
+  const code = districtNumber.padStart(codeWidth, "0")
+  const forClause = encodeURIComponent(`${geography}:${code}`)
+  return `for=${forClause}&in=state:${fipsState}`
+}
+
+function censusGeographyClause(geography: CensusGeography): string {
+  switch (geography.kind) {
+    case "state":
+      return `for=state:${geography.fipsState}`
+    case "county":
+      return `for=county:${geography.fipsCounty}&in=state:${geography.fipsState}`
+    case "district":
+      return districtGeographyClause(
+        geography.fipsState,
+        geography.districtType,
+        geography.districtNumber,
+      )
+  }
+}
+
+/**
+ * Fetch Census ACS Data Profile for a congressional or state legislative
+ * district.
+ * @param districtNumber  District number without padding, e.g. "5"
+ */
+export async function fetchDistrictCensusProfile(
+  fipsState: string,
+  districtType: CensusDistrictType,
+  districtNumber: string,
+  vintage: CensusVintage = DEFAULT_CENSUS_VINTAGE,
+): Promise<CensusProfile> {
+  return fetchCensusData(
+    vintage,
+    districtGeographyClause(fipsState, districtType, districtNumber),
+  )
+}
+
+/** Fetch the Census ACS Data Profile for any supported geography. */
+export async function fetchGeographyCensusProfile(
+  geography: CensusGeography,
+  vintage: CensusVintage = DEFAULT_CENSUS_VINTAGE,
 ): Promise<CensusProfile> {
-  const variableCodes = Object.keys(CENSUS_VARIABLES).join(",")
-  const url = `${CENSUS_BASE_URL}?get=${variableCodes}&for=state:${fipsState}`
-  return fetchCensusData(url)
+  switch (geography.kind) {
+    case "state":
+      return fetchStateCensusProfile(geography.fipsState, vintage)
+    case "county":
+      return fetchCensusProfile(
+        geography.fipsState,
+        geography.fipsCounty,
+        vintage,
+      )
+    case "district":
+      return fetchDistrictCensusProfile(
+        geography.fipsState,
+        geography.districtType,
+        geography.districtNumber,
+        vintage,
+      )
+  }
+}
+
+/**
+ * Fetch the Census ACS Data Profile for every county in a state in one
+ * batch, keyed by 3-digit county FIPS.
+ */
+export async function fetchAllCountyCensusProfiles(
+  fipsState: string,
+  vintage: CensusVintage = DEFAULT_CENSUS_VINTAGE,
+): Promise<Record<string, CensusProfile>> {
+  return withSnapshotFallback(
+    () =>
+      fetchCensusTable(vintage, `for=county:*&in=state:${fipsState}`, [
+        "county",
+      ]),
+    () => fetchSnapshotProfiles(vintage, fipsState, "counties"),
+  )
+}
+
+/**
+ * Five-year age bands for the population pyramid, each with the number of
+ * consecutive B01001 cells it combines. Male cells run B01001_003E–_025E
+ * and female cells B01001_027E–_049E, in the same age order.
+ */
+const AGE_BANDS: [label: string, cells: number][] = [
+  ["0–4", 1],
+  ["5–9", 1],
+  ["10–14", 1],
+  ["15–19", 2],
+  ["20–24", 3],
+  ["25–29", 1],
+  ["30–34", 1],
+  ["35–39", 1],
+  ["40–44", 1],
+  ["45–49", 1],
+  ["50–54", 1],
+  ["55–59", 1],
+  ["60–64", 2],
+  ["65–69", 2],
+  ["70–74", 1],
+  ["75–79", 1],
+  ["80–84", 1],
+  ["85+", 1],
+]
+
+function ageSexCodes(firstCell: number): string[][] {
+  let cell = firstCell
+  return AGE_BANDS.map(([, cells]) =>
+    Array.from({ length: cells }, () =>
+      `B01001_${String(cell++).padStart(3, "0")}E`,
+    ),
+  )
+}
+
+const MALE_AGE_CODES = ageSexCodes(3)
+const FEMALE_AGE_CODES = ageSexCodes(27)
+
+/** Data Profile percentages for each breakdown, in display order. */
+const BREAKDOWN_VARIABLES: Record<
+  Exclude<keyof CensusBreakdowns, "ageSex">,
+  [code: string, label: string][]
+> = {
+  householdTypes: [
+    ["DP02_0002PE", "Married couple"],
+    ["DP02_0004PE", "Cohabiting couple"],
+    ["DP02_0006PE", "Male householder, no spouse or partner"],
+    ["DP02_0010PE", "Female householder, no spouse or partner"],
+  ],
+  education: [
+    ["DP02_0060PE", "Less than 9th grade"],
+    ["DP02_0061PE", "9th–12th grade, no diploma"],
+    ["DP02_0062PE", "High school graduate"],
+    ["DP02_0063PE", "Some college, no degree"],
+    ["DP02_0064PE", "Associate's degree"],
+    ["DP02_0065PE", "Bachelor's degree"],
+    ["DP02_0066PE", "Graduate or professional degree"],
+  ],
+  householdIncome: [
+    ["DP03_0052PE", "Under $10k"],
+    ["DP03_0053PE", "$10k–15k"],
+    ["DP03_0054PE", "$15k–25k"],
+    ["DP03_0055PE", "$25k–35k"],
+    ["DP03_0056PE", "$35k–50k"],
+    ["DP03_0057PE", "$50k–75k"],
+    ["DP03_0058PE", "$75k–100k"],
+    ["DP03_0059PE", "$100k–150k"],
+    ["DP03_0060PE", "$150k–200k"],
+    ["DP03_0061PE", "$200k+"],
+  ],
+}
+
+/** Sum of several cells; null if any of them is missing. */
+function sumCensusValues(record: Record<string, string>, codes: string[]) {
+  let total = 0
+  for (const code of codes) {
+    const value = parseCensusValue(record[code] ?? "")
+    if (value === null) return null
+    total += value
+  }
+  return total
+}
+
+function parseCensusBreakdowns(
+  record: Record<string, string>,
+): CensusBreakdowns {
+  const distribution = (
+    variables: [code: string, label: string][],
+  ): CensusDistributionBin[] =>
+    variables.map(([code, label]) => ({
+      label,
+      percent: parseCensusValue(record[code] ?? ""),
+    }))
+
+  return {
+    ageSex: AGE_BANDS.map(([label], i) => ({
+      label,
+      male: sumCensusValues(record, MALE_AGE_CODES[i]),
+      female: sumCensusValues(record, FEMALE_AGE_CODES[i]),
+    })),
+    householdTypes: distribution(BREAKDOWN_VARIABLES.householdTypes),
+    education: distribution(BREAKDOWN_VARIABLES.education),
+    householdIncome: distribution(BREAKDOWN_VARIABLES.householdIncome),
+  }
+}
+
+/**
+ * Fetch the age-by-sex, household type, educational attainment and
+ * household income distributions for a geography: one detailed-table
+ * request and one Data Profile request.
+ */
+export async function fetchCensusBreakdowns(
+  geography: CensusGeography,
+  vintage: CensusVintage = DEFAULT_CENSUS_VINTAGE,
+): Promise<CensusBreakdowns> {
+  const clause = censusGeographyClause(geography)
+  const cacheKey = `${vintage.dataset}/${vintage.year}/breakdowns?${clause}`
+  const cached = await readCensusCache<CensusBreakdowns>(cacheKey)
+  if (cached) return cached
+
+  const profileCodes = Object.values(BREAKDOWN_VARIABLES).flatMap(
+    (variables) => variables.map(([code]) => code),
+  )
+  const ageSexCodes = [...MALE_AGE_CODES, ...FEMALE_AGE_CODES].flat()
+  const tables = await Promise.all([
+    fetchCensusRows(
+      `${censusDetailedPath(vintage)}?get=${ageSexCodes.join(",")}&${clause}`,
+    ),
+    fetchCensusRows(
+      `${censusProfilePath(vintage)}?get=${profileCodes.join(",")}&${clause}`,
+    ),
+  ])
+
+  const record: Record<string, string> = {}
+  for (const [headers, values] of tables) {
+    headers.forEach((header, index) => {
+      record[header] = values[index]
+    })
+  }
+  const breakdowns = parseCensusBreakdowns(record)
+  await writeCensusCache(cacheKey, breakdowns)
+  return breakdowns
 }
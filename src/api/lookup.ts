@@ -15,9 +15,10 @@ import type {
 
 export async function verifyAddress(
   address: string,
+  signal?: AbortSignal,
 ): Promise<VerifyResponse> {
   return api
-    .get("geocoding/verify", { searchParams: { address } })
+    .get("geocoding/verify", { searchParams: { address }, signal })
     .json<VerifyResponse>()
 }
 
@@ -31,6 +32,7 @@ export async function geocodeAddress(
 
 export async function pointLookup(
   params: PointLookupParams,
+  signal?: AbortSignal,
 ): Promise<PointLookupResponse> {
   const searchParams: Record<string, string> = {
     lat: String(params.lat),
@@ -41,7 +43,7 @@ export async function pointLookup(
   }
 
   return api
-    .get("geocoding/point-lookup", { searchParams })
+    .get("geocoding/point-lookup", { searchParams, signal })
     .json<PointLookupResponse>()
 }
 
@@ -0,0 +1,80 @@
+import type {
+  OfficialsFixture,
+  OfficialsProvider,
+} from "@/types/officials"
+
+/**
+ * Reads office holders from a static JSON file under public/, so the
+ * officials UI works offline and in tests without an API key. The file
+ * lists sample people, so this is for development only.
+ */
+export function createFixtureOfficialsProvider(
+  url = `${import.meta.env.BASE_URL}fixtures/elected-officials.json`,
+): OfficialsProvider {
+  let fixture: Promise<OfficialsFixture> | null = null
+  let label = "Fixture data"
+
+  const load = () => {
+    fixture ??= fetch(url)
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Officials fixture request failed: ${res.status}`)
+        }
+        return res.json() as Promise<OfficialsFixture>
+      })
+      .then((data) => {
+        label = data.label || label
+        return data
+      })
+      .catch((error: unknown) => {
+        fixture = null
+        throw error
+      })
+    return fixture
+  }
+
+  return {
+    id: "fixture",
+    // The file's own label once it has loaded
+    get label() {
+      return label
+    },
+    async getOfficials(boundaryType, district) {
+      const { officials } = await load()
+      return officials.filter(
+        (o) => o.boundaryType === boundaryType && o.district === district,
+      )
+    },
+  }
+}
+
+const providerFactories: Record<string, () => OfficialsProvider> = {
+  fixture: () => createFixtureOfficialsProvider(),
+}
+
+/**
+ * Make a provider selectable through VITE_OFFICIALS_PROVIDER. Register
+ * before the first call to getOfficialsProvider.
+ */
+export function registerOfficialsProvider(
+  id: string,
+  factory: () => OfficialsProvider,
+) {
+  providerFactories[id] = factory
+}
+
+// undefined until the first call; null when no provider is configured
+let activeProvider: OfficialsProvider | null | undefined
+
+/**
+ * The provider named by VITE_OFFICIALS_PROVIDER, or null when it is unset
+ * or names no registered provider, in which case officials are hidden.
+ */
+export function getOfficialsProvider(): OfficialsProvider | null {
+  if (activeProvider === undefined) {
+    const id = import.meta.env.VITE_OFFICIALS_PROVIDER
+    const factory = id ? providerFactories[id] : undefined
+    activeProvider = factory ? factory() : null
+  }
+  return activeProvider
+}
@@ -0,0 +1,39 @@
+import { api } from "./client"
+import type {
+  VoterDetail,
+  VoterSearchParams,
+  VoterSearchResponse,
+} from "@/types/voters"
+
+export async function searchVoters(
+  params: VoterSearchParams,
+  signal?: AbortSignal,
+): Promise<VoterSearchResponse> {
+  const searchParams: Record<string, string> = {
+    page: String(params.page),
+    page_size: String(params.page_size),
+  }
+  for (const key of [
+    "name",
+    "address",
+    "county",
+    "precinct",
+    "status",
+    "sort_by",
+    "sort_dir",
+  ] as const) {
+    const value = params[key]
+    if (value) searchParams[key] = value
+  }
+
+  return api
+    .get("voters", { searchParams, signal })
+    .json<VoterSearchResponse>()
+}
+
+export async function getVoter(
+  voterId: string,
+  signal?: AbortSignal,
+): Promise<VoterDetail> {
+  return api.get(`voters/${voterId}`, { signal }).json<VoterDetail>()
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef } from "react"
+import { TileLayer } from "react-leaflet"
+import { DomEvent } from "leaflet"
+import { Check, Layers } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import { useBasemap } from "@/hooks/useBasemap"
+import {
+  availableBasemaps,
+  basemapLabels,
+  type BasemapChoice,
+} from "@/lib/basemaps"
+import { cn } from "@/lib/utils"
+
+interface BasemapLayerProps {
+  /** Position of the switcher within the map, e.g. "bottom-12 left-3" */
+  switcherClassName?: string
+}
+
+/**
+ * The user's basemap tiles plus a switcher for them. Must be rendered
+ * inside a MapContainer.
+ */
+export function BasemapLayer({
+  switcherClassName = "bottom-12 left-3",
+}: Readonly<BasemapLayerProps>) {
+  const { choice, setChoice, basemap, source } = useBasemap()
+
+  return (
+    <>
+      {source && (
+        // Keyed so the attribution changes along with the tiles
+        <TileLayer
+          key={basemap}
+          url={source.url}
+          attribution={source.attribution}
+        />
+      )}
+      <BasemapSwitcher
+        choice={choice}
+        onChoiceChange={setChoice}
+        className={switcherClassName}
+      />
+    </>
+  )
+}
+
+interface BasemapSwitcherProps {
+  choice: BasemapChoice
+  onChoiceChange: (choice: BasemapChoice) => void
+  className?: string
+}
+
+function BasemapSwitcher({
+  choice,
+  onChoiceChange,
+  className,
+}: Readonly<BasemapSwitcherProps>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Clicks on the button shouldn't reach the map underneath
+  useEffect(() => {
+    const container = containerRef.current
+    if (container) DomEvent.disableClickPropagation(container)
+  }, [])
+
+  const options: BasemapChoice[] = ["auto", ...availableBasemaps()]
+
+  return (
+    <div ref={containerRef} className={cn("absolute z-[1000]", className)}>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Basemap"
+            title="Basemap"
+            className="h-8 w-8 bg-background/95 shadow-sm backdrop-blur-sm"
+          >
+            <Layers className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent side="top" align="start" className="w-48 p-1">
+          <div role="radiogroup" aria-label="Basemap">
+            {options.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={choice === option}
+                onClick={() => onChoiceChange(option)}
+                className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground focus-visible:bg-accent focus-visible:outline-none"
+              >
+                <Check
+                  className={cn(
+                    "h-4 w-4 shrink-0",
+                    choice !== option && "invisible",
+                  )}
+                />
+                <span className="flex-1">
+                  {basemapLabels[option]}
+                  {option === "auto" && (
+                    <span className="block text-xs text-muted-foreground">
+                      Streets, dark with the dark theme
+                    </span>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
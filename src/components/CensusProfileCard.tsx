@@ -12,6 +12,18 @@ import {
   CensusProfileError,
   CensusProfileSections,
 } from "@/components/census/CensusProfileContent"
+import { CensusTrendCharts } from "@/components/census/CensusTrendCharts"
+import { CensusVintageControls } from "@/components/census/CensusVintageControls"
+import { CensusExportButtons } from "@/components/census/CensusExportButtons"
+import { useCensusVintage } from "@/hooks/useCensusVintage"
+import { formatVintage } from "@/lib/census"
+import {
+  censusExportFilename,
+  exportCensusProfile,
+  type CensusExportFormat,
+} from "@/lib/census-export"
+import { downloadBlob } from "@/lib/download"
+import type { CensusGeography } from "@/types/census"
 
 interface CensusProfileCardProps {
   fipsState: string
@@ -24,12 +36,32 @@ export function CensusProfileCard({
   fipsCounty,
   countyName,
 }: Readonly<CensusProfileCardProps>) {
+  const { vintage, setVintage, compareYear, setCompareYear, compareVintage } =
+    useCensusVintage()
   const {
     data: profile,
     isLoading,
     isError,
     error,
-  } = useCensusProfile(fipsState, fipsCounty)
+  } = useCensusProfile(fipsState, fipsCounty, vintage)
+  const { data: previous } = useCensusProfile(
+    fipsState,
+    fipsCounty,
+    compareVintage,
+  )
+  const geography: CensusGeography = { kind: "county", fipsState, fipsCounty }
+
+  const handleExport = async (format: CensusExportFormat) => {
+    if (!profile) return
+    const name = `${countyName} County`
+    const blob = await exportCensusProfile(
+      profile,
+      { name, fips: `${fipsState}${fipsCounty}` },
+      vintage,
+      format,
+    )
+    downloadBlob(blob, censusExportFilename(name, vintage, format))
+  }
 
   return (
     <Card>
@@ -39,9 +71,19 @@ export function CensusProfileCard({
           Census Demographics
         </CardTitle>
         <CardDescription>
-          American Community Survey 5-Year Estimates (2023) for {countyName}{" "}
-          County
+          {formatVintage(vintage)} for {countyName} County
         </CardDescription>
+        <CensusVintageControls
+          vintage={vintage}
+          onVintageChange={setVintage}
+          compareYear={compareYear}
+          onCompareYearChange={setCompareYear}
+        />
+        <CensusExportButtons
+          label="Download"
+          onExport={handleExport}
+          disabled={!profile}
+        />
       </CardHeader>
       <CardContent className="space-y-6">
         {isLoading && <CensusProfileSkeleton />}
@@ -50,7 +92,19 @@ export function CensusProfileCard({
             message={error instanceof Error ? error.message : ""}
           />
         )}
-        {profile && <CensusProfileSections profile={profile} />}
+        <CensusTrendCharts geography={geography} dataset={vintage.dataset} />
+        {profile && (
+          <CensusProfileSections
+            profile={profile}
+            vintage={vintage}
+            geography={geography}
+            comparison={
+              previous && compareYear !== null
+                ? { year: compareYear, profile: previous }
+                : undefined
+            }
+          />
+        )}
       </CardContent>
     </Card>
   )
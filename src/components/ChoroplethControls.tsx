@@ -0,0 +1,130 @@
+import { Palette } from "lucide-react"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import {
+  CLASSIFICATION_METHODS,
+  choroplethLegendItems,
+  classificationMethodLabels,
+  type ClassificationMethod,
+  type CountyChoropleth,
+} from "@/lib/choropleth"
+import { CENSUS_SECTIONS } from "@/lib/census-fields"
+import type { CensusEstimateField } from "@/types/census"
+
+// Radix Select does not allow an empty item value
+const NONE = "none"
+
+interface ChoroplethControlsProps {
+  field: CensusEstimateField | undefined
+  method: ClassificationMethod
+  onFieldChange: (field: CensusEstimateField | undefined) => void
+  onMethodChange: (method: ClassificationMethod) => void
+  className?: string
+}
+
+/** "Color by" census field and classification pickers for the county map. */
+export function ChoroplethControls({
+  field,
+  method,
+  onFieldChange,
+  onMethodChange,
+  className,
+}: Readonly<ChoroplethControlsProps>) {
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-2 rounded-md bg-background/95 p-2 shadow-sm backdrop-blur-sm",
+        className,
+      )}
+    >
+      <Select
+        value={field ?? NONE}
+        onValueChange={(value) =>
+          onFieldChange(
+            value === NONE ? undefined : (value as CensusEstimateField),
+          )
+        }
+      >
+        <SelectTrigger size="sm" className="w-56" aria-label="Color counties by">
+          <Palette className="h-4 w-4" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>No shading</SelectItem>
+          {CENSUS_SECTIONS.map((section) => (
+            <SelectGroup key={section.id}>
+              <SelectLabel>{section.title}</SelectLabel>
+              {section.fields.map((definition) => (
+                <SelectItem key={definition.field} value={definition.field}>
+                  {definition.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+      {field && (
+        <Select
+          value={method}
+          onValueChange={(value) =>
+            onMethodChange(value as ClassificationMethod)
+          }
+        >
+          <SelectTrigger
+            size="sm"
+            className="w-48"
+            aria-label="Classification method"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CLASSIFICATION_METHODS.map((m) => (
+              <SelectItem key={m} value={m}>
+                {classificationMethodLabels[m]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
+
+/** Swatches and value ranges for each choropleth class. */
+export function ChoroplethLegend({
+  choropleth,
+  className,
+}: Readonly<{ choropleth: CountyChoropleth; className?: string }>) {
+  return (
+    <div
+      className={cn(
+        "rounded-md bg-background/95 p-3 text-xs shadow-sm backdrop-blur-sm",
+        className,
+      )}
+    >
+      <p className="font-semibold">{choropleth.field.label}</p>
+      <p className="mb-2 text-muted-foreground">
+        {classificationMethodLabels[choropleth.method]}
+      </p>
+      <ul className="space-y-1">
+        {choroplethLegendItems(choropleth).map(({ label, color }) => (
+          <li key={color} className="flex items-center gap-2">
+            <span
+              className="inline-block h-3 w-5 shrink-0 rounded-sm border"
+              style={{ backgroundColor: color }}
+            />
+            {label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
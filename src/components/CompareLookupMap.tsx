@@ -0,0 +1,205 @@
+import { useEffect, useMemo } from "react"
+import {
+  CircleMarker,
+  FeatureGroup,
+  GeoJSON,
+  LayersControl,
+  MapContainer,
+  Pane,
+  Tooltip,
+  useMap,
+} from "react-leaflet"
+import type { PathOptions } from "leaflet"
+import type { Feature, MultiPolygon, Polygon } from "geojson"
+import { Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { BasemapLayer } from "@/components/BasemapLayer"
+import type { LookupDistrict } from "@/types/lookup"
+
+const SIDE_COLORS = { a: "#2563eb", b: "#ea580c" } as const
+
+const SIDE_STYLES: Record<"a" | "b" | "shared", PathOptions> = {
+  a: {
+    color: SIDE_COLORS.a,
+    weight: 2,
+    fillColor: SIDE_COLORS.a,
+    fillOpacity: 0.15,
+  },
+  b: {
+    color: SIDE_COLORS.b,
+    weight: 2,
+    fillColor: SIDE_COLORS.b,
+    fillOpacity: 0.15,
+  },
+  shared: {
+    color: "#6b7280",
+    weight: 1,
+    fillColor: "#9ca3af",
+    fillOpacity: 0.08,
+    dashArray: "4 4",
+  },
+}
+
+export interface ComparePoint {
+  latitude: number
+  longitude: number
+  districts: LookupDistrict[]
+}
+
+interface CompareLookupMapProps {
+  a: ComparePoint
+  b: ComparePoint
+  geometries: Map<string, Record<string, unknown>>
+  isLoading?: boolean
+  className?: string
+}
+
+/** Split both lookups' districts into those unique to each side and shared. */
+function partitionDistricts(a: LookupDistrict[], b: LookupDistrict[]) {
+  const idsA = new Set(a.map((d) => d.boundary_id))
+  const idsB = new Set(b.map((d) => d.boundary_id))
+  return {
+    a: a.filter((d) => !idsB.has(d.boundary_id)),
+    b: b.filter((d) => !idsA.has(d.boundary_id)),
+    shared: a.filter((d) => idsB.has(d.boundary_id)),
+  }
+}
+
+function FitBoundsToPoints({
+  a,
+  b,
+}: Readonly<{ a: ComparePoint; b: ComparePoint }>) {
+  const map = useMap()
+  const { latitude: latA, longitude: lngA } = a
+  const { latitude: latB, longitude: lngB } = b
+
+  useEffect(() => {
+    map.fitBounds(
+      [
+        [latA, lngA],
+        [latB, lngB],
+      ],
+      { padding: [40, 40], maxZoom: 14 },
+    )
+  }, [map, latA, lngA, latB, lngB])
+
+  return null
+}
+
+function DistrictShapes({
+  districts,
+  geometries,
+  style,
+}: Readonly<{
+  districts: LookupDistrict[]
+  geometries: Map<string, Record<string, unknown>>
+  style: PathOptions
+}>) {
+  return (
+    <FeatureGroup>
+      {districts.map((district) => {
+        const geometry = geometries.get(district.boundary_id)
+        if (!geometry) return null
+        const data: Feature<MultiPolygon | Polygon> = {
+          type: "Feature",
+          geometry: geometry as unknown as MultiPolygon | Polygon,
+          properties: {},
+        }
+        return (
+          <GeoJSON
+            key={district.boundary_id}
+            data={data}
+            style={style}
+          >
+            <Tooltip sticky>{district.name}</Tooltip>
+          </GeoJSON>
+        )
+      })}
+    </FeatureGroup>
+  )
+}
+
+/**
+ * Both compared locations on one map. Districts that only contain one of
+ * the points are drawn in that point's color; shared districts are off by
+ * default to keep the differences readable.
+ */
+export function CompareLookupMap({
+  a,
+  b,
+  geometries,
+  isLoading,
+  className,
+}: Readonly<CompareLookupMapProps>) {
+  const partitioned = useMemo(
+    () => partitionDistricts(a.districts, b.districts),
+    [a.districts, b.districts],
+  )
+
+  return (
+    <div className="relative h-full w-full">
+      <MapContainer
+        center={[a.latitude, a.longitude]}
+        zoom={11}
+        scrollWheelZoom={false}
+        className={cn("h-full w-full rounded-lg border", className)}
+      >
+        <BasemapLayer />
+        <LayersControl position="topright">
+          <LayersControl.Overlay name="Shared districts">
+            <DistrictShapes
+              districts={partitioned.shared}
+              geometries={geometries}
+              style={SIDE_STYLES.shared}
+            />
+          </LayersControl.Overlay>
+          <LayersControl.Overlay name="Only at A" checked>
+            <DistrictShapes
+              districts={partitioned.a}
+              geometries={geometries}
+              style={SIDE_STYLES.a}
+            />
+          </LayersControl.Overlay>
+          <LayersControl.Overlay name="Only at B" checked>
+            <DistrictShapes
+              districts={partitioned.b}
+              geometries={geometries}
+              style={SIDE_STYLES.b}
+            />
+          </LayersControl.Overlay>
+        </LayersControl>
+        <Pane name="compare-points" style={{ zIndex: 450 }}>
+          {(["a", "b"] as const).map((side) => {
+            const point = side === "a" ? a : b
+            return (
+              <CircleMarker
+                key={side}
+                center={[point.latitude, point.longitude]}
+                radius={8}
+                pathOptions={{
+                  color: "#ffffff",
+                  weight: 2,
+                  fillColor: SIDE_COLORS[side],
+                  fillOpacity: 1,
+                }}
+              >
+                <Tooltip permanent direction="top" offset={[0, -8]}>
+                  {side.toUpperCase()}
+                </Tooltip>
+              </CircleMarker>
+            )
+          })}
+        </Pane>
+        <FitBoundsToPoints a={a} b={b} />
+      </MapContainer>
+      {isLoading && (
+        <div className="pointer-events-none absolute left-1/2 top-3 z-[1000] -translate-x-1/2">
+          <div className="flex items-center gap-2 rounded-md bg-background/90 px-3 py-2 text-sm text-muted-foreground shadow-sm backdrop-blur-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading district boundaries…
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
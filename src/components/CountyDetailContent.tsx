@@ -25,8 +25,9 @@ import {
 import { CensusProfileCard } from "@/components/CensusProfileCard"
 import { CountyDetailMap } from "@/components/CountyDetailMap"
 import { useCountyBoundary } from "@/hooks/useCountyBoundary"
-import { useBoundaryTypeGeoJSON } from "@/hooks/useBoundaryTypeGeoJSON"
+import { useOverlayLayersGeoJSON } from "@/hooks/useOverlayLayersGeoJSON"
 import { useAuthStore } from "@/stores/authStore"
+import type { OverlayLayerSettings } from "@/lib/overlay-layers"
 
 const functionalStatusLabels: Record<string, string> = {
   A: "Active",
@@ -39,14 +40,13 @@ const functionalStatusLabels: Record<string, string> = {
 
 interface CountyDetailContentProps {
   countyId: string
-  overlay?: string
+  layers: OverlayLayerSettings[]
 }
 
 export function CountyDetailContent({
   countyId,
-  overlay,
+  layers,
 }: Readonly<CountyDetailContentProps>) {
-  const selectedType = overlay ?? null
   const {
     data: county,
     isLoading: isCountyLoading,
@@ -54,8 +54,11 @@ export function CountyDetailContent({
     error,
   } = useCountyBoundary(countyId)
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
-  const { data: overlayData, isLoading: isOverlayLoading } =
-    useBoundaryTypeGeoJSON(selectedType, county?.name ?? null)
+  const { overlays, isLoading: isOverlayLoading } = useOverlayLayersGeoJSON(
+    layers,
+    county?.name ?? null,
+    !!county,
+  )
   const [drawerOpen, setDrawerOpen] = useState(false)
 
   return (
@@ -64,9 +67,10 @@ export function CountyDetailContent({
       <div className="relative z-0 h-full w-full">
         <CountyDetailMap
           countyGeometry={county?.geometry ?? null}
-          overlayData={overlayData}
+          overlays={overlays}
           isCountyLoading={isCountyLoading}
           isOverlayLoading={isOverlayLoading}
+          exportTitle={county ? `${county.name} County` : undefined}
           className="rounded-none border-0"
         />
       </div>
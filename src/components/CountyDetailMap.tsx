@@ -1,14 +1,22 @@
 import { useCallback, useEffect, useMemo } from "react"
-import { MapContainer, TileLayer, GeoJSON, useMap } from "react-leaflet"
+import { MapContainer, GeoJSON, useMap } from "react-leaflet"
 import { useNavigate } from "@tanstack/react-router"
 import type { PathOptions } from "leaflet"
 import type { MultiPolygon, Polygon } from "geojson"
 import { Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { geometryToLeafletBounds } from "@/lib/geo"
+import { styleLegendItem } from "@/lib/map-export"
+import { buildBoundarySearchItems } from "@/lib/map-search"
 import { districtSlugPath } from "@/lib/slugs"
-import { OverlayLayer } from "@/components/OverlayLayer"
-import type { BoundaryFeatureCollection } from "@/types/boundary"
+import { BasemapLayer } from "@/components/BasemapLayer"
+import { MapExportControl } from "@/components/MapExportControl"
+import { MapSearchControl } from "@/components/MapSearchControl"
+import { OverlayLayerStack } from "@/components/OverlayLayer"
+import {
+  overlayLegendSections,
+  type OverlayLayerData,
+} from "@/lib/overlay-layers"
 
 const GA_CENTER: [number, number] = [32.6791, -83.6233]
 const GA_ZOOM = 7
@@ -21,11 +29,16 @@ const COUNTY_STYLE: PathOptions = {
   opacity: 1,
 }
 
+const NO_OVERLAYS: OverlayLayerData[] = []
+
 interface CountyDetailMapProps {
   countyGeometry?: Record<string, unknown> | null
-  overlayData?: BoundaryFeatureCollection | null
+  /** Boundary overlays in z-order, last on top */
+  overlays?: OverlayLayerData[]
   isCountyLoading?: boolean
   isOverlayLoading?: boolean
+  /** Suggested title for map exports, e.g. "Fulton County" */
+  exportTitle?: string
   className?: string
 }
 
@@ -61,9 +74,10 @@ function CountyBoundaryLayer({
 
 export function CountyDetailMap({
   countyGeometry,
-  overlayData,
+  overlays = NO_OVERLAYS,
   isCountyLoading,
   isOverlayLoading,
+  exportTitle = "County map",
   className,
 }: Readonly<CountyDetailMapProps>) {
   const navigate = useNavigate()
@@ -82,6 +96,19 @@ export function CountyDetailMap({
     [navigate],
   )
 
+  const searchItems = useMemo(
+    () => overlays.flatMap((overlay) => buildBoundarySearchItems(overlay.data)),
+    [overlays],
+  )
+
+  const exportLegend = useMemo(
+    () => [
+      { items: [styleLegendItem("County boundary", COUNTY_STYLE)] },
+      ...overlayLegendSections(overlays.map((overlay) => overlay.settings)),
+    ],
+    [overlays],
+  )
+
   const isLoading = isCountyLoading || isOverlayLoading
 
   return (
@@ -93,18 +120,15 @@ export function CountyDetailMap({
         doubleClickZoom={false}
         className={cn("h-full w-full rounded-lg border", className)}
       >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
+        <BasemapLayer />
         {countyGeometry && <FitBoundsToCounty geometry={countyGeometry} />}
         {countyGeometry && <CountyBoundaryLayer geometry={countyGeometry} />}
-        {overlayData && overlayData.features.length > 0 && (
-          <OverlayLayer
-            data={overlayData}
-            onDistrictDblClick={handleDistrictDblClick}
-          />
-        )}
+        <OverlayLayerStack
+          overlays={overlays}
+          onDistrictDblClick={handleDistrictDblClick}
+        />
+        <MapSearchControl items={searchItems} className="right-3 top-3" />
+        <MapExportControl title={exportTitle} legend={exportLegend} />
       </MapContainer>
       {isLoading && (
         <div className="pointer-events-none absolute left-1/2 top-3 z-[1000] -translate-x-1/2">
@@ -11,37 +11,59 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible"
+import { DistrictOfficials } from "@/components/officials/ElectedOfficials"
+import { cn } from "@/lib/utils"
+import { districtTypeLabels } from "@/lib/districts"
 import type { LookupDistrict } from "@/types/lookup"
 
-const boundaryTypeLabels: Record<string, string> = {
-  precinct: "Voting Precinct",
-  county_precinct: "Voting Precinct",
-  county: "County",
-  commission_district: "Commission District",
-  county_commission: "County Commission District",
-  congressional: "Congressional District",
-  congressional_district: "Congressional District",
-  state_senate: "State Senate District",
-  state_house: "State House District",
-  school_district: "School District",
-  school_board: "School Board District",
-  psc: "Public Service Commission District",
-}
-
 interface DistrictCardProps {
   district: LookupDistrict
+  isSelected?: boolean
+  onSelect?: (boundaryId: string) => void
 }
 
-export function DistrictCard({ district }: DistrictCardProps) {
+export function DistrictCard({
+  district,
+  isSelected,
+  onSelect,
+}: DistrictCardProps) {
   const label =
-    boundaryTypeLabels[district.boundary_type] ?? district.boundary_type
+    districtTypeLabels[district.boundary_type] ?? district.boundary_type
 
   const metadataEntries = Object.entries(district.metadata).filter(
     ([, value]) => value !== null && value !== "",
   )
 
+  // Links and buttons inside the card (details toggle, contact links)
+  // keep their own behavior instead of also selecting the card
+  const handleClick = (event: React.MouseEvent<HTMLElement>) => {
+    if ((event.target as Element).closest("a, button")) return
+    onSelect?.(district.boundary_id)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    if (event.target !== event.currentTarget) return
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault()
+      onSelect?.(district.boundary_id)
+    }
+  }
+
   return (
-    <Card>
+    <Card
+      id={`district-${district.boundary_id}`}
+      role={onSelect ? "button" : undefined}
+      tabIndex={onSelect ? 0 : undefined}
+      aria-pressed={onSelect ? !!isSelected : undefined}
+      onClick={onSelect ? handleClick : undefined}
+      onKeyDown={onSelect ? handleKeyDown : undefined}
+      className={cn(
+        "scroll-mt-4 transition-shadow",
+        onSelect &&
+          "cursor-pointer hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isSelected && "ring-2 ring-primary",
+      )}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-2">
           <Badge variant="secondary" className="shrink-0">
@@ -49,6 +71,11 @@ export function DistrictCard({ district }: DistrictCardProps) {
           </Badge>
           <CardTitle className="text-base text-right">{district.name}</CardTitle>
         </div>
+        <DistrictOfficials
+          boundaryType={district.boundary_type}
+          name={district.name}
+          boundaryIdentifier={district.boundary_identifier}
+        />
       </CardHeader>
       {metadataEntries.length > 0 && (
         <CardContent className="pt-0">
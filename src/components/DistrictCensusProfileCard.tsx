@@ -0,0 +1,99 @@
+import { BarChart3 } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { useDistrictCensusProfile } from "@/hooks/useDistrictCensusProfile"
+import {
+  CensusProfileSkeleton,
+  CensusProfileError,
+  CensusProfileSections,
+} from "@/components/census/CensusProfileContent"
+import { CensusTrendCharts } from "@/components/census/CensusTrendCharts"
+import { CensusVintageControls } from "@/components/census/CensusVintageControls"
+import { useCensusVintage } from "@/hooks/useCensusVintage"
+import { formatVintage } from "@/lib/census"
+import type { CensusDistrictType, CensusGeography } from "@/types/census"
+
+interface DistrictCensusProfileCardProps {
+  fipsState: string
+  districtType: CensusDistrictType
+  /** District number without padding, e.g. "5" */
+  districtNumber: string
+  /** e.g. "Congressional District 5" */
+  districtLabel: string
+}
+
+export function DistrictCensusProfileCard({
+  fipsState,
+  districtType,
+  districtNumber,
+  districtLabel,
+}: Readonly<DistrictCensusProfileCardProps>) {
+  const { vintage, setVintage, compareYear, setCompareYear, compareVintage } =
+    useCensusVintage()
+  const {
+    data: profile,
+    isLoading,
+    isError,
+    error,
+  } = useDistrictCensusProfile(fipsState, districtType, districtNumber, vintage)
+  const { data: previous } = useDistrictCensusProfile(
+    fipsState,
+    districtType,
+    districtNumber,
+    compareVintage,
+  )
+  const geography: CensusGeography = {
+    kind: "district",
+    fipsState,
+    districtType,
+    districtNumber,
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Census Demographics
+        </CardTitle>
+        <CardDescription>
+          {formatVintage(vintage)} for {districtLabel}. Census district
+          geographies follow the lines in effect for the survey and may
+          differ from current boundaries.
+        </CardDescription>
+        <CensusVintageControls
+          vintage={vintage}
+          onVintageChange={setVintage}
+          compareYear={compareYear}
+          onCompareYearChange={setCompareYear}
+        />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <CensusProfileSkeleton />}
+        {isError && (
+          <CensusProfileError
+            message={error instanceof Error ? error.message : ""}
+          />
+        )}
+        <CensusTrendCharts geography={geography} dataset={vintage.dataset} />
+        {profile && (
+          <CensusProfileSections
+            profile={profile}
+            vintage={vintage}
+            geography={geography}
+            comparison={
+              previous && compareYear !== null
+                ? { year: compareYear, profile: previous }
+                : undefined
+            }
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
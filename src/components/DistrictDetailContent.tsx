@@ -19,9 +19,14 @@ import {
   DrawerHeader,
   DrawerTitle,
 } from "@/components/ui/drawer"
+import { DistrictCensusProfileCard } from "@/components/DistrictCensusProfileCard"
 import { DistrictDetailMap } from "@/components/DistrictDetailMap"
+import { ElectedOfficialsCard } from "@/components/officials/ElectedOfficials"
 import { useCountyBoundary } from "@/hooks/useCountyBoundary"
 import { useCountyBoundaries } from "@/hooks/useCountyBoundaries"
+import { officialDistrictNumber } from "@/lib/officials"
+import { GA_STATE_FIPS } from "@/lib/states"
+import type { CensusDistrictType } from "@/types/census"
 
 const boundaryTypeLabels: Record<string, string> = {
   congressional: "Congressional District",
@@ -30,6 +35,12 @@ const boundaryTypeLabels: Record<string, string> = {
   psc: "Public Service Commission District",
 }
 
+const censusDistrictTypes: readonly string[] = [
+  "congressional",
+  "state_senate",
+  "state_house",
+] satisfies CensusDistrictType[]
+
 interface DistrictDetailContentProps {
   districtId: string
 }
@@ -52,6 +63,11 @@ export function DistrictDetailContent({
       district.boundary_type.replaceAll("_", " "))
     : ""
 
+  const censusDistrictNumber =
+    district && censusDistrictTypes.includes(district.boundary_type)
+      ? officialDistrictNumber(district.name, district.boundary_identifier)
+      : null
+
   return (
     <div className="relative h-full w-full">
       {/* Map renders immediately with tiles; layers appear as data arrives */}
@@ -61,6 +77,7 @@ export function DistrictDetailContent({
           counties={counties ?? null}
           isDistrictLoading={isDistrictLoading}
           isCountiesLoading={isCountiesLoading}
+          exportTitle={district?.name}
           className="rounded-none border-0"
         />
       </div>
@@ -162,6 +179,19 @@ export function DistrictDetailContent({
                     </dl>
                   </CardContent>
                 </Card>
+                <ElectedOfficialsCard
+                  boundaryType={district.boundary_type}
+                  name={district.name}
+                  boundaryIdentifier={district.boundary_identifier}
+                />
+                {censusDistrictNumber && (
+                  <DistrictCensusProfileCard
+                    fipsState={GA_STATE_FIPS}
+                    districtType={district.boundary_type as CensusDistrictType}
+                    districtNumber={censusDistrictNumber}
+                    districtLabel={`${typeLabel} ${censusDistrictNumber}`}
+                  />
+                )}
               </div>
               <button
                 type="button"
@@ -1,10 +1,13 @@
 import { useCallback, useEffect, useMemo, useRef } from "react"
-import { MapContainer, TileLayer, GeoJSON, useMap } from "react-leaflet"
+import { MapContainer, GeoJSON, useMap } from "react-leaflet"
 import type { PathOptions } from "leaflet"
 import type { Feature, MultiPolygon, Polygon } from "geojson"
 import { Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { BasemapLayer } from "@/components/BasemapLayer"
+import { MapExportControl } from "@/components/MapExportControl"
 import { geometryToLeafletBounds } from "@/lib/geo"
+import { styleLegendItem } from "@/lib/map-export"
 import type { CountyFeatureCollection, CountyProperties } from "@/types/boundaries"
 
 const GA_CENTER: [number, number] = [32.6791, -83.6233]
@@ -41,6 +44,8 @@ interface DistrictDetailMapProps {
   counties?: CountyFeatureCollection | null
   isDistrictLoading?: boolean
   isCountiesLoading?: boolean
+  /** Suggested title for map exports, e.g. "State House District 89" */
+  exportTitle?: string
   className?: string
 }
 
@@ -135,10 +140,25 @@ export function DistrictDetailMap({
   counties,
   isDistrictLoading,
   isCountiesLoading,
+  exportTitle = "District map",
   className,
 }: Readonly<DistrictDetailMapProps>) {
   const isLoading = isDistrictLoading || isCountiesLoading
 
+  const exportLegend = useMemo(
+    () => [
+      {
+        items: [
+          styleLegendItem("District", DISTRICT_STYLE),
+          ...(counties
+            ? [styleLegendItem("Counties", COUNTY_OUTLINE_STYLE)]
+            : []),
+        ],
+      },
+    ],
+    [counties],
+  )
+
   return (
     <div className="relative h-full w-full">
       <MapContainer
@@ -147,10 +167,7 @@ export function DistrictDetailMap({
         scrollWheelZoom={true}
         className={cn("h-full w-full rounded-lg border", className)}
       >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
+        <BasemapLayer />
         {districtGeometry && (
           <FitBoundsToDistrict geometry={districtGeometry} />
         )}
@@ -158,6 +175,7 @@ export function DistrictDetailMap({
           <DistrictBoundaryLayer geometry={districtGeometry} />
         )}
         {counties && <CountyOutlinesLayer counties={counties} />}
+        <MapExportControl title={exportTitle} legend={exportLegend} />
       </MapContainer>
       {isLoading && (
         <div className="pointer-events-none absolute left-1/2 top-3 z-[1000] -translate-x-1/2">
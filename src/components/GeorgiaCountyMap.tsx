@@ -1,20 +1,47 @@
-import { useCallback, useEffect } from "react"
-import { MapContainer, TileLayer, GeoJSON, useMap } from "react-leaflet"
+import { useCallback, useEffect, useMemo } from "react"
+import {
+  CircleMarker,
+  MapContainer,
+  GeoJSON,
+  useMap,
+  useMapEvents,
+} from "react-leaflet"
 import { useNavigate } from "@tanstack/react-router"
 import type { Layer, LeafletMouseEvent, PathOptions, LeafletEvent } from "leaflet"
-import type { Feature, MultiPolygon, Polygon } from "geojson"
+import type { Feature, Geometry, MultiPolygon, Polygon } from "geojson"
 import { Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import {
+  choroplethColor,
+  choroplethLegendItems,
+  classificationMethodLabels,
+  type CountyChoropleth,
+} from "@/lib/choropleth"
+import { formatCensusValue } from "@/lib/census-fields"
+import { styleLegendItem, type MapExportLegendSection } from "@/lib/map-export"
+import { featureLabelPoint } from "@/lib/map-labels"
+import {
+  buildBoundarySearchItems,
+  buildCountySearchItems,
+} from "@/lib/map-search"
+import { GA_CENTER } from "@/lib/geo"
 import { countySlugPath, districtSlugPath, slugify } from "@/lib/slugs"
 import { fipsToAbbrev } from "@/lib/states"
-import { OverlayLayer } from "@/components/OverlayLayer"
+import { BasemapLayer } from "@/components/BasemapLayer"
+import { ChoroplethLegend } from "@/components/ChoroplethControls"
+import { MapExportControl } from "@/components/MapExportControl"
+import { MapLabelLayer, type MapLabel } from "@/components/MapLabelLayer"
+import { MapSearchControl } from "@/components/MapSearchControl"
+import { OverlayLayerStack } from "@/components/OverlayLayer"
 import type {
   CountyFeatureCollection,
   CountyProperties,
 } from "@/types/boundaries"
-import type { BoundaryFeatureCollection } from "@/types/boundary"
+import {
+  overlayLegendSections,
+  type OverlayLayerData,
+} from "@/lib/overlay-layers"
 
-const GA_CENTER: [number, number] = [32.6791, -83.6233]
 const GA_ZOOM = 7
 
 const DEFAULT_STYLE: PathOptions = {
@@ -32,15 +59,91 @@ const HOVER_STYLE: PathOptions = {
   opacity: 1,
 }
 
+const CHOROPLETH_STYLE: PathOptions = {
+  color: "#374151",
+  weight: 0.75,
+  fillOpacity: 0.75,
+  opacity: 0.9,
+}
+
+// Choropleth fills carry the data, so hover only strengthens the outline
+const CHOROPLETH_HOVER_STYLE: PathOptions = {
+  weight: 2.5,
+  opacity: 1,
+}
+
+const PROBE_POINT_STYLE: PathOptions = {
+  color: "#ffffff",
+  weight: 2,
+  fillColor: "#dc2626",
+  fillOpacity: 1,
+}
+
+const NO_OVERLAYS: OverlayLayerData[] = []
+
 interface GeorgiaCountyMapProps {
   data?: CountyFeatureCollection | null
-  overlayData?: BoundaryFeatureCollection | null
+  /** Boundary overlays in z-order, last on top */
+  overlays?: OverlayLayerData[]
   isCountiesLoading?: boolean
   isOverlayLoading?: boolean
+  isCensusLoading?: boolean
   className?: string
+  /** When true, clicking the map probes the clicked point instead of opening popups. */
+  probeMode?: boolean
+  probePoint?: [number, number] | null
+  onProbe?: (lat: number, lng: number) => void
+  /** Shade counties by a census field instead of the uniform fill */
+  choropleth?: CountyChoropleth | null
+  /** Permanent county name labels, below any overlay labels */
+  showCountyLabels?: boolean
+  /** Position of the search box, to clear other controls on the page */
+  searchClassName?: string
 }
 
-function CountyGeoJSON({ data }: Readonly<{ data: CountyFeatureCollection }>) {
+// Overlay label layers are ordered from 0 up; county names yield to them
+const COUNTY_LABEL_ORDER = -1
+
+function CountyLabels({
+  data,
+}: Readonly<{ data: CountyFeatureCollection }>) {
+  const labels = useMemo(
+    () =>
+      data.features.flatMap((feature): MapLabel[] => {
+        const anchor = featureLabelPoint(feature.geometry)
+        if (!anchor) return []
+        return [
+          {
+            id: feature.properties.boundary_identifier,
+            text: feature.properties.name,
+            latLng: anchor.latLng,
+            priority: anchor.area,
+          },
+        ]
+      }),
+    [data],
+  )
+  return <MapLabelLayer labels={labels} order={COUNTY_LABEL_ORDER} />
+}
+
+function ProbeClickHandler({
+  onProbe,
+}: Readonly<{ onProbe: (lat: number, lng: number) => void }>) {
+  useMapEvents({
+    click: (e) => onProbe(e.latlng.lat, e.latlng.lng),
+  })
+  return null
+}
+
+function CountyGeoJSON({
+  data,
+  interactive = true,
+  choropleth,
+}: Readonly<{
+  data: CountyFeatureCollection
+  interactive?: boolean
+  choropleth?: CountyChoropleth | null
+}>) {
   const map = useMap()
   const navigate = useNavigate()
 
@@ -78,7 +181,19 @@ function CountyGeoJSON({ data }: Readonly<{ data: CountyFeatureCollection }>) {
     }
   }, [map, navigate])
 
-  const style = useCallback(() => ({ ...DEFAULT_STYLE }), [])
+  const style = useCallback(
+    (feature?: Feature<Geometry, CountyProperties>): PathOptions => {
+      if (!choropleth || !feature) return { ...DEFAULT_STYLE }
+      return {
+        ...CHOROPLETH_STYLE,
+        fillColor: choroplethColor(
+          choropleth,
+          feature.properties.boundary_identifier,
+        ),
+      }
+    },
+    [choropleth],
+  )
 
   const onEachFeature = useCallback(
     (
@@ -107,15 +222,26 @@ function CountyGeoJSON({ data }: Readonly<{ data: CountyFeatureCollection }>) {
         </div>`,
       )
 
+      if (choropleth) {
+        const value = choropleth.values[props.boundary_identifier] ?? null
+        layer.bindTooltip(
+          `<div>
+            <p class="font-semibold">${props.name} County</p>
+            <p>${choropleth.field.label}: ${formatCensusValue(value, choropleth.field)}</p>
+          </div>`,
+          { sticky: true },
+        )
+      }
+
       layer.on({
         mouseover: (e: LeafletMouseEvent) => {
           const target = e.target
-          target.setStyle(HOVER_STYLE)
+          target.setStyle(choropleth ? CHOROPLETH_HOVER_STYLE : HOVER_STYLE)
           target.bringToFront()
         },
         mouseout: (e: LeafletMouseEvent) => {
           const target = e.target
-          target.setStyle(DEFAULT_STYLE)
+          target.setStyle(style(feature))
         },
         dblclick: () => {
           if (slugPath && stateAbbrev && countySlug) {
@@ -127,28 +253,66 @@ function CountyGeoJSON({ data }: Readonly<{ data: CountyFeatureCollection }>) {
         },
       })
     },
-    [navigate],
+    [navigate, choropleth, style],
   )
 
+  // Handlers and tooltips are bound once per layer, so a new shading
+  // remounts the layer rather than restyling it
+  const choroplethKey = choropleth
+    ? `${choropleth.field.field}-${choropleth.method}-${choropleth.bounds.join(",")}`
+    : "none"
+
   return (
     <GeoJSON
-      key={data.features.length}
+      key={`${data.features.length}-${interactive}-${choroplethKey}`}
       data={data}
       style={style}
-      onEachFeature={onEachFeature}
+      onEachFeature={interactive ? onEachFeature : undefined}
+      interactive={interactive}
     />
   )
 }
 
 export function GeorgiaCountyMap({
   data,
-  overlayData,
+  overlays = NO_OVERLAYS,
   isCountiesLoading,
   isOverlayLoading,
+  isCensusLoading,
   className,
+  probeMode,
+  probePoint,
+  onProbe,
+  choropleth,
+  showCountyLabels,
+  searchClassName = "right-3 top-3",
 }: Readonly<GeorgiaCountyMapProps>) {
   const navigate = useNavigate()
 
+  const searchItems = useMemo(
+    () => [
+      ...(data ? buildCountySearchItems(data) : []),
+      ...overlays.flatMap((overlay) => buildBoundarySearchItems(overlay.data)),
+    ],
+    [data, overlays],
+  )
+
+  const exportLegend = useMemo(
+    (): MapExportLegendSection[] => [
+      choropleth
+        ? {
+            title: choropleth.field.label,
+            subtitle: classificationMethodLabels[choropleth.method],
+            items: choroplethLegendItems(choropleth).map(({ label, color }) =>
+              styleLegendItem(label, { ...CHOROPLETH_STYLE, fillColor: color }),
+            ),
+          }
+        : { items: [styleLegendItem("Counties", DEFAULT_STYLE)] },
+      ...overlayLegendSections(overlays.map((overlay) => overlay.settings)),
+    ],
+    [choropleth, overlays],
+  )
+
   const handleDistrictDblClick = useCallback(
     (_featureId: string, boundaryType: string, name: string) => {
       const slugPath = districtSlugPath(name, boundaryType)
@@ -163,7 +327,7 @@ export function GeorgiaCountyMap({
     [navigate],
   )
 
-  const isLoading = isCountiesLoading || isOverlayLoading
+  const isLoading = isCountiesLoading || isOverlayLoading || isCensusLoading
 
   return (
     <div className="relative h-full w-full">
@@ -172,27 +336,65 @@ export function GeorgiaCountyMap({
         zoom={GA_ZOOM}
         scrollWheelZoom={true}
         doubleClickZoom={false}
-        className={cn("h-full w-full rounded-lg border", className)}
+        className={cn(
+          "h-full w-full rounded-lg border",
+          probeMode && "cursor-crosshair [&.leaflet-grab]:cursor-crosshair",
+          className,
+        )}
       >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        <BasemapLayer />
+        {data && (
+          <CountyGeoJSON
+            data={data}
+            interactive={!probeMode}
+            choropleth={choropleth}
+          />
+        )}
+        {data && showCountyLabels && <CountyLabels data={data} />}
+        <OverlayLayerStack
+          overlays={overlays}
+          onDistrictDblClick={handleDistrictDblClick}
+          interactive={!probeMode}
+        />
+        {probeMode && onProbe && <ProbeClickHandler onProbe={onProbe} />}
+        <MapSearchControl items={searchItems} className={searchClassName} />
+        <MapExportControl
+          title={
+            choropleth
+              ? `Georgia counties: ${choropleth.field.label}`
+              : "Georgia counties"
+          }
+          legend={exportLegend}
+          attribution={
+            choropleth
+              ? "Boundaries and census data: U.S. Census Bureau"
+              : undefined
+          }
         />
-        {data && <CountyGeoJSON data={data} />}
-        {overlayData && overlayData.features.length > 0 && (
-          <OverlayLayer
-            data={overlayData}
-            onDistrictDblClick={handleDistrictDblClick}
+        {probePoint && (
+          <CircleMarker
+            center={probePoint}
+            radius={7}
+            pathOptions={PROBE_POINT_STYLE}
+            interactive={false}
           />
         )}
       </MapContainer>
+      {choropleth && (
+        <ChoroplethLegend
+          choropleth={choropleth}
+          className="absolute bottom-12 right-3 z-[1000]"
+        />
+      )}
       {isLoading && (
         <div className="pointer-events-none absolute left-1/2 top-3 z-[1000] -translate-x-1/2">
           <div className="flex items-center gap-2 rounded-md bg-background/90 px-3 py-2 text-sm text-muted-foreground shadow-sm backdrop-blur-sm">
             <Loader2 className="h-4 w-4 animate-spin" />
             {isCountiesLoading
               ? "Loading county boundaries…"
-              : "Loading districts…"}
+              : isOverlayLoading
+                ? "Loading districts…"
+                : "Loading census data…"}
           </div>
         </div>
       )}
@@ -1,27 +1,183 @@
 import { useState, useRef, useEffect } from "react"
-import { ChevronDown, ChevronUp, Layers, Loader2, X } from "lucide-react"
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronUp,
+  Layers,
+  Loader2,
+  SlidersHorizontal,
+  Tag,
+  X,
+} from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import { Slider } from "@/components/ui/slider"
+import { Toggle } from "@/components/ui/toggle"
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { cn } from "@/lib/utils"
+import {
+  MAX_OVERLAY_LAYERS,
+  OVERLAY_COLOR_SCHEMES,
+  moveOverlayLayer,
+  overlayColorSchemeLabels,
+  overlaySchemeSwatch,
+  setOverlayLayerTypes,
+  type OverlayLayerSettings,
+} from "@/lib/overlay-layers"
 
 interface LayerBarProps {
   boundaryTypes: string[] | undefined
   isTypesLoading: boolean
-  selectedType: string | null
-  onTypeChange: (type: string | undefined) => void
-  overlayFeatureCount: number | null
+  /** Visible overlays in z-order, last on top */
+  layers: OverlayLayerSettings[]
+  onLayersChange: (layers: OverlayLayerSettings[]) => void
+  /** Loaded feature count per boundary type; null while loading */
+  featureCounts: Record<string, number | null>
   countyName: string
   statewide?: boolean
+  /** Statewide map only: permanent county name labels */
+  countyLabels?: boolean
+  onCountyLabelsChange?: (shown: boolean) => void
+}
+
+function formatTypeName(type: string): string {
+  return type.replaceAll("_", " ")
+}
+
+/** Opacity, color scheme and stacking controls for each visible layer. */
+function LayerSettingsList({
+  layers,
+  onLayersChange,
+}: Readonly<Pick<LayerBarProps, "layers" | "onLayersChange">>) {
+  const update = (index: number, patch: Partial<OverlayLayerSettings>) =>
+    onLayersChange(
+      layers.map((layer, i) => (i === index ? { ...layer, ...patch } : layer)),
+    )
+
+  // Listed top layer first, matching how they stack on the map
+  const rows = layers.map((layer, index) => ({ layer, index })).reverse()
+
+  return (
+    <ul className="space-y-3">
+      {rows.map(({ layer, index }) => {
+        const name = formatTypeName(layer.type)
+        return (
+          <li key={layer.type} className="space-y-2">
+            <div className="flex items-center gap-1">
+              <span className="flex-1 truncate text-xs font-medium capitalize">
+                {name}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={`Move ${name} up`}
+                disabled={index === layers.length - 1}
+                onClick={() => onLayersChange(moveOverlayLayer(layers, index, 1))}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={`Move ${name} down`}
+                disabled={index === 0}
+                onClick={() =>
+                  onLayersChange(moveOverlayLayer(layers, index, -1))
+                }
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={`Hide ${name}`}
+                onClick={() =>
+                  onLayersChange(layers.filter((_, i) => i !== index))
+                }
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Slider
+                value={[layer.opacity]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([opacity]) => update(index, { opacity })}
+                aria-label={`${name} opacity`}
+                className="flex-1"
+              />
+              <span className="w-9 text-right text-xs tabular-nums text-muted-foreground">
+                {layer.opacity}%
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`layer-labels-${layer.type}`}
+                checked={layer.labels}
+                onCheckedChange={(checked) =>
+                  update(index, { labels: checked === true })
+                }
+              />
+              <Label
+                htmlFor={`layer-labels-${layer.type}`}
+                className="text-xs font-normal"
+              >
+                Show labels
+              </Label>
+            </div>
+            <div
+              className="flex gap-1.5"
+              role="radiogroup"
+              aria-label={`${name} colors`}
+            >
+              {OVERLAY_COLOR_SCHEMES.map((scheme) => (
+                <button
+                  key={scheme}
+                  type="button"
+                  role="radio"
+                  aria-checked={layer.scheme === scheme}
+                  aria-label={overlayColorSchemeLabels[scheme]}
+                  title={overlayColorSchemeLabels[scheme]}
+                  onClick={() => update(index, { scheme })}
+                  className={cn(
+                    "h-5 w-5 rounded-full border focus-visible:ring-2 focus-visible:ring-ring",
+                    layer.scheme === scheme &&
+                      "ring-2 ring-primary ring-offset-1 ring-offset-background",
+                  )}
+                  style={{ background: overlaySchemeSwatch(scheme) }}
+                />
+              ))}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
 }
 
 export function LayerBar({
   boundaryTypes,
   isTypesLoading,
-  selectedType,
-  onTypeChange,
-  overlayFeatureCount,
+  layers,
+  onLayersChange,
+  featureCounts,
   countyName,
   statewide,
+  countyLabels,
+  onCountyLabelsChange,
 }: LayerBarProps) {
   const [expanded, setExpanded] = useState(false)
   const barRef = useRef<HTMLDivElement>(null)
@@ -38,35 +194,68 @@ export function LayerBar({
     return () => document.removeEventListener("mousedown", handleClickOutside)
   }, [expanded])
 
-  const typeName = selectedType?.replaceAll("_", " ") ?? ""
-  const plural = overlayFeatureCount === 1 ? "" : "s"
   const locationLabel = statewide
     ? "statewide"
     : `intersecting ${countyName} County`
+  const selectedTypes = layers.map((layer) => layer.type)
+  const counted = layers.flatMap((layer) => {
+    const count = featureCounts[layer.type]
+    return count === null || count === undefined
+      ? []
+      : [{ typeName: formatTypeName(layer.type), count }]
+  })
 
-  const statusText =
-    selectedType && overlayFeatureCount !== null
-      ? overlayFeatureCount > 0
-        ? `Showing ${overlayFeatureCount} ${typeName} district${plural} ${locationLabel}`
+  let statusText: string | null = null
+  if (counted.length === 1) {
+    const [{ typeName, count }] = counted
+    const plural = count === 1 ? "" : "s"
+    statusText =
+      count > 0
+        ? `Showing ${count} ${typeName} district${plural} ${locationLabel}`
         : `No ${typeName} districts found ${locationLabel}`
-      : null
+  } else if (counted.length > 1) {
+    const parts = counted.map(({ typeName, count }) => `${count} ${typeName}`)
+    statusText = `Showing ${parts.join(", ")} districts ${locationLabel}`
+  }
+
+  const handleTypesChange = (types: string[]) =>
+    onLayersChange(setOverlayLayerTypes(layers, types))
 
   const toggleButtons = boundaryTypes?.map((type) => (
     <ToggleGroupItem
       key={type}
       value={type}
-      className="text-xs capitalize bg-neutral-300 hover:bg-neutral-700 hover:text-white data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+      disabled={
+        layers.length >= MAX_OVERLAY_LAYERS && !selectedTypes.includes(type)
+      }
+      className="text-xs capitalize bg-neutral-300 hover:bg-neutral-700 hover:text-white dark:bg-neutral-700 dark:hover:bg-neutral-500 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground dark:data-[state=on]:bg-primary"
     >
-      {type.replaceAll("_", " ")}
+      {formatTypeName(type)}
     </ToggleGroupItem>
   ))
 
-  const clearButton = selectedType && (
+  const countyLabelsToggle = onCountyLabelsChange && (
+    <Toggle
+      variant="outline"
+      size="sm"
+      pressed={countyLabels}
+      onPressedChange={onCountyLabelsChange}
+      className="text-xs bg-neutral-300 hover:bg-neutral-700 hover:text-white dark:bg-neutral-700 dark:hover:bg-neutral-500 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground dark:data-[state=on]:bg-primary"
+    >
+      <Tag className="h-3 w-3" />
+      County names
+    </Toggle>
+  )
+
+  const clearButton = layers.length > 0 && (
     <Button
       variant="outline"
       size="sm"
-      className="text-xs bg-neutral-300 hover:bg-neutral-700 hover:text-white"
-      onClick={() => onTypeChange(undefined)}
+      className="text-xs bg-neutral-300 hover:bg-neutral-700 hover:text-white dark:bg-neutral-700 dark:hover:bg-neutral-500"
+      onClick={() => {
+        onLayersChange([])
+        setExpanded(false)
+      }}
     >
       <X className="h-3 w-3" />
       Clear
@@ -92,17 +281,36 @@ export function LayerBar({
       <div className="hidden md:flex items-center gap-2">
         <Layers className="h-4 w-4 shrink-0 text-muted-foreground" />
         <ToggleGroup
-          type="single"
+          type="multiple"
           variant="outline"
           size="sm"
-          value={selectedType ?? ""}
-          onValueChange={(value) =>
-            onTypeChange(value === "" ? undefined : value)
-          }
+          value={selectedTypes}
+          onValueChange={handleTypesChange}
           className="flex flex-wrap justify-start gap-2"
         >
           {toggleButtons}
         </ToggleGroup>
+        {layers.length > 0 && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-xs bg-neutral-300 hover:bg-neutral-700 hover:text-white dark:bg-neutral-700 dark:hover:bg-neutral-500"
+              >
+                <SlidersHorizontal className="h-3 w-3" />
+                Layer settings
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-64">
+              <LayerSettingsList
+                layers={layers}
+                onLayersChange={onLayersChange}
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+        {countyLabelsToggle}
         {clearButton}
         {statusText && (
           <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
@@ -121,11 +329,15 @@ export function LayerBar({
         >
           <Layers className="h-4 w-4 text-muted-foreground" />
           <span>Layers</span>
-          {selectedType && (
-            <Badge variant="secondary" className="text-xs capitalize">
-              {selectedType.replaceAll("_", " ")}
+          {layers.map((layer) => (
+            <Badge
+              key={layer.type}
+              variant="secondary"
+              className="text-xs capitalize"
+            >
+              {formatTypeName(layer.type)}
             </Badge>
-          )}
+          ))}
           {expanded ? (
             <ChevronUp className="ml-auto h-4 w-4" />
           ) : (
@@ -135,32 +347,25 @@ export function LayerBar({
         {expanded && (
           <div className="mt-2 space-y-2">
             <ToggleGroup
-              type="single"
+              type="multiple"
               variant="outline"
               size="sm"
-              value={selectedType ?? ""}
-              onValueChange={(value) => {
-                onTypeChange(value === "" ? undefined : value)
-                setExpanded(false)
-              }}
+              value={selectedTypes}
+              onValueChange={handleTypesChange}
               className="flex flex-wrap justify-start gap-2"
             >
               {toggleButtons}
             </ToggleGroup>
-            {selectedType && (
-              <Button
-                variant="outline"
-                size="sm"
-                className="text-xs bg-neutral-300 hover:bg-neutral-700 hover:text-white"
-                onClick={() => {
-                  onTypeChange(undefined)
-                  setExpanded(false)
-                }}
-              >
-                <X className="h-3 w-3" />
-                Clear
-              </Button>
+            {layers.length > 0 && (
+              <LayerSettingsList
+                layers={layers}
+                onLayersChange={onLayersChange}
+              />
             )}
+            <div className="flex flex-wrap gap-2">
+              {countyLabelsToggle}
+              {clearButton}
+            </div>
             {statusText && (
               <p className="text-xs text-muted-foreground">{statusText}</p>
             )}
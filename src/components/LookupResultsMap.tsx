@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef } from "react"
+import {
+  Circle,
+  CircleMarker,
+  FeatureGroup,
+  GeoJSON,
+  LayersControl,
+  MapContainer,
+  Marker,
+  Pane,
+  Tooltip,
+  useMap,
+} from "react-leaflet"
+import type {
+  GeoJSON as LeafletGeoJSON,
+  Marker as LeafletMarker,
+  PathOptions,
+} from "leaflet"
+import type { MultiPolygon, Polygon } from "geojson"
+import { Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { BasemapLayer } from "@/components/BasemapLayer"
+import { geometryToLeafletBounds } from "@/lib/geo"
+import { createDraggablePinIcon, getDistrictStyle } from "@/lib/map-palette"
+import type { DistrictGroup } from "@/lib/districts"
+import type { LookupDistrict } from "@/types/lookup"
+
+const POINT_STYLE: PathOptions = {
+  color: "#ffffff",
+  weight: 2,
+  fillColor: "#2563eb",
+  fillOpacity: 1,
+}
+
+const ACCURACY_STYLE: PathOptions = {
+  color: "#2563eb",
+  weight: 1,
+  fillColor: "#3b82f6",
+  fillOpacity: 0.1,
+  dashArray: "4 4",
+}
+
+const DRAGGABLE_POINT_ICON = createDraggablePinIcon("#2563eb")
+
+const SELECTED_STYLE: PathOptions = {
+  weight: 4,
+  fillOpacity: 0.45,
+  opacity: 1,
+}
+
+interface LookupResultsMapProps {
+  latitude: number
+  longitude: number
+  accuracy?: number | null
+  groups: DistrictGroup[]
+  geometries: Map<string, Record<string, unknown>>
+  selectedDistrictId: string | null
+  onDistrictClick: (boundaryId: string) => void
+  /** When set, the point becomes a draggable pin reporting where it was dropped. */
+  onPointMove?: (latitude: number, longitude: number) => void
+  isLoading?: boolean
+  className?: string
+}
+
+function FitBoundsToSelected({
+  geometry,
+}: Readonly<{ geometry: Record<string, unknown> | undefined }>) {
+  const map = useMap()
+
+  useEffect(() => {
+    if (!geometry) return
+    map.fitBounds(geometryToLeafletBounds(geometry), { padding: [20, 20] })
+  }, [map, geometry])
+
+  return null
+}
+
+function DistrictPolygon({
+  district,
+  geometry,
+  baseStyle,
+  isSelected,
+  onClick,
+}: Readonly<{
+  district: LookupDistrict
+  geometry: Record<string, unknown>
+  baseStyle: PathOptions
+  isSelected: boolean
+  onClick: (boundaryId: string) => void
+}>) {
+  const data = useMemo(
+    () => ({
+      type: "Feature" as const,
+      geometry: geometry as unknown as MultiPolygon | Polygon,
+      properties: {},
+    }),
+    [geometry],
+  )
+
+  const layerRef = useRef<LeafletGeoJSON>(null)
+
+  const style = useMemo(
+    () => (isSelected ? { ...baseStyle, ...SELECTED_STYLE } : baseStyle),
+    [baseStyle, isSelected],
+  )
+
+  useEffect(() => {
+    if (isSelected) layerRef.current?.bringToFront()
+  }, [isSelected])
+
+  return (
+    <GeoJSON
+      ref={layerRef}
+      data={data}
+      style={style}
+      eventHandlers={{ click: () => onClick(district.boundary_id) }}
+    >
+      <Tooltip sticky>{district.name}</Tooltip>
+    </GeoJSON>
+  )
+}
+
+export function LookupResultsMap({
+  latitude,
+  longitude,
+  accuracy,
+  groups,
+  geometries,
+  selectedDistrictId,
+  onDistrictClick,
+  onPointMove,
+  isLoading,
+  className,
+}: Readonly<LookupResultsMapProps>) {
+  const groupStyles = useMemo(
+    () => groups.map((_, index) => getDistrictStyle(index)),
+    [groups],
+  )
+
+  return (
+    <div className="relative h-full w-full">
+      <MapContainer
+        center={[latitude, longitude]}
+        zoom={13}
+        scrollWheelZoom={false}
+        className={cn("h-full w-full rounded-lg border", className)}
+      >
+        <BasemapLayer />
+        <LayersControl position="topright">
+          {groups.map((group, groupIndex) => (
+            <LayersControl.Overlay
+              key={group.boundaryType}
+              name={group.label}
+              checked
+            >
+              <FeatureGroup>
+                {group.districts.map((district) => {
+                  const geometry = geometries.get(district.boundary_id)
+                  if (!geometry) return null
+                  return (
+                    <DistrictPolygon
+                      key={district.boundary_id}
+                      district={district}
+                      geometry={geometry}
+                      baseStyle={groupStyles[groupIndex]}
+                      isSelected={district.boundary_id === selectedDistrictId}
+                      onClick={onDistrictClick}
+                    />
+                  )
+                })}
+              </FeatureGroup>
+            </LayersControl.Overlay>
+          ))}
+        </LayersControl>
+        {/* Own pane so the point stays above polygons that load later */}
+        <Pane name="lookup-point" style={{ zIndex: 450 }}>
+          {accuracy ? (
+            <Circle
+              center={[latitude, longitude]}
+              radius={accuracy}
+              pathOptions={ACCURACY_STYLE}
+              interactive={false}
+            />
+          ) : null}
+          {onPointMove ? (
+            <Marker
+              position={[latitude, longitude]}
+              icon={DRAGGABLE_POINT_ICON}
+              draggable
+              autoPan
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = (e.target as LeafletMarker).getLatLng()
+                  onPointMove(lat, lng)
+                },
+              }}
+            >
+              <Tooltip>Drag to the correct location</Tooltip>
+            </Marker>
+          ) : (
+            <CircleMarker
+              center={[latitude, longitude]}
+              radius={7}
+              pathOptions={POINT_STYLE}
+            >
+              <Tooltip>Looked-up location</Tooltip>
+            </CircleMarker>
+          )}
+        </Pane>
+        <FitBoundsToSelected
+          geometry={
+            selectedDistrictId ? geometries.get(selectedDistrictId) : undefined
+          }
+        />
+      </MapContainer>
+      {isLoading && (
+        <div className="pointer-events-none absolute left-1/2 top-3 z-[1000] -translate-x-1/2">
+          <div className="flex items-center gap-2 rounded-md bg-background/90 px-3 py-2 text-sm text-muted-foreground shadow-sm backdrop-blur-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading district boundaries…
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
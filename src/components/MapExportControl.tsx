@@ -0,0 +1,309 @@
+import { useEffect, useId, useRef, useState } from "react"
+import { useMap } from "react-leaflet"
+import { DomEvent, LineUtil, Polygon } from "leaflet"
+import type { LatLng, Map as LeafletMap } from "leaflet"
+import { ImageDown, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useBasemap } from "@/hooks/useBasemap"
+import { plainAttribution } from "@/lib/basemaps"
+import { downloadBlob } from "@/lib/download"
+import {
+  BOUNDARY_ATTRIBUTION,
+  MAP_EXPORT_DPIS,
+  MAP_EXPORT_FORMATS,
+  exportStyle,
+  mapExportToPdf,
+  mapExportToPng,
+  mapExportToSvg,
+  thinRing,
+  type MapExportFormat,
+  type MapExportLabel,
+  type MapExportLegendSection,
+  type MapExportScene,
+  type MapExportShape,
+  type MapExportTiles,
+} from "@/lib/map-export"
+import { slugify } from "@/lib/slugs"
+import { cn } from "@/lib/utils"
+
+// Highest zoom every default tile server serves
+const MAX_TILE_ZOOM = 19
+
+function latLngRings(
+  latlngs: LatLng[] | LatLng[][] | LatLng[][][],
+): LatLng[][] {
+  if (LineUtil.isFlat(latlngs as LatLng[])) return [latlngs as LatLng[]]
+  return (latlngs as (LatLng[] | LatLng[][])[]).flatMap(latLngRings)
+}
+
+/**
+ * Every polygon on the map that touches the view, bottom to top: by pane
+ * z-index, then by drawing order within the pane.
+ */
+function collectShapes(map: LeafletMap): MapExportShape[] {
+  const view = map.getBounds()
+  const found: { z: number; element: Element; shape: MapExportShape }[] = []
+  map.eachLayer((layer) => {
+    if (!(layer instanceof Polygon)) return
+    const element = layer.getElement()
+    if (!element || !view.intersects(layer.getBounds())) return
+    const pane = map.getPane(layer.options.pane ?? "overlayPane")
+    const rings = latLngRings(layer.getLatLngs()).map((ring) =>
+      thinRing(
+        ring.map((latLng) => {
+          const point = map.latLngToContainerPoint(latLng)
+          return [point.x, point.y]
+        }),
+      ),
+    )
+    found.push({
+      z: pane ? Number(getComputedStyle(pane).zIndex) || 0 : 0,
+      element,
+      shape: { rings, style: exportStyle(layer.options) },
+    })
+  })
+  return found
+    .sort(
+      (a, b) =>
+        a.z - b.z ||
+        (a.element.compareDocumentPosition(b.element) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+          ? -1
+          : 1),
+    )
+    .map(({ shape }) => shape)
+}
+
+/** Labels MapLabelLayer is currently showing, as positioned on screen. */
+function collectLabels(map: LeafletMap): MapExportLabel[] {
+  const container = map.getContainer()
+  const origin = container.getBoundingClientRect()
+  const spans = container.querySelectorAll<HTMLElement>(".map-label > span")
+  return Array.from(spans).flatMap((span) => {
+    const style = getComputedStyle(span)
+    const box = span.getBoundingClientRect()
+    if (style.visibility === "hidden" || box.width === 0) return []
+    return [
+      {
+        x: box.left + box.width / 2 - origin.left,
+        y: box.top + box.height / 2 - origin.top,
+        text: span.textContent ?? "",
+        fontSize: parseFloat(style.fontSize),
+      },
+    ]
+  })
+}
+
+function metersPerPixel(map: LeafletMap): number {
+  const { x, y } = map.getSize()
+  const left = map.containerPointToLatLng([x / 2 - 50, y / 2])
+  const right = map.containerPointToLatLng([x / 2 + 50, y / 2])
+  return map.distance(left, right) / 100
+}
+
+/**
+ * Tiles for the view, a zoom level sharper than on screen when printing
+ * at high resolution.
+ */
+function viewTiles(
+  map: LeafletMap,
+  template: string,
+  dpi: number,
+): MapExportTiles {
+  const zoom = Math.min(
+    MAX_TILE_ZOOM,
+    Math.round(map.getZoom()) + (dpi > 96 ? 1 : 0),
+  )
+  const origin = map.project(map.containerPointToLatLng([0, 0]), zoom)
+  return {
+    template,
+    zoom,
+    origin: [origin.x, origin.y],
+    scale: 2 ** (zoom - map.getZoom()),
+  }
+}
+
+interface MapExportControlProps {
+  /** Suggested title; the user can change it before exporting */
+  title: string
+  legend: MapExportLegendSection[]
+  /** Where the map's data comes from */
+  attribution?: string
+  /** Position within the map, e.g. "bottom-22 left-3" */
+  className?: string
+}
+
+/**
+ * "Export map" button and form. Renders the current view, with a title,
+ * legend, scale bar, north arrow and attribution, to PNG over the
+ * basemap, or to vector SVG or PDF. Must be rendered inside a
+ * MapContainer.
+ */
+export function MapExportControl({
+  title: defaultTitle,
+  legend,
+  attribution = BOUNDARY_ATTRIBUTION,
+  className = "bottom-22 left-3",
+}: Readonly<MapExportControlProps>) {
+  const map = useMap()
+  const { source } = useBasemap()
+  const titleId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [open, setOpen] = useState(false)
+  const [title, setTitle] = useState(defaultTitle)
+  const [format, setFormat] = useState<MapExportFormat>("png")
+  const [dpi, setDpi] = useState<number>(150)
+  const [pending, setPending] = useState(false)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (container) DomEvent.disableClickPropagation(container)
+  }, [])
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from the current view's title each time
+    if (next) setTitle(defaultTitle)
+    setOpen(next)
+  }
+
+  const handleExport = async () => {
+    const tiles = format === "png" && source ? source : null
+    const scene: MapExportScene = {
+      title: title.trim(),
+      width: map.getSize().x,
+      height: map.getSize().y,
+      shapes: collectShapes(map),
+      labels: collectLabels(map),
+      legend,
+      metersPerPixel: metersPerPixel(map),
+      attribution: [attribution, tiles && plainAttribution(tiles.attribution)]
+        .filter(Boolean)
+        .join(" · "),
+    }
+
+    setPending(true)
+    try {
+      const blob =
+        format === "png"
+          ? await mapExportToPng(
+              scene,
+              dpi,
+              tiles && viewTiles(map, tiles.url, dpi),
+            )
+          : format === "svg"
+            ? mapExportToSvg(scene)
+            : await mapExportToPdf(scene)
+      downloadBlob(blob, `${slugify(scene.title) || "map"}.${format}`)
+      setOpen(false)
+    } catch (error) {
+      toast.error("Could not export the map", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className={cn("absolute z-[1000]", className)}>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Export map"
+            title="Export map"
+            className="h-8 w-8 bg-background/95 shadow-sm backdrop-blur-sm"
+          >
+            <ImageDown className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent side="top" align="start" className="w-64 space-y-3">
+          <p className="text-sm font-semibold">Export map</p>
+          <div className="space-y-1">
+            <Label htmlFor={titleId} className="text-xs">
+              Title
+            </Label>
+            <Input
+              id={titleId}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Format</p>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={format}
+              onValueChange={(value) => {
+                if (value) setFormat(value as MapExportFormat)
+              }}
+              aria-label="Format"
+            >
+              {MAP_EXPORT_FORMATS.map((option) => (
+                <ToggleGroupItem
+                  key={option}
+                  value={option}
+                  className="text-xs uppercase"
+                >
+                  {option}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {format !== "png" && (
+              <p className="text-xs text-muted-foreground">
+                Vector boundaries and labels, without the basemap.
+              </p>
+            )}
+          </div>
+          {format === "png" && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Resolution</p>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={String(dpi)}
+                onValueChange={(value) => {
+                  if (value) setDpi(Number(value))
+                }}
+                aria-label="Resolution"
+              >
+                {MAP_EXPORT_DPIS.map((option) => (
+                  <ToggleGroupItem
+                    key={option}
+                    value={String(option)}
+                    className="text-xs"
+                  >
+                    {option} DPI
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={handleExport}
+            disabled={pending}
+          >
+            {pending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
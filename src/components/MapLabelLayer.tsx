@@ -0,0 +1,127 @@
+import { useEffect } from "react"
+import { useMap } from "react-leaflet"
+import { divIcon, marker } from "leaflet"
+import type { Map as LeafletMap, Marker } from "leaflet"
+import { labelFontSize, placeLabels, type LabelBox } from "@/lib/map-labels"
+
+export interface MapLabel {
+  id: string
+  text: string
+  latLng: [number, number]
+  /** Higher claims space first within its layer, e.g. feature area */
+  priority: number
+}
+
+interface LabelGroup {
+  order: number
+  entries: { label: MapLabel; marker: Marker; element: HTMLElement }[]
+}
+
+const LABEL_PANE = "feature-labels"
+// Above the stacked boundary overlays (410+), below markers (600)
+const LABEL_PANE_Z_INDEX = "450"
+
+// Every label layer on a map is placed in one collision pass, so labels
+// from different layers don't overprint each other
+const labelGroups = new WeakMap<LeafletMap, Set<LabelGroup>>()
+const pendingLayouts = new WeakSet<LeafletMap>()
+
+function layoutLabels(map: LeafletMap) {
+  const pane = map.getPane(LABEL_PANE)
+  const groups = [...(labelGroups.get(map) ?? [])]
+  if (!pane || groups.length === 0) return
+
+  pane.style.fontSize = `${labelFontSize(map.getZoom())}px`
+  const size = map.getSize()
+  const entries = groups
+    .sort((a, b) => b.order - a.order)
+    .flatMap((group) =>
+      [...group.entries].sort((a, b) => b.label.priority - a.label.priority),
+    )
+
+  // Read every box before writing any visibility, to lay out only once
+  const boxes = entries.map(({ label, element }): LabelBox | null => {
+    const point = map.latLngToContainerPoint(label.latLng)
+    if (point.x < 0 || point.y < 0 || point.x > size.x || point.y > size.y) {
+      return null
+    }
+    return {
+      x: point.x,
+      y: point.y,
+      width: element.offsetWidth,
+      height: element.offsetHeight,
+    }
+  })
+  const visible = placeLabels(boxes)
+  entries.forEach(({ element }, i) => {
+    element.style.visibility = visible[i] ? "" : "hidden"
+  })
+}
+
+function scheduleLayout(map: LeafletMap) {
+  if (pendingLayouts.has(map)) return
+  pendingLayouts.add(map)
+  requestAnimationFrame(() => {
+    pendingLayouts.delete(map)
+    layoutLabels(map)
+  })
+}
+
+/**
+ * Permanent, non-interactive labels. Font size follows the zoom level and
+ * labels that would collide with a higher-priority one are hidden; layers
+ * with a higher `order` win.
+ */
+export function MapLabelLayer({
+  labels,
+  order = 0,
+}: Readonly<{ labels: MapLabel[]; order?: number }>) {
+  const map = useMap()
+
+  useEffect(() => {
+    if (!map.getPane(LABEL_PANE)) {
+      const pane = map.createPane(LABEL_PANE)
+      pane.style.zIndex = LABEL_PANE_Z_INDEX
+      pane.style.pointerEvents = "none"
+    }
+
+    const group: LabelGroup = {
+      order,
+      entries: labels.map((label) => {
+        const element = document.createElement("span")
+        element.textContent = label.text
+        const labelMarker = marker(label.latLng, {
+          icon: divIcon({
+            className: "map-label",
+            html: element,
+            iconSize: [0, 0],
+          }),
+          pane: LABEL_PANE,
+          interactive: false,
+          keyboard: false,
+        }).addTo(map)
+        return { label, marker: labelMarker, element }
+      }),
+    }
+
+    let groups = labelGroups.get(map)
+    if (!groups) {
+      groups = new Set()
+      labelGroups.set(map, groups)
+    }
+    groups.add(group)
+
+    const relayout = () => scheduleLayout(map)
+    map.on("zoomend moveend resize", relayout)
+    relayout()
+
+    return () => {
+      map.off("zoomend moveend resize", relayout)
+      for (const entry of group.entries) entry.marker.remove()
+      labelGroups.get(map)?.delete(group)
+      relayout()
+    }
+  }, [map, labels, order])
+
+  return null
+}
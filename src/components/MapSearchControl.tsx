@@ -0,0 +1,238 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react"
+import { GeoJSON, Pane, useMap } from "react-leaflet"
+import { useNavigate } from "@tanstack/react-router"
+import { DomEvent } from "leaflet"
+import type { PathOptions } from "leaflet"
+import { ArrowRight, MapPin, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { geometryToLeafletBounds } from "@/lib/geo"
+import { searchMapItems, type MapSearchItem } from "@/lib/map-search"
+
+const HIGHLIGHT_STYLE: PathOptions = {
+  color: "#facc15",
+  weight: 4,
+  opacity: 1,
+  fillColor: "#facc15",
+  fillOpacity: 0.15,
+}
+
+// Above the stacked overlays (410+), below labels (450)
+const HIGHLIGHT_PANE_Z_INDEX = 440
+
+interface MapSearchControlProps {
+  /** Everything searchable on the map right now */
+  items: MapSearchItem[]
+  /** Position within the map, e.g. "right-3 top-3" */
+  className?: string
+}
+
+/**
+ * Find-a-place box for a Leaflet map. Picking a result zooms to it,
+ * outlines it and offers a link to its detail page. Must be rendered
+ * inside a MapContainer.
+ */
+export function MapSearchControl({
+  items,
+  className,
+}: Readonly<MapSearchControlProps>) {
+  const map = useMap()
+  const navigate = useNavigate()
+  const listboxId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [query, setQuery] = useState("")
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [selected, setSelected] = useState<MapSearchItem | null>(null)
+
+  // The control sits inside the map container; keep typing, clicks and
+  // scrolling from panning or zooming the map underneath
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    DomEvent.disableClickPropagation(container)
+    DomEvent.disableScrollPropagation(container)
+  }, [])
+
+  const results = useMemo(() => searchMapItems(items, query), [items, query])
+  const expanded = open && results.length > 0
+
+  // Drop the highlight once its layer is no longer on the map
+  const selectedItem =
+    selected && items.some((item) => item.id === selected.id) ? selected : null
+
+  const select = (item: MapSearchItem) => {
+    setSelected(item)
+    setQuery(item.label)
+    setOpen(false)
+    setActiveIndex(-1)
+    const bounds = geometryToLeafletBounds(
+      item.geometry as unknown as Record<string, unknown>,
+    )
+    map.fitBounds(bounds, { padding: [20, 20] })
+  }
+
+  const clear = () => {
+    setSelected(null)
+    setQuery("")
+    setActiveIndex(-1)
+  }
+
+  const openDetails = (path: string) => {
+    const [, section, first, second] = path.split("/")
+    if (section === "counties") {
+      navigate({
+        to: "/counties/$state/$county",
+        params: { state: first, county: second },
+      })
+    } else {
+      navigate({
+        to: "/districts/$type/$name",
+        params: { type: first, name: second },
+      })
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault()
+        setOpen(true)
+        if (results.length > 0) {
+          setActiveIndex((i) => (i + 1) % results.length)
+        }
+        break
+      case "ArrowUp":
+        e.preventDefault()
+        if (results.length > 0) {
+          setActiveIndex((i) => (i <= 0 ? results.length - 1 : i - 1))
+        }
+        break
+      case "Enter":
+        // With nothing highlighted, Enter takes the best match
+        if (expanded) {
+          e.preventDefault()
+          select(results[Math.max(activeIndex, 0)])
+        }
+        break
+      case "Escape":
+        if (expanded) {
+          e.preventDefault()
+          setOpen(false)
+          setActiveIndex(-1)
+        }
+        break
+    }
+  }
+
+  return (
+    <>
+      {selectedItem && (
+        <Pane
+          name="search-highlight"
+          style={{ zIndex: HIGHLIGHT_PANE_Z_INDEX }}
+        >
+          <GeoJSON
+            key={selectedItem.id}
+            data={selectedItem.geometry}
+            style={HIGHLIGHT_STYLE}
+            interactive={false}
+          />
+        </Pane>
+      )}
+      <div
+        ref={containerRef}
+        className={cn(
+          "absolute z-[1000] w-56 space-y-1 sm:w-72",
+          className,
+        )}
+      >
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            role="combobox"
+            autoComplete="off"
+            aria-label="Search the map"
+            aria-autocomplete="list"
+            aria-expanded={expanded}
+            aria-controls={listboxId}
+            aria-activedescendant={
+              expanded && activeIndex >= 0
+                ? `${listboxId}-option-${activeIndex}`
+                : undefined
+            }
+            placeholder="Find a county, district or precinct"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setOpen(true)
+              setActiveIndex(-1)
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => {
+              setOpen(false)
+              setActiveIndex(-1)
+            }}
+            onKeyDown={handleKeyDown}
+            className="bg-background/95 pl-8 pr-8 shadow-sm backdrop-blur-sm"
+          />
+          {query && (
+            <button
+              type="button"
+              aria-label="Clear search"
+              onClick={clear}
+              className="absolute right-2.5 top-2.5 text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="Map search results"
+            hidden={!expanded}
+            className="absolute z-50 mt-1 max-h-72 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {results.map((item, index) => (
+              <li
+                key={item.id}
+                id={`${listboxId}-option-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so blur doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(item)}
+                className={cn(
+                  "flex cursor-pointer items-start gap-2 rounded-sm px-2 py-1.5 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground",
+                )}
+              >
+                <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="flex-1">
+                  {item.label}
+                  <span className="block text-xs text-muted-foreground">
+                    {item.description}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        {selectedItem?.path && !expanded && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="w-full justify-between shadow-sm"
+            onClick={() => openDetails(selectedItem.path!)}
+          >
+            <span className="truncate">{selectedItem.label} details</span>
+            <ArrowRight className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </>
+  )
+}
@@ -1,7 +1,15 @@
-import { useCallback, useMemo } from "react"
-import { GeoJSON } from "react-leaflet"
+import { useCallback, useEffect, useMemo, useRef } from "react"
+import { GeoJSON, Pane } from "react-leaflet"
 import type { Layer, LeafletMouseEvent, PathOptions } from "leaflet"
 import type { Feature, MultiPolygon, Polygon } from "geojson"
+import { MapLabelLayer, type MapLabel } from "@/components/MapLabelLayer"
+import { districtLabelText, featureLabelPoint } from "@/lib/map-labels"
+import {
+  DEFAULT_OVERLAY_OPACITY,
+  overlayFeatureStyle,
+  type OverlayLayerData,
+  type OverlayLayerSettings,
+} from "@/lib/overlay-layers"
 import type {
   BoundaryFeatureCollection,
   BoundaryFeatureProperties,
@@ -16,37 +24,6 @@ function escapeHtml(str: string): string {
     .replaceAll("'", "&#039;")
 }
 
-// Distinct, colorblind-friendly palette for district overlays
-const DISTRICT_COLORS = [
-  { fill: "#e6194b", border: "#a01235" }, // red
-  { fill: "#3cb44b", border: "#2a7d34" }, // green
-  { fill: "#4363d8", border: "#2e45a0" }, // blue
-  { fill: "#f58231", border: "#b55f1e" }, // orange
-  { fill: "#911eb4", border: "#6b1685" }, // purple
-  { fill: "#42d4f4", border: "#2a9ab0" }, // cyan
-  { fill: "#f032e6", border: "#a822a0" }, // magenta
-  { fill: "#bfef45", border: "#8ab530" }, // lime
-  { fill: "#fabed4", border: "#b58898" }, // pink
-  { fill: "#dcbeff", border: "#9a85b5" }, // lavender
-  { fill: "#ffe119", border: "#b5a012" }, // yellow
-  { fill: "#aaffc3", border: "#78b58a" }, // mint
-  { fill: "#808000", border: "#5a5a00" }, // olive
-  { fill: "#ffd8b1", border: "#b5987c" }, // apricot
-  { fill: "#000075", border: "#000050" }, // navy
-  { fill: "#a9a9a9", border: "#757575" }, // grey
-]
-
-function getDistrictStyle(index: number): PathOptions {
-  const palette = DISTRICT_COLORS[index % DISTRICT_COLORS.length]
-  return {
-    color: palette.border,
-    weight: 1.5,
-    fillColor: palette.fill,
-    fillOpacity: 0.25,
-    opacity: 0.9,
-  }
-}
-
 const OVERLAY_HOVER_STYLE: PathOptions = {
   weight: 3,
   fillOpacity: 0.45,
@@ -60,11 +37,28 @@ interface OverlayLayerProps {
     boundaryType: string,
     name: string,
   ) => void
+  /** Set to false to let clicks pass through to the map (no popups or hover). */
+  interactive?: boolean
+  /** Color scheme and opacity; defaults to the per-district palette */
+  settings?: Pick<OverlayLayerSettings, "opacity" | "scheme">
+  /** Show permanent district labels */
+  showLabels?: boolean
+  /** Label priority against other labeled layers; higher wins */
+  labelOrder?: number
+}
+
+const DEFAULT_SETTINGS: Pick<OverlayLayerSettings, "opacity" | "scheme"> = {
+  opacity: DEFAULT_OVERLAY_OPACITY,
+  scheme: "palette",
 }
 
 export function OverlayLayer({
   data,
   onDistrictDblClick,
+  interactive = true,
+  settings = DEFAULT_SETTINGS,
+  showLabels = false,
+  labelOrder = 0,
 }: Readonly<OverlayLayerProps>) {
   const featureIndexMap = useMemo(() => {
     const map = new Map<string, number>()
@@ -75,15 +69,23 @@ export function OverlayLayer({
     return map
   }, [data])
 
+  const { opacity, scheme } = settings
   const style = useCallback(
     (feature?: Feature) => {
       const key = feature?.properties?.boundary_identifier ?? ""
       const index = featureIndexMap.get(key) ?? 0
-      return getDistrictStyle(index)
+      return overlayFeatureStyle({ opacity, scheme }, index)
     },
-    [featureIndexMap],
+    [featureIndexMap, opacity, scheme],
   )
 
+  // Opacity and scheme restyle the layer in place; mouseout reads the
+  // current style rather than the one captured when the feature was bound
+  const styleRef = useRef(style)
+  useEffect(() => {
+    styleRef.current = style
+  }, [style])
+
   const onEachFeature = useCallback(
     (
       feature: Feature<MultiPolygon | Polygon, BoundaryFeatureProperties>,
@@ -93,9 +95,6 @@ export function OverlayLayer({
       const displayName =
         props.precinct_name || props.name || props.boundary_identifier
       const typeName = props.boundary_type.replaceAll("_", " ")
-      const key = props.boundary_identifier ?? ""
-      const index = featureIndexMap.get(key) ?? 0
-      const defaultStyle = getDistrictStyle(index)
 
       layer.bindPopup(
         `<div class="p-1">
@@ -110,7 +109,7 @@ export function OverlayLayer({
           e.target.bringToFront()
         },
         mouseout: (e: LeafletMouseEvent) => {
-          e.target.setStyle(defaultStyle)
+          e.target.setStyle(styleRef.current(feature))
         },
         dblclick: () => {
           if (onDistrictDblClick && feature.id) {
@@ -123,15 +122,80 @@ export function OverlayLayer({
         },
       })
     },
-    [featureIndexMap, onDistrictDblClick],
+    [onDistrictDblClick],
+  )
+
+  const labels = useMemo(
+    () =>
+      showLabels
+        ? data.features.flatMap((feature, i): MapLabel[] => {
+            const anchor = feature.geometry
+              ? featureLabelPoint(feature.geometry)
+              : null
+            if (!anchor) return []
+            const props = feature.properties
+            return [
+              {
+                id: props.boundary_identifier ?? String(i),
+                text: props.precinct_name || districtLabelText(props.name),
+                latLng: anchor.latLng,
+                priority: anchor.area,
+              },
+            ]
+          })
+        : [],
+    [data, showLabels],
   )
 
   return (
-    <GeoJSON
-      key={`${data.features[0]?.properties?.boundary_type}-${data.features.length}`}
-      data={data}
-      style={style}
-      onEachFeature={onEachFeature}
-    />
+    <>
+      {labels.length > 0 && (
+        <MapLabelLayer labels={labels} order={labelOrder} />
+      )}
+      <GeoJSON
+        key={`${data.features[0]?.properties?.boundary_type}-${data.features.length}-${interactive}`}
+        data={data}
+        style={style}
+        onEachFeature={interactive ? onEachFeature : undefined}
+        interactive={interactive}
+      />
+    </>
+  )
+}
+
+// Leaflet's default overlayPane sits at z-index 400; stacked overlays go
+// just above it so the county layer stays underneath
+const OVERLAY_PANE_Z_INDEX = 410
+
+/**
+ * Stacked overlays, each in its own pane so z-order follows the layer
+ * order rather than the order the GeoJSON happened to load in.
+ */
+export function OverlayLayerStack({
+  overlays,
+  onDistrictDblClick,
+  interactive = true,
+}: Readonly<{
+  overlays: OverlayLayerData[]
+  onDistrictDblClick?: OverlayLayerProps["onDistrictDblClick"]
+  interactive?: boolean
+}>) {
+  return overlays.map(({ settings, data }, index) =>
+    data.features.length > 0 ? (
+      <Pane
+        key={index}
+        name={`boundary-overlay-${index}`}
+        style={{ zIndex: OVERLAY_PANE_Z_INDEX + index }}
+      >
+        <OverlayLayer
+          data={data}
+          settings={settings}
+          showLabels={settings.labels}
+          labelOrder={index}
+          onDistrictDblClick={onDistrictDblClick}
+          interactive={interactive}
+        />
+      </Pane>
+    ) : null,
   )
 }
@@ -0,0 +1,122 @@
+import { useState } from "react"
+import { Link } from "@tanstack/react-router"
+import { AlertCircle, Check, Crosshair, Link2, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { usePointLookup } from "@/hooks/useAddressLookup"
+import { groupDistricts } from "@/lib/districts"
+
+interface ProbeResultsSheetProps {
+  point: [number, number] | null
+  onClose: () => void
+}
+
+/**
+ * Non-modal side sheet listing every district containing a probed map point.
+ * Stays open while the user keeps clicking the map to probe other points.
+ */
+export function ProbeResultsSheet({
+  point,
+  onClose,
+}: Readonly<ProbeResultsSheetProps>) {
+  const [copied, setCopied] = useState(false)
+  const { data, isLoading, isError } = usePointLookup(
+    point ? { lat: point[0], lng: point[1] } : null,
+  )
+  const groups = groupDistricts(data?.districts ?? [])
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(globalThis.location.href)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <Sheet
+      open={point !== null}
+      onOpenChange={(open) => !open && onClose()}
+      modal={false}
+    >
+      <SheetContent
+        side="right"
+        className="overflow-y-auto"
+        onInteractOutside={(e) => e.preventDefault()}
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Districts at Point
+          </SheetTitle>
+          <SheetDescription className="font-mono">
+            {point ? `${point[0].toFixed(5)}, ${point[1].toFixed(5)}` : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-4 px-4">
+          {isLoading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Looking up districts…
+            </div>
+          )}
+
+          {isError && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>Failed to look up districts for this point.</span>
+            </div>
+          )}
+
+          {data && groups.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No districts found at this point.
+            </p>
+          )}
+
+          {groups.map((group) => (
+            <div key={group.boundaryType}>
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {group.label}
+              </h3>
+              <ul className="mt-1 space-y-0.5 text-sm">
+                {group.districts.map((district) => (
+                  <li key={district.boundary_id}>{district.name}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {point && (
+          <div className="space-y-2 px-4 pb-4">
+            <Separator />
+            <Button variant="outline" className="w-full" onClick={handleCopyLink}>
+              {copied ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <Link2 className="h-4 w-4" />
+              )}
+              {copied ? "Link copied" : "Copy shareable link"}
+            </Button>
+            <Button variant="outline" className="w-full" asChild>
+              <Link
+                to="/lookup/results"
+                search={{ lat: point[0], lng: point[1] }}
+              >
+                Open full results
+              </Link>
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -12,6 +12,19 @@ import {
   CensusProfileError,
   CensusProfileSections,
 } from "@/components/census/CensusProfileContent"
+import { CensusTrendCharts } from "@/components/census/CensusTrendCharts"
+import { CensusVintageControls } from "@/components/census/CensusVintageControls"
+import { CensusExportButtons } from "@/components/census/CensusExportButtons"
+import { useCensusVintage } from "@/hooks/useCensusVintage"
+import { useCountyCensusExport } from "@/hooks/useCountyCensusExport"
+import { formatVintage } from "@/lib/census"
+import {
+  censusExportFilename,
+  exportCensusProfile,
+  type CensusExportFormat,
+} from "@/lib/census-export"
+import { downloadBlob } from "@/lib/download"
+import type { CensusGeography } from "@/types/census"
 
 interface StateCensusProfileCardProps {
   fipsState: string
@@ -22,12 +35,28 @@ export function StateCensusProfileCard({
   fipsState,
   stateName,
 }: Readonly<StateCensusProfileCardProps>) {
+  const { vintage, setVintage, compareYear, setCompareYear, compareVintage } =
+    useCensusVintage()
   const {
     data: profile,
     isLoading,
     isError,
     error,
-  } = useStateCensusProfile(fipsState)
+  } = useStateCensusProfile(fipsState, vintage)
+  const { data: previous } = useStateCensusProfile(fipsState, compareVintage)
+  const geography: CensusGeography = { kind: "state", fipsState }
+  const exportCounties = useCountyCensusExport(fipsState, stateName, vintage)
+
+  const handleExport = async (format: CensusExportFormat) => {
+    if (!profile) return
+    const blob = await exportCensusProfile(
+      profile,
+      { name: stateName, fips: fipsState },
+      vintage,
+      format,
+    )
+    downloadBlob(blob, censusExportFilename(stateName, vintage, format))
+  }
 
   return (
     <Card>
@@ -37,8 +66,25 @@ export function StateCensusProfileCard({
           State Census Demographics
         </CardTitle>
         <CardDescription>
-          American Community Survey 5-Year Estimates (2023) for {stateName}
+          {formatVintage(vintage)} for {stateName}
         </CardDescription>
+        <CensusVintageControls
+          vintage={vintage}
+          onVintageChange={setVintage}
+          compareYear={compareYear}
+          onCompareYearChange={setCompareYear}
+        />
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          <CensusExportButtons
+            label="Download"
+            onExport={handleExport}
+            disabled={!profile}
+          />
+          <CensusExportButtons
+            label="All counties"
+            onExport={exportCounties}
+          />
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
         {isLoading && <CensusProfileSkeleton />}
@@ -47,7 +93,19 @@ export function StateCensusProfileCard({
             message={error instanceof Error ? error.message : ""}
           />
         )}
-        {profile && <CensusProfileSections profile={profile} />}
+        <CensusTrendCharts geography={geography} dataset={vintage.dataset} />
+        {profile && (
+          <CensusProfileSections
+            profile={profile}
+            vintage={vintage}
+            geography={geography}
+            comparison={
+              previous && compareYear !== null
+                ? { year: compareYear, profile: previous }
+                : undefined
+            }
+          />
+        )}
       </CardContent>
     </Card>
   )
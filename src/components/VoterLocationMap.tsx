@@ -0,0 +1,133 @@
+import { useEffect, useRef } from "react"
+import {
+  CircleMarker,
+  MapContainer,
+  Marker,
+  Pane,
+  Tooltip,
+  useMap,
+} from "react-leaflet"
+import type { Marker as LeafletMarker, PathOptions } from "leaflet"
+import { cn } from "@/lib/utils"
+import { BasemapLayer } from "@/components/BasemapLayer"
+import { GA_CENTER } from "@/lib/geo"
+import { createDraggablePinIcon } from "@/lib/map-palette"
+import type { VoterGeocodedLocation } from "@/types/lookup"
+
+const PRIMARY_STYLE: PathOptions = {
+  color: "#ffffff",
+  weight: 3,
+  fillColor: "#16a34a",
+  fillOpacity: 1,
+}
+
+const SECONDARY_STYLE: PathOptions = {
+  color: "#ffffff",
+  weight: 2,
+  fillColor: "#6b7280",
+  fillOpacity: 0.9,
+}
+
+const SELECTED_RING: PathOptions = { color: "#2563eb", weight: 4 }
+
+const DRAFT_ICON = createDraggablePinIcon("#ea580c")
+
+interface VoterLocationMapProps {
+  locations: VoterGeocodedLocation[]
+  selectedLocationId: string | null
+  onSelect: (locationId: string) => void
+  /** Unsaved point being placed; rendered as a draggable pin. */
+  draftPoint: [number, number] | null
+  onDraftMove: (point: [number, number]) => void
+  className?: string
+}
+
+function FitToLocations({
+  locations,
+}: Readonly<{ locations: VoterGeocodedLocation[] }>) {
+  const map = useMap()
+  const fittedKey = useRef<string | null>(null)
+  const key = locations.map((l) => l.id).join(",")
+
+  // Refit only when the set of locations changes, not on every refetch
+  useEffect(() => {
+    if (locations.length === 0 || fittedKey.current === key) return
+    fittedKey.current = key
+    if (locations.length === 1) {
+      map.setView([locations[0].latitude, locations[0].longitude], 17)
+      return
+    }
+    map.fitBounds(
+      locations.map((l) => [l.latitude, l.longitude] as [number, number]),
+      { padding: [40, 40], maxZoom: 17 },
+    )
+  }, [map, key, locations])
+
+  return null
+}
+
+/**
+ * Every geocoded location for a voter. The primary location is green;
+ * secondary ones are grey. Clicking a point selects it in the list.
+ */
+export function VoterLocationMap({
+  locations,
+  selectedLocationId,
+  onSelect,
+  draftPoint,
+  onDraftMove,
+  className,
+}: Readonly<VoterLocationMapProps>) {
+  return (
+    <MapContainer
+      center={GA_CENTER}
+      zoom={7}
+      scrollWheelZoom={false}
+      className={cn("h-full w-full rounded-lg border", className)}
+    >
+      <BasemapLayer />
+      <Pane name="voter-locations" style={{ zIndex: 450 }}>
+        {/* Secondary points first so the primary draws on top */}
+        {[...locations]
+          .sort((a, b) => Number(a.is_primary) - Number(b.is_primary))
+          .map((location) => {
+            const base = location.is_primary ? PRIMARY_STYLE : SECONDARY_STYLE
+            const isSelected = location.id === selectedLocationId
+            return (
+              <CircleMarker
+                key={location.id}
+                center={[location.latitude, location.longitude]}
+                radius={location.is_primary ? 9 : 7}
+                pathOptions={isSelected ? { ...base, ...SELECTED_RING } : base}
+                eventHandlers={{ click: () => onSelect(location.id) }}
+              >
+                <Tooltip>
+                  {location.is_primary ? "Primary · " : ""}
+                  {location.source_type}
+                </Tooltip>
+              </CircleMarker>
+            )
+          })}
+      </Pane>
+      {draftPoint && (
+        <Marker
+          position={draftPoint}
+          icon={DRAFT_ICON}
+          draggable
+          autoPan
+          eventHandlers={{
+            dragend: (e) => {
+              const { lat, lng } = (e.target as LeafletMarker).getLatLng()
+              onDraftMove([lat, lng])
+            },
+          }}
+        >
+          <Tooltip permanent direction="top" offset={[0, -12]}>
+            Drag to the residence
+          </Tooltip>
+        </Marker>
+      )}
+      <FitToLocations locations={locations} />
+    </MapContainer>
+  )
+}
@@ -7,11 +7,11 @@ import {
   NavigationMenuList,
   NavigationMenuTrigger,
 } from "@/components/ui/navigation-menu"
-import { Users, Upload, Download, Shield } from "lucide-react"
+import { Users, Upload, Download, Shield, MapPinned } from "lucide-react"
 
 /**
  * Admin navigation menu with dropdown submenu
- * Shows User Management, Imports, and Exports options
+ * Shows User Management, Imports, Exports, and Geocoding options
  */
 export function AdminNavMenu() {
   return (
@@ -72,6 +72,22 @@ export function AdminNavMenu() {
                   </Link>
                 </NavigationMenuLink>
               </li>
+              <li>
+                <NavigationMenuLink asChild>
+                  <Link
+                    to="/admin/geocoding"
+                    className="block px-4 py-2 text-sm hover:bg-accent rounded-md transition-colors"
+                  >
+                    <div className="flex items-center gap-2">
+                      <MapPinned className="h-4 w-4" />
+                      <span>Geocoding</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Batch geocode addresses and view cache stats
+                    </p>
+                  </Link>
+                </NavigationMenuLink>
+              </li>
             </ul>
           </NavigationMenuContent>
         </NavigationMenuItem>
@@ -113,6 +129,14 @@ export function AdminNavLinks({ onLinkClick }: { onLinkClick?: () => void }) {
         <Download className="h-4 w-4" />
         <span>Exports</span>
       </Link>
+      <Link
+        to="/admin/geocoding"
+        className="flex items-center gap-2 px-2 py-2 text-sm hover:bg-accent rounded-md transition-colors"
+        onClick={onLinkClick}
+      >
+        <MapPinned className="h-4 w-4" />
+        <span>Geocoding</span>
+      </Link>
     </div>
   )
 }
@@ -0,0 +1,215 @@
+import { useState } from "react"
+import { ChevronRight } from "lucide-react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useCensusBreakdowns } from "@/hooks/useCensusBreakdowns"
+import { populationPyramidRows } from "@/lib/census"
+import { formatPercent } from "@/lib/formatters"
+import type {
+  CensusAgeSexBin,
+  CensusBreakdowns,
+  CensusDistributionBin,
+  CensusGeography,
+  CensusVintage,
+} from "@/types/census"
+
+const MALE_COLOR = "#4363d8"
+const FEMALE_COLOR = "#f58231"
+
+interface CensusBreakdownSectionProps {
+  icon: React.ComponentType<{ className?: string }>
+  title: string
+  geography: CensusGeography
+  vintage: CensusVintage
+  children: (breakdowns: CensusBreakdowns) => React.ReactNode
+}
+
+/**
+ * Collapsed section holding one breakdown chart. The detailed tables are
+ * only requested once a section is opened.
+ */
+export function CensusBreakdownSection({
+  icon: Icon,
+  title,
+  geography,
+  vintage,
+  children,
+}: Readonly<CensusBreakdownSectionProps>) {
+  const [open, setOpen] = useState(false)
+  const { data, isLoading, error } = useCensusBreakdowns(
+    geography,
+    vintage,
+    open,
+  )
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex w-full items-center gap-2 text-sm font-semibold [&[data-state=open]>svg:first-child]:rotate-90">
+        <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground transition-transform" />
+        <Icon className="h-4 w-4 text-muted-foreground" />
+        {title}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-3">
+        {isLoading ? (
+          <Skeleton className="h-56 w-full" />
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">
+            Breakdown could not be loaded. {error.message}
+          </p>
+        ) : data ? (
+          children(data)
+        ) : null}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+/** Age-by-sex pyramid; male bars extend left, female bars right. */
+export function PopulationPyramid({
+  bins,
+}: Readonly<{ bins: CensusAgeSexBin[] }>) {
+  const rows = populationPyramidRows(bins)
+  const extent = Math.ceil(
+    Math.max(
+      1,
+      ...rows.flatMap((row) => [
+        Math.abs(row.male ?? 0),
+        Math.abs(row.female ?? 0),
+      ]),
+    ),
+  )
+
+  return (
+    <ResponsiveContainer width="100%" height={360}>
+      <BarChart
+        data={rows}
+        layout="vertical"
+        stackOffset="sign"
+        barCategoryGap={1}
+        margin={{ left: 0, right: 20, top: 5, bottom: 5 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+        <XAxis
+          type="number"
+          domain={[-extent, extent]}
+          tick={{ fontSize: 11 }}
+          tickFormatter={(v: number) => `${Math.abs(v)}%`}
+        />
+        <YAxis
+          type="category"
+          dataKey="label"
+          width={48}
+          tick={{ fontSize: 11 }}
+        />
+        <RechartsTooltip
+          formatter={(value, name) => [
+            formatPercent(value === null ? null : Math.abs(Number(value))),
+            name,
+          ]}
+        />
+        <Bar dataKey="male" name="Male" stackId="sex" fill={MALE_COLOR} />
+        <Bar
+          dataKey="female"
+          name="Female"
+          stackId="sex"
+          fill={FEMALE_COLOR}
+        />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+interface DistributionChartProps {
+  bins: CensusDistributionBin[]
+  color: string
+  /**
+   * "horizontal" lists long category labels down the side (education
+   * ladder, household types); "vertical" draws a histogram of ordered
+   * brackets (income).
+   */
+  orientation: "horizontal" | "vertical"
+}
+
+/** Percent distribution across the categories of one breakdown. */
+export function DistributionChart({
+  bins,
+  color,
+  orientation,
+}: Readonly<DistributionChartProps>) {
+  const tooltip = (
+    <RechartsTooltip
+      formatter={(value) => [
+        formatPercent(value === null ? null : Number(value)),
+        "Share",
+      ]}
+    />
+  )
+
+  if (orientation === "horizontal") {
+    return (
+      <ResponsiveContainer width="100%" height={bins.length * 32 + 40}>
+        <BarChart
+          data={bins}
+          layout="vertical"
+          margin={{ left: 0, right: 20, top: 5, bottom: 5 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis
+            type="number"
+            domain={[0, "auto"]}
+            tick={{ fontSize: 11 }}
+            tickFormatter={(v: number) => `${v}%`}
+          />
+          <YAxis
+            type="category"
+            dataKey="label"
+            width={180}
+            tick={{ fontSize: 11 }}
+          />
+          {tooltip}
+          <Bar dataKey="percent" fill={color} radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    )
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={240}>
+      <BarChart
+        data={bins}
+        barCategoryGap={2}
+        margin={{ left: 0, right: 10, top: 5, bottom: 5 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis
+          dataKey="label"
+          tick={{ fontSize: 10 }}
+          interval={0}
+          angle={-35}
+          textAnchor="end"
+          height={60}
+        />
+        <YAxis
+          width={40}
+          tick={{ fontSize: 11 }}
+          tickFormatter={(v: number) => `${v}%`}
+        />
+        {tooltip}
+        <Bar dataKey="percent" fill={color} radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
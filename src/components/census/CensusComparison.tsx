@@ -0,0 +1,278 @@
+import {
+  Briefcase,
+  Car,
+  DollarSign,
+  Globe,
+  GraduationCap,
+  Heart,
+  Home,
+  Users,
+} from "lucide-react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  CENSUS_SECTIONS,
+  formatCensusValue,
+  formatOrdinal,
+  percentileRank,
+  type CensusFieldDefinition,
+  type CensusFieldFormat,
+  type CensusSectionDefinition,
+} from "@/lib/census-fields"
+import type { CensusEstimateField, CensusProfile } from "@/types/census"
+
+const sectionIcons: Record<
+  string,
+  React.ComponentType<{ className?: string }>
+> = {
+  population: Users,
+  race: Users,
+  community: Globe,
+  education: GraduationCap,
+  employment: Briefcase,
+  income: DollarSign,
+  health: Heart,
+  housing: Home,
+  transportation: Car,
+}
+
+/** One geography being compared: a county or the statewide total. */
+export interface CensusComparisonColumn {
+  key: string
+  label: string
+  color: string
+  profile: CensusProfile | undefined
+  /** Rank the values against every county in the state */
+  ranked: boolean
+}
+
+/** Every county's value for each field, the population for percentile ranks. */
+export type CensusFieldPopulations = Partial<
+  Record<CensusEstimateField, (number | null)[]>
+>
+
+function formatRank(rank: number | null): string | null {
+  if (rank === null) return null
+  // Clamp so the extremes read "1st"/"99th" rather than "0th"/"100th"
+  const rounded = Math.min(99, Math.max(1, Math.round(rank)))
+  return `${formatOrdinal(rounded)} percentile`
+}
+
+function formatTick(value: number, format: CensusFieldFormat): string {
+  switch (format) {
+    case "currency":
+      return `$${Math.round(value / 1000)}k`
+    case "percent":
+      return `${value}%`
+    default:
+      return value.toLocaleString("en-US", { notation: "compact" })
+  }
+}
+
+/**
+ * Grouped bars for the fields of one section that share a unit: one group
+ * per field, one bar per compared geography.
+ */
+function ComparisonChart({
+  fields,
+  columns,
+}: Readonly<{
+  fields: CensusFieldDefinition[]
+  columns: CensusComparisonColumn[]
+}>) {
+  const format = fields[0].format
+  const data = fields.map((definition) => ({
+    label: definition.label,
+    ...Object.fromEntries(
+      columns.map((column) => [
+        column.key,
+        column.profile?.[definition.field] ?? null,
+      ]),
+    ),
+  }))
+
+  return (
+    <ResponsiveContainer
+      width="100%"
+      height={60 + fields.length * (columns.length * 14 + 20)}
+    >
+      <BarChart
+        data={data}
+        layout="vertical"
+        margin={{ left: 0, right: 20, top: 5, bottom: 5 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+        <XAxis
+          type="number"
+          tick={{ fontSize: 11 }}
+          tickFormatter={(value: number) => formatTick(value, format)}
+        />
+        <YAxis
+          type="category"
+          dataKey="label"
+          width={150}
+          tick={{ fontSize: 11 }}
+        />
+        <RechartsTooltip
+          formatter={(value, name, item) => {
+            const definition = fields.find(
+              (f) => f.label === item.payload.label,
+            )!
+            const column = columns.find((c) => c.key === name)
+            return [
+              formatCensusValue(
+                value === null ? null : Number(value),
+                definition,
+              ),
+              column?.label ?? name,
+            ]
+          }}
+        />
+        <Legend
+          wrapperStyle={{ fontSize: 12 }}
+          formatter={(value) =>
+            columns.find((c) => c.key === value)?.label ?? value
+          }
+        />
+        {columns.map((column) => (
+          <Bar
+            key={column.key}
+            dataKey={column.key}
+            fill={column.color}
+            barSize={12}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+function ComparisonSection({
+  section,
+  columns,
+  populations,
+}: Readonly<{
+  section: CensusSectionDefinition
+  columns: CensusComparisonColumn[]
+  populations: CensusFieldPopulations
+}>) {
+  const Icon = sectionIcons[section.id] ?? Users
+
+  // Fields in different units would share an axis badly; chart each unit
+  // separately
+  const chartGroups = new Map<CensusFieldFormat, CensusFieldDefinition[]>()
+  for (const definition of section.fields) {
+    const group = chartGroups.get(definition.format) ?? []
+    group.push(definition)
+    chartGroups.set(definition.format, group)
+  }
+
+  return (
+    <section className="space-y-3">
+      <h3 className="flex items-center gap-2 text-sm font-semibold">
+        <Icon className="h-4 w-4 text-muted-foreground" />
+        {section.title}
+      </h3>
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-56">Measure</TableHead>
+              {columns.map((column) => (
+                <TableHead key={column.key}>
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="inline-block h-2.5 w-2.5 shrink-0 rounded-sm"
+                      style={{ backgroundColor: column.color }}
+                    />
+                    {column.label}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {section.fields.map((definition) => (
+              <TableRow key={definition.field}>
+                <TableCell className="font-medium whitespace-normal">
+                  {definition.label}
+                </TableCell>
+                {columns.map((column) => {
+                  const value = column.profile?.[definition.field] ?? null
+                  const rank = column.ranked
+                    ? formatRank(
+                        percentileRank(
+                          value,
+                          populations[definition.field] ?? [],
+                        ),
+                      )
+                    : null
+                  return (
+                    <TableCell key={column.key}>
+                      <div>{formatCensusValue(value, definition)}</div>
+                      {rank && (
+                        <div className="text-xs text-muted-foreground">
+                          {rank}
+                        </div>
+                      )}
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {[...chartGroups.values()].map((fields) => (
+          <ComparisonChart
+            key={fields[0].field}
+            fields={fields}
+            columns={columns}
+          />
+        ))}
+      </div>
+    </section>
+  )
+}
+
+/**
+ * Side-by-side census profiles, one table and set of grouped bar charts
+ * per profile section.
+ */
+export function CensusComparisonSections({
+  columns,
+  populations,
+}: Readonly<{
+  columns: CensusComparisonColumn[]
+  populations: CensusFieldPopulations
+}>) {
+  return (
+    <div className="space-y-8">
+      {CENSUS_SECTIONS.map((section) => (
+        <ComparisonSection
+          key={section.id}
+          section={section}
+          columns={columns}
+          populations={populations}
+        />
+      ))}
+    </div>
+  )
+}
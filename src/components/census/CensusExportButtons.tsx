@@ -0,0 +1,58 @@
+import { useState } from "react"
+import { Download, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  CENSUS_EXPORT_FORMATS,
+  type CensusExportFormat,
+} from "@/lib/census-export"
+
+interface CensusExportButtonsProps {
+  label: string
+  onExport: (format: CensusExportFormat) => Promise<void>
+  disabled?: boolean
+}
+
+/** One download button per export format, with a spinner while building. */
+export function CensusExportButtons({
+  label,
+  onExport,
+  disabled,
+}: Readonly<CensusExportButtonsProps>) {
+  const [pending, setPending] = useState<CensusExportFormat | null>(null)
+
+  const handleExport = async (format: CensusExportFormat) => {
+    setPending(format)
+    try {
+      await onExport(format)
+    } catch (error) {
+      toast.error("Could not export census data", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="mr-1 flex items-center gap-1 text-xs text-muted-foreground">
+        <Download className="h-3.5 w-3.5" />
+        {label}
+      </span>
+      {CENSUS_EXPORT_FORMATS.map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs uppercase"
+          onClick={() => handleExport(format)}
+          disabled={disabled || pending !== null}
+        >
+          {pending === format && <Loader2 className="h-3 w-3 animate-spin" />}
+          {format}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import {
   AlertCircle,
+  AlertTriangle,
   ExternalLink,
   Users,
   DollarSign,
@@ -10,6 +11,7 @@ import {
   Wifi,
   Globe,
   Briefcase,
+  BarChart3,
 } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -23,7 +25,26 @@ import {
   ResponsiveContainer,
   Cell,
 } from "recharts"
-import type { CensusProfile } from "@/types/census"
+import {
+  CensusBreakdownSection,
+  DistributionChart,
+  PopulationPyramid,
+} from "@/components/census/CensusBreakdownCharts"
+import {
+  censusDatasetLabels,
+  coefficientOfVariation,
+  CV_THRESHOLDS,
+  DEFAULT_CENSUS_VINTAGE,
+  formatCensusChange,
+  getCensusReliability,
+  type CensusChangeMode,
+} from "@/lib/census"
+import type {
+  CensusEstimateField,
+  CensusGeography,
+  CensusProfile,
+  CensusVintage,
+} from "@/types/census"
 import {
   formatNumber,
   formatCurrency,
@@ -55,11 +76,58 @@ export function StatSection({
   )
 }
 
-export function StatItem({ label, value }: { label: string; value: string }) {
+export function StatItem({
+  label,
+  value,
+  change,
+  margin,
+  cv,
+}: {
+  label: string
+  value: string
+  /** Formatted change vs the comparison vintage, e.g. "+1.2 pts" */
+  change?: string | null
+  /** Formatted 90% margin of error, e.g. "±1.2%" */
+  margin?: string | null
+  /** Coefficient of variation (%), used to flag unreliable estimates */
+  cv?: number | null
+}) {
+  const reliability = getCensusReliability(cv ?? null)
+
   return (
     <div>
       <dt className="text-sm font-medium text-muted-foreground">{label}</dt>
-      <dd className="text-sm">{value}</dd>
+      <dd className="text-sm">
+        {value}
+        {margin && (
+          <span className="ml-1 text-xs tabular-nums text-muted-foreground">
+            {margin}
+          </span>
+        )}
+        {change && (
+          <span className="ml-2 text-xs tabular-nums text-muted-foreground">
+            {change}
+          </span>
+        )}
+        {reliability === "low" && (
+          <span
+            className="ml-2 inline-flex items-center gap-0.5 rounded bg-destructive/10 px-1 text-xs text-destructive"
+            title={`Coefficient of variation ${Math.round(cv!)}%: the margin of error is large relative to the estimate. Do not quote without caveats.`}
+          >
+            <AlertTriangle className="h-3 w-3" />
+            Unreliable
+          </span>
+        )}
+        {reliability === "medium" && (
+          <span
+            className="ml-2 inline-flex items-center gap-0.5 rounded bg-amber-500/10 px-1 text-xs text-amber-700 dark:text-amber-400"
+            title={`Coefficient of variation ${Math.round(cv!)}%: use with caution.`}
+          >
+            <AlertTriangle className="h-3 w-3" />
+            Caution
+          </span>
+        )}
+      </dd>
     </div>
   )
 }
@@ -145,16 +213,49 @@ export function CensusProfileError({ message }: { message: string }) {
 
 export function CensusProfileSections({
   profile,
+  vintage = DEFAULT_CENSUS_VINTAGE,
+  comparison,
+  geography,
 }: {
   profile: CensusProfile
+  vintage?: CensusVintage
+  /** Earlier vintage to show changes against */
+  comparison?: { year: number; profile: CensusProfile }
+  /** Enables the collapsible breakdown charts, fetched for this place */
+  geography?: CensusGeography
 }) {
+  const delta = (field: CensusEstimateField, mode: CensusChangeMode) =>
+    comparison
+      ? formatCensusChange(profile[field], comparison.profile[field], mode)
+      : undefined
+  const moe = (
+    field: CensusEstimateField,
+    format: (value: number | null) => string,
+  ) => {
+    const margin = profile.margins[field]
+    return {
+      margin: margin !== null && margin > 0 ? `±${format(margin)}` : null,
+      cv: coefficientOfVariation(profile[field], margin),
+    }
+  }
+
   return (
     <>
+      {comparison && (
+        <p className="text-xs text-muted-foreground">
+          Changes are shown against {comparison.year}: percentage points for
+          rates, percent change for counts and dollar amounts (not adjusted
+          for inflation).
+        </p>
+      )}
+
       {/* Section 1: Population & Age */}
       <StatSection icon={Users} title="Population & Age">
         <StatItem
           label="Total Population"
           value={formatNumber(profile.totalPopulation)}
+          change={delta("totalPopulation", "relative")}
+          {...moe("totalPopulation", formatNumber)}
         />
         <StatItem
           label="Median Age"
@@ -163,16 +264,32 @@ export function CensusProfileSections({
               ? `${formatDecimal(profile.medianAge)} years`
               : "N/A"
           }
+          change={delta("medianAge", "relative")}
+          {...moe("medianAge", formatDecimal)}
         />
         <StatItem
           label="Under 18"
           value={formatPercent(profile.percentUnder18)}
+          change={delta("percentUnder18", "points")}
+          {...moe("percentUnder18", formatPercent)}
         />
         <StatItem
           label="65 and Over"
           value={formatPercent(profile.percentOver65)}
+          change={delta("percentOver65", "points")}
+          {...moe("percentOver65", formatPercent)}
         />
       </StatSection>
+      {geography && (
+        <CensusBreakdownSection
+          icon={BarChart3}
+          title="Age & Sex Pyramid"
+          geography={geography}
+          vintage={vintage}
+        >
+          {(breakdowns) => <PopulationPyramid bins={breakdowns.ageSex} />}
+        </CensusBreakdownSection>
+      )}
 
       <Separator />
 
@@ -181,18 +298,26 @@ export function CensusProfileSections({
         <StatItem
           label="White"
           value={formatPercent(profile.percentWhite)}
+          change={delta("percentWhite", "points")}
+          {...moe("percentWhite", formatPercent)}
         />
         <StatItem
           label="Black or African American"
           value={formatPercent(profile.percentBlack)}
+          change={delta("percentBlack", "points")}
+          {...moe("percentBlack", formatPercent)}
         />
         <StatItem
           label="Asian"
           value={formatPercent(profile.percentAsian)}
+          change={delta("percentAsian", "points")}
+          {...moe("percentAsian", formatPercent)}
         />
         <StatItem
           label="Hispanic or Latino"
           value={formatPercent(profile.percentHispanicLatino)}
+          change={delta("percentHispanicLatino", "points")}
+          {...moe("percentHispanicLatino", formatPercent)}
         />
       </StatSection>
       <EthnicityChart profile={profile} />
@@ -204,16 +329,38 @@ export function CensusProfileSections({
         <StatItem
           label="Foreign-Born"
           value={formatPercent(profile.percentForeignBorn)}
+          change={delta("percentForeignBorn", "points")}
+          {...moe("percentForeignBorn", formatPercent)}
         />
         <StatItem
           label="Language Other Than English at Home"
           value={formatPercent(profile.percentNonEnglish)}
+          change={delta("percentNonEnglish", "points")}
+          {...moe("percentNonEnglish", formatPercent)}
         />
         <StatItem
           label="Veterans"
           value={formatPercent(profile.percentVeterans)}
+          change={delta("percentVeterans", "points")}
+          {...moe("percentVeterans", formatPercent)}
         />
       </StatSection>
+      {geography && (
+        <CensusBreakdownSection
+          icon={BarChart3}
+          title="Household Types"
+          geography={geography}
+          vintage={vintage}
+        >
+          {(breakdowns) => (
+            <DistributionChart
+              bins={breakdowns.householdTypes}
+              color="#3cb44b"
+              orientation="horizontal"
+            />
+          )}
+        </CensusBreakdownSection>
+      )}
 
       <Separator />
 
@@ -222,12 +369,32 @@ export function CensusProfileSections({
         <StatItem
           label="Bachelor's Degree or Higher"
           value={formatPercent(profile.percentBachelorsOrHigher)}
+          change={delta("percentBachelorsOrHigher", "points")}
+          {...moe("percentBachelorsOrHigher", formatPercent)}
         />
         <StatItem
           label="Graduate or Professional Degree"
           value={formatPercent(profile.percentGraduateDegree)}
+          change={delta("percentGraduateDegree", "points")}
+          {...moe("percentGraduateDegree", formatPercent)}
         />
       </StatSection>
+      {geography && (
+        <CensusBreakdownSection
+          icon={BarChart3}
+          title="Educational Attainment (25 and Over)"
+          geography={geography}
+          vintage={vintage}
+        >
+          {(breakdowns) => (
+            <DistributionChart
+              bins={breakdowns.education}
+              color="#4363d8"
+              orientation="horizontal"
+            />
+          )}
+        </CensusBreakdownSection>
+      )}
 
       <Separator />
 
@@ -236,10 +403,14 @@ export function CensusProfileSections({
         <StatItem
           label="Unemployment Rate"
           value={formatPercent(profile.unemploymentRate)}
+          change={delta("unemploymentRate", "points")}
+          {...moe("unemploymentRate", formatPercent)}
         />
         <StatItem
           label="Work from Home"
           value={formatPercent(profile.percentWorkFromHome)}
+          change={delta("percentWorkFromHome", "points")}
+          {...moe("percentWorkFromHome", formatPercent)}
         />
       </StatSection>
 
@@ -250,20 +421,44 @@ export function CensusProfileSections({
         <StatItem
           label="Median Household Income"
           value={formatCurrency(profile.medianHouseholdIncome)}
+          change={delta("medianHouseholdIncome", "relative")}
+          {...moe("medianHouseholdIncome", formatCurrency)}
         />
         <StatItem
           label="Per Capita Income"
           value={formatCurrency(profile.perCapitaIncome)}
+          change={delta("perCapitaIncome", "relative")}
+          {...moe("perCapitaIncome", formatCurrency)}
         />
         <StatItem
           label="Poverty Rate"
           value={formatPercent(profile.povertyRate)}
+          change={delta("povertyRate", "points")}
+          {...moe("povertyRate", formatPercent)}
         />
         <StatItem
           label="SNAP/Food Stamp Recipients"
           value={formatPercent(profile.percentSnap)}
+          change={delta("percentSnap", "points")}
+          {...moe("percentSnap", formatPercent)}
         />
       </StatSection>
+      {geography && (
+        <CensusBreakdownSection
+          icon={BarChart3}
+          title="Household Income Distribution"
+          geography={geography}
+          vintage={vintage}
+        >
+          {(breakdowns) => (
+            <DistributionChart
+              bins={breakdowns.householdIncome}
+              color="#f58231"
+              orientation="vertical"
+            />
+          )}
+        </CensusBreakdownSection>
+      )}
 
       <Separator />
 
@@ -272,10 +467,14 @@ export function CensusProfileSections({
         <StatItem
           label="Uninsured"
           value={formatPercent(profile.percentUninsured)}
+          change={delta("percentUninsured", "points")}
+          {...moe("percentUninsured", formatPercent)}
         />
         <StatItem
           label="With a Disability"
           value={formatPercent(profile.percentDisability)}
+          change={delta("percentDisability", "points")}
+          {...moe("percentDisability", formatPercent)}
         />
       </StatSection>
 
@@ -286,18 +485,26 @@ export function CensusProfileSections({
         <StatItem
           label="Median Home Value"
           value={formatCurrency(profile.medianHomeValue)}
+          change={delta("medianHomeValue", "relative")}
+          {...moe("medianHomeValue", formatCurrency)}
         />
         <StatItem
           label="Median Gross Rent"
           value={formatCurrency(profile.medianGrossRent)}
+          change={delta("medianGrossRent", "relative")}
+          {...moe("medianGrossRent", formatCurrency)}
         />
         <StatItem
           label="Homeownership Rate"
           value={formatPercent(profile.homeownershipRate)}
+          change={delta("homeownershipRate", "points")}
+          {...moe("homeownershipRate", formatPercent)}
         />
         <StatItem
           label="Vacancy Rate"
           value={formatPercent(profile.vacancyRate)}
+          change={delta("vacancyRate", "points")}
+          {...moe("vacancyRate", formatPercent)}
         />
       </StatSection>
 
@@ -318,14 +525,20 @@ export function CensusProfileSections({
                 ? `${formatDecimal(profile.meanCommuteTimeMinutes)} min`
                 : "N/A"
             }
+            change={delta("meanCommuteTimeMinutes", "relative")}
+            {...moe("meanCommuteTimeMinutes", formatDecimal)}
           />
           <StatItem
             label="No Vehicle Available"
             value={formatPercent(profile.percentNoVehicle)}
+            change={delta("percentNoVehicle", "points")}
+            {...moe("percentNoVehicle", formatPercent)}
           />
           <StatItem
             label="Broadband Access"
             value={formatPercent(profile.percentBroadband)}
+            change={delta("percentBroadband", "points")}
+            {...moe("percentBroadband", formatPercent)}
           />
         </dl>
       </div>
@@ -344,9 +557,23 @@ export function CensusProfileSections({
           >
             U.S. Census Bureau API
           </a>
-          , American Community Survey (ACS) 5-Year Estimates, 2023 vintage.
-          These estimates are based on data collected over a 5-year period and
-          may differ from actual counts.
+          , American Community Survey (ACS){" "}
+          {censusDatasetLabels[vintage.dataset]} Estimates, {vintage.year}{" "}
+          vintage. Margins of error are at the 90% confidence level;
+          estimates with a coefficient of variation above{" "}
+          {CV_THRESHOLDS.caution}% are marked for caution and above{" "}
+          {CV_THRESHOLDS.unreliable}% as unreliable.{" "}
+          {vintage.dataset === "acs5" ? (
+            <>
+              These estimates are based on data collected over a 5-year
+              period and may differ from actual counts.
+            </>
+          ) : (
+            <>
+              1-year estimates are only published for areas with 65,000 or
+              more people and have larger margins of error.
+            </>
+          )}
         </span>
       </p>
     </>
@@ -0,0 +1,149 @@
+import { useState } from "react"
+import { ChevronRight, TrendingUp } from "lucide-react"
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useCensusTrend } from "@/hooks/useCensusTrend"
+import { censusDatasetLabels } from "@/lib/census"
+import { formatCurrency, formatPercent } from "@/lib/formatters"
+import type {
+  CensusDataset,
+  CensusEstimateField,
+  CensusGeography,
+} from "@/types/census"
+
+interface TrendIndicator {
+  field: CensusEstimateField
+  label: string
+  color: string
+  format: (value: number | null) => string
+  /** Compact tick label for the y axis */
+  tick: (value: number) => string
+}
+
+const TREND_INDICATORS: TrendIndicator[] = [
+  {
+    field: "medianHouseholdIncome",
+    label: "Median Household Income",
+    color: "#4363d8",
+    format: formatCurrency,
+    tick: (v) => `$${Math.round(v / 1000)}k`,
+  },
+  {
+    field: "povertyRate",
+    label: "Poverty Rate",
+    color: "#e6194b",
+    format: formatPercent,
+    tick: (v) => `${v}%`,
+  },
+  {
+    field: "percentBroadband",
+    label: "Broadband Access",
+    color: "#3cb44b",
+    format: formatPercent,
+    tick: (v) => `${v}%`,
+  },
+]
+
+interface CensusTrendChartsProps {
+  geography: CensusGeography
+  dataset: CensusDataset
+}
+
+/**
+ * Time series of key indicators across every offered vintage. Collapsed
+ * by default; the extra vintages are only fetched once it is opened.
+ */
+export function CensusTrendCharts({
+  geography,
+  dataset,
+}: Readonly<CensusTrendChartsProps>) {
+  const [open, setOpen] = useState(false)
+  const { points, isLoading, failedYears } = useCensusTrend(
+    geography,
+    dataset,
+    open,
+  )
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex w-full items-center gap-2 text-sm font-semibold [&[data-state=open]>svg:first-child]:rotate-90">
+        <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground transition-transform" />
+        <TrendingUp className="h-4 w-4 text-muted-foreground" />
+        Trends ({censusDatasetLabels[dataset]} Estimates)
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 pt-3">
+        {isLoading ? (
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+            {TREND_INDICATORS.map((indicator) => (
+              <Skeleton key={indicator.field} className="h-40 w-full" />
+            ))}
+          </div>
+        ) : points.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Not enough vintages are available to chart a trend.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+            {TREND_INDICATORS.map((indicator) => (
+              <div key={indicator.field}>
+                <h4 className="mb-2 text-xs font-medium text-muted-foreground">
+                  {indicator.label}
+                </h4>
+                <ResponsiveContainer width="100%" height={160}>
+                  <LineChart
+                    data={points.map((point) => ({
+                      year: point.year,
+                      value: point.profile[indicator.field],
+                    }))}
+                    margin={{ left: 0, right: 10, top: 5, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" tick={{ fontSize: 11 }} />
+                    <YAxis
+                      width={48}
+                      tick={{ fontSize: 11 }}
+                      domain={["auto", "auto"]}
+                      tickFormatter={indicator.tick}
+                    />
+                    <RechartsTooltip
+                      formatter={(value) => [
+                        indicator.format(value === null ? null : Number(value)),
+                        indicator.label,
+                      ]}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="value"
+                      stroke={indicator.color}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+        )}
+        {failedYears.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            No data for {failedYears.join(", ")}.
+          </p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,97 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CENSUS_YEARS, censusDatasetLabels } from "@/lib/census"
+import type { CensusDataset, CensusVintage } from "@/types/census"
+
+// Radix Select does not allow an empty item value
+const NONE = "none"
+
+interface CensusVintageControlsProps {
+  vintage: CensusVintage
+  onVintageChange: (vintage: CensusVintage) => void
+  compareYear: number | null
+  onCompareYearChange: (year: number | null) => void
+}
+
+/** Dataset toggle, vintage year and comparison year for census cards. */
+export function CensusVintageControls({
+  vintage,
+  onVintageChange,
+  compareYear,
+  onCompareYearChange,
+}: Readonly<CensusVintageControlsProps>) {
+  const years = CENSUS_YEARS[vintage.dataset]
+  const earlierYears = years.filter((y) => y < vintage.year)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={vintage.dataset}
+        onValueChange={(value) =>
+          value &&
+          onVintageChange({ ...vintage, dataset: value as CensusDataset })
+        }
+        aria-label="ACS dataset"
+      >
+        {(Object.keys(censusDatasetLabels) as CensusDataset[]).map(
+          (dataset) => (
+            <ToggleGroupItem key={dataset} value={dataset} className="text-xs">
+              {censusDatasetLabels[dataset]}
+            </ToggleGroupItem>
+          ),
+        )}
+      </ToggleGroup>
+
+      <Select
+        value={String(vintage.year)}
+        onValueChange={(value) =>
+          onVintageChange({ ...vintage, year: Number(value) })
+        }
+      >
+        <SelectTrigger size="sm" className="w-[90px]" aria-label="Vintage year">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {[...years].reverse().map((year) => (
+            <SelectItem key={year} value={String(year)}>
+              {year}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={compareYear !== null ? String(compareYear) : NONE}
+        onValueChange={(value) =>
+          onCompareYearChange(value === NONE ? null : Number(value))
+        }
+        disabled={earlierYears.length === 0}
+      >
+        <SelectTrigger
+          size="sm"
+          className="w-[130px]"
+          aria-label="Compare with year"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>No comparison</SelectItem>
+          {[...earlierYears].reverse().map((year) => (
+            <SelectItem key={year} value={String(year)}>
+              vs {year}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import { useId, useState } from "react"
+import { Loader2, MapPin } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { useDebouncedValue } from "@/hooks/useDebouncedValue"
+import { useVerifyAddress } from "@/hooks/useAddressLookup"
+import { ConfidenceScore } from "@/components/lookup/ConfidenceWarning"
+import type { AddressSuggestion, AddressValidation } from "@/types/lookup"
+
+const MIN_QUERY_LENGTH = 4
+const DEBOUNCE_MS = 300
+
+interface AddressAutocompleteProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  /** Also receives the validation of the typed text the suggestion matched */
+  onSelect: (
+    suggestion: AddressSuggestion,
+    validation: AddressValidation | undefined,
+  ) => void
+  onBlur?: () => void
+  placeholder?: string
+  disabled?: boolean
+  invalid?: boolean
+}
+
+/**
+ * Address input with as-you-type suggestions from the verify endpoint.
+ * Implements the WAI-ARIA combobox pattern: arrow keys move the active
+ * option, Enter picks it and Escape closes the list. With no active option,
+ * Enter falls through to the surrounding form's submit.
+ */
+export function AddressAutocomplete({
+  id,
+  value,
+  onChange,
+  onSelect,
+  onBlur,
+  placeholder,
+  disabled,
+  invalid,
+}: Readonly<AddressAutocompleteProps>) {
+  const listboxId = useId()
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  const debounced = useDebouncedValue(value.trim(), DEBOUNCE_MS)
+  const query = debounced.length >= MIN_QUERY_LENGTH ? debounced : null
+  const { data, isFetching } = useVerifyAddress(open ? query : null)
+
+  const suggestions =
+    query && value.trim() === debounced ? (data?.suggestions ?? []) : []
+  const expanded = open && suggestions.length > 0
+
+  const select = (suggestion: AddressSuggestion) => {
+    setOpen(false)
+    setActiveIndex(-1)
+    onChange(suggestion.address)
+    onSelect(suggestion, data?.validation)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault()
+        setOpen(true)
+        if (suggestions.length > 0) {
+          setActiveIndex((i) => (i + 1) % suggestions.length)
+        }
+        break
+      case "ArrowUp":
+        e.preventDefault()
+        if (suggestions.length > 0) {
+          setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1))
+        }
+        break
+      case "Enter":
+        if (expanded && activeIndex >= 0) {
+          e.preventDefault()
+          select(suggestions[activeIndex])
+        } else {
+          setOpen(false)
+        }
+        break
+      case "Escape":
+        if (expanded) {
+          e.preventDefault()
+          setOpen(false)
+          setActiveIndex(-1)
+        }
+        break
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          expanded && activeIndex >= 0
+            ? `${listboxId}-option-${activeIndex}`
+            : undefined
+        }
+        aria-invalid={invalid}
+        placeholder={placeholder}
+        disabled={disabled}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setOpen(true)
+          setActiveIndex(-1)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false)
+          setActiveIndex(-1)
+          onBlur?.()
+        }}
+        onKeyDown={handleKeyDown}
+        className="pr-9"
+      />
+      {open && isFetching && (
+        <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+      )}
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Address suggestions"
+        hidden={!expanded}
+        className="absolute z-50 mt-1 max-h-72 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+      >
+        {suggestions.map((suggestion, index) => (
+          <li
+            key={`${suggestion.address}-${index}`}
+            id={`${listboxId}-option-${index}`}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input so blur doesn't close the list first
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => select(suggestion)}
+            className={cn(
+              "flex cursor-pointer items-start gap-2 rounded-sm px-2 py-1.5 text-sm",
+              index === activeIndex && "bg-accent text-accent-foreground",
+            )}
+          >
+            <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1">{suggestion.address}</span>
+            <ConfidenceScore score={suggestion.confidence_score} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { groupDistricts } from "@/lib/districts"
+import type { BatchRowResult, BatchRowStatus } from "@/lib/batch-lookup"
+
+const statusLabels: Record<BatchRowStatus, string> = {
+  pending: "Pending",
+  verifying: "Verifying",
+  "looking-up": "Looking up",
+  matched: "Matched",
+  "no-match": "No match",
+  failed: "Failed",
+}
+
+function getStatusBadgeVariant(status: BatchRowStatus) {
+  switch (status) {
+    case "matched":
+      return "default"
+    case "failed":
+      return "destructive"
+    case "verifying":
+    case "looking-up":
+      return "secondary"
+    default:
+      return "outline"
+  }
+}
+
+interface BatchResultsTableProps {
+  results: BatchRowResult[]
+  /** Maximum number of rows to render; the full set is always in the CSV. */
+  limit?: number
+}
+
+export function BatchResultsTable({
+  results,
+  limit = 200,
+}: Readonly<BatchResultsTableProps>) {
+  const visible = results
+    .map((result, index) => ({ result, index }))
+    .slice(0, limit)
+
+  return (
+    <div className="space-y-2">
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">Row</TableHead>
+              <TableHead>Address</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Districts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map(({ result, index }) => {
+              const inFlight =
+                result.status === "verifying" ||
+                result.status === "looking-up"
+              return (
+                <TableRow key={index}>
+                  <TableCell className="text-muted-foreground">
+                    {index + 1}
+                  </TableCell>
+                  <TableCell className="max-w-xs whitespace-normal">
+                    <p>{result.address || "—"}</p>
+                    {result.suggestion &&
+                      result.suggestion.address !== result.address && (
+                        <p className="text-xs text-muted-foreground">
+                          {result.suggestion.address}
+                        </p>
+                      )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={getStatusBadgeVariant(result.status)}>
+                        {inFlight && <Loader2 className="animate-spin" />}
+                        {statusLabels[result.status]}
+                      </Badge>
+                      {result.attempts > 1 && (
+                        <span className="text-xs text-muted-foreground">
+                          ×{result.attempts}
+                        </span>
+                      )}
+                    </div>
+                    {result.error && (
+                      <p className="mt-1 text-xs text-destructive">
+                        {result.error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-normal text-xs text-muted-foreground">
+                    {result.districts &&
+                      groupDistricts(result.districts)
+                        .map(
+                          (group) =>
+                            `${group.label}: ${group.districts.map((d) => d.name).join(", ")}`,
+                        )
+                        .join(" · ")}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      {results.length > limit && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {limit} of {results.length} rows. Download the CSV
+          for the full results.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { AlertTriangle, Move } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { formatConfidence } from "@/lib/formatters"
+import { getConfidenceLevel } from "@/lib/confidence"
+import type { AddressValidation } from "@/types/lookup"
+
+interface ConfidenceWarningProps {
+  confidence: number
+  validation?: Pick<
+    AddressValidation,
+    "missing_components" | "malformed_components"
+  >
+  isAdjusting: boolean
+  onAdjustPin: () => void
+}
+
+function ComponentList({
+  label,
+  components,
+}: Readonly<{ label: string; components: string[] }>) {
+  if (components.length === 0) return null
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span>{label}:</span>
+      {components.map((component) => (
+        <Badge key={component} variant="outline" className="font-normal">
+          {component.replaceAll("_", " ")}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+/** Confidence percentage, highlighted when below the warning threshold. */
+export function ConfidenceScore({ score }: Readonly<{ score: number }>) {
+  const isLow = getConfidenceLevel(score) !== "high"
+  return (
+    <span
+      className={cn(
+        "flex shrink-0 items-center gap-1 text-xs text-muted-foreground",
+        isLow && "text-amber-600 dark:text-amber-400",
+      )}
+      title={isLow ? "Low geocoding confidence" : undefined}
+    >
+      {isLow && <AlertTriangle className="h-3 w-3" />}
+      {formatConfidence(score)}
+    </span>
+  )
+}
+
+/**
+ * Banner shown when the geocoder was not confident about the address,
+ * which usually means the point is a street or ZIP centroid rather than
+ * the building. Renders nothing for high-confidence results.
+ */
+export function ConfidenceWarning({
+  confidence,
+  validation,
+  isAdjusting,
+  onAdjustPin,
+}: Readonly<ConfidenceWarningProps>) {
+  const level = getConfidenceLevel(confidence)
+  if (level === "high") return null
+
+  return (
+    <Alert
+      variant={level === "very-low" ? "destructive" : "default"}
+      className={cn(
+        level === "low" &&
+          "border-amber-500/50 bg-amber-50 text-amber-900 dark:bg-amber-950/30 dark:text-amber-200",
+      )}
+    >
+      <AlertTriangle />
+      <AlertTitle>
+        Low geocoding confidence ({formatConfidence(confidence)})
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>
+          The location may not be the exact building, so the districts below
+          could be wrong. Check the pin on the map and move it if needed.
+        </p>
+        {validation && (
+          <div className="space-y-1 text-xs">
+            <ComponentList
+              label="Missing"
+              components={validation.missing_components}
+            />
+            <ComponentList
+              label="Malformed"
+              components={validation.malformed_components}
+            />
+          </div>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onAdjustPin}
+          className="print:hidden"
+        >
+          <Move className="h-4 w-4" />
+          {isAdjusting ? "Done adjusting" : "Adjust pin on map"}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,96 @@
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type {
+  DistrictComparisonRow,
+  DistrictComparisonStatus,
+} from "@/lib/districts"
+import type { LookupDistrict } from "@/types/lookup"
+
+const statusLabels: Record<DistrictComparisonStatus, string> = {
+  same: "Same",
+  different: "Different",
+  "only-a": "Only in A",
+  "only-b": "Only in B",
+}
+
+function getStatusBadgeVariant(status: DistrictComparisonStatus) {
+  switch (status) {
+    case "same":
+      return "secondary"
+    case "different":
+      return "default"
+    default:
+      return "outline"
+  }
+}
+
+function DistrictNames({
+  districts,
+}: Readonly<{ districts: LookupDistrict[] }>) {
+  if (districts.length === 0) {
+    return <span className="text-muted-foreground">—</span>
+  }
+  return (
+    <ul className="space-y-0.5">
+      {districts.map((district) => (
+        <li key={district.boundary_id}>{district.name}</li>
+      ))}
+    </ul>
+  )
+}
+
+interface DistrictComparisonTableProps {
+  rows: DistrictComparisonRow[]
+  labelA: string
+  labelB: string
+}
+
+export function DistrictComparisonTable({
+  rows,
+  labelA,
+  labelB,
+}: Readonly<DistrictComparisonTableProps>) {
+  return (
+    <div className="rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>District Type</TableHead>
+            <TableHead>A: {labelA}</TableHead>
+            <TableHead>B: {labelB}</TableHead>
+            <TableHead className="w-28">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow
+              key={row.boundaryType}
+              className={cn(row.status !== "same" && "bg-amber-50/60 dark:bg-amber-950/20")}
+            >
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell className="whitespace-normal">
+                <DistrictNames districts={row.a} />
+              </TableCell>
+              <TableCell className="whitespace-normal">
+                <DistrictNames districts={row.b} />
+              </TableCell>
+              <TableCell>
+                <Badge variant={getStatusBadgeVariant(row.status)}>
+                  {statusLabels[row.status]}
+                </Badge>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
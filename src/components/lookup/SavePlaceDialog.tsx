@@ -0,0 +1,86 @@
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useCreateSavedPlace } from "@/hooks/useSavedPlaces"
+import type { NewSavedPlace } from "@/types/places"
+
+interface SavePlaceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  place: Omit<NewSavedPlace, "name">
+}
+
+export function SavePlaceDialog({
+  open,
+  onOpenChange,
+  place,
+}: Readonly<SavePlaceDialogProps>) {
+  const [name, setName] = useState(place.address ?? "")
+  const createPlace = useCreateSavedPlace()
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = name.trim()
+    if (!trimmed) return
+    createPlace.mutate(
+      { ...place, name: trimmed },
+      {
+        onSuccess: () => {
+          toast.success("Place saved", { description: trimmed })
+          onOpenChange(false)
+        },
+        onError: (error: Error) => {
+          toast.error("Could not save place", { description: error.message })
+        },
+      },
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save Place</DialogTitle>
+            <DialogDescription>
+              Saved places are stored in this browser and appear on the
+              Address Lookup page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="place-name">Name</Label>
+            <Input
+              id="place-name"
+              value={name}
+              placeholder="e.g. First Baptist Church"
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || createPlace.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
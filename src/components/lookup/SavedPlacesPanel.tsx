@@ -0,0 +1,294 @@
+import { useState } from "react"
+import {
+  Check,
+  Clock,
+  Download,
+  MapPin,
+  Pencil,
+  Pin,
+  PinOff,
+  Star,
+  Trash2,
+  X,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  useClearLookupHistory,
+  useDeleteSavedPlace,
+  useLookupHistory,
+  useSavedPlaces,
+  useUpdateSavedPlace,
+} from "@/hooks/useSavedPlaces"
+import { downloadBlob } from "@/lib/download"
+import { savedPlacesToCsv } from "@/lib/places"
+import type { LookupTarget, SavedPlace } from "@/types/places"
+
+interface SavedPlacesPanelProps {
+  onOpen: (target: LookupTarget) => void
+}
+
+function SavedPlaceRow({
+  place,
+  onOpen,
+}: Readonly<{ place: SavedPlace; onOpen: (target: LookupTarget) => void }>) {
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false)
+  const [name, setName] = useState(place.name)
+  const updatePlace = useUpdateSavedPlace()
+  const deletePlace = useDeleteSavedPlace()
+
+  const commitRename = () => {
+    const trimmed = name.trim()
+    if (trimmed && trimmed !== place.name) {
+      updatePlace.mutate({ place, changes: { name: trimmed } })
+    }
+    setIsRenaming(false)
+  }
+
+  if (isRenaming) {
+    return (
+      <li className="flex items-center gap-1">
+        <Input
+          autoFocus
+          aria-label="Place name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename()
+            if (e.key === "Escape") setIsRenaming(false)
+          }}
+          className="h-8"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={commitRename}
+          aria-label="Save name"
+        >
+          <Check className="h-4 w-4" />
+        </Button>
+      </li>
+    )
+  }
+
+  return (
+    <li className="group flex items-center gap-1 rounded-md hover:bg-accent">
+      <button
+        type="button"
+        onClick={() => onOpen(place)}
+        className="flex min-w-0 flex-1 items-start gap-2 px-2 py-1.5 text-left text-sm"
+      >
+        {place.pinned ? (
+          <Pin className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+        ) : (
+          <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+        )}
+        <span className="min-w-0">
+          <span className="block truncate font-medium">{place.name}</span>
+          {place.address && place.address !== place.name && (
+            <span className="block truncate text-xs text-muted-foreground">
+              {place.address}
+            </span>
+          )}
+        </span>
+      </button>
+      {isConfirmingDelete ? (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-destructive"
+            onClick={() => deletePlace.mutate(place.id)}
+          >
+            Delete
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setIsConfirmingDelete(false)}
+            aria-label="Cancel delete"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      ) : (
+        <div className="flex shrink-0 opacity-70 group-hover:opacity-100">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() =>
+              updatePlace.mutate({ place, changes: { pinned: !place.pinned } })
+            }
+            aria-label={place.pinned ? `Unpin ${place.name}` : `Pin ${place.name}`}
+          >
+            {place.pinned ? (
+              <PinOff className="h-4 w-4" />
+            ) : (
+              <Pin className="h-4 w-4" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => {
+              setName(place.name)
+              setIsRenaming(true)
+            }}
+            aria-label={`Rename ${place.name}`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setIsConfirmingDelete(true)}
+            aria-label={`Delete ${place.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Saved places and recent lookups for the signed-in user.
+ * Picking an entry re-opens its results without re-verifying the address.
+ */
+export function SavedPlacesPanel({ onOpen }: Readonly<SavedPlacesPanelProps>) {
+  const [tab, setTab] = useState<"saved" | "recent">("saved")
+  const { data: places = [], isError: isPlacesError } = useSavedPlaces()
+  const { data: history = [] } = useLookupHistory()
+  const clearHistory = useClearLookupHistory()
+
+  if (isPlacesError) return null
+
+  const handleExport = (format: "csv" | "json") => {
+    const stamp = new Date().toISOString().slice(0, 10)
+    const blob =
+      format === "csv"
+        ? new Blob([savedPlacesToCsv(places)], {
+            type: "text/csv;charset=utf-8",
+          })
+        : new Blob([JSON.stringify(places, null, 2)], {
+            type: "application/json",
+          })
+    downloadBlob(blob, `saved-places-${stamp}.${format}`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={tab}
+        onValueChange={(value) => value && setTab(value as typeof tab)}
+        className="w-full"
+      >
+        <ToggleGroupItem value="saved" className="flex-1 text-xs">
+          <Star className="h-3 w-3" />
+          Saved ({places.length})
+        </ToggleGroupItem>
+        <ToggleGroupItem value="recent" className="flex-1 text-xs">
+          <Clock className="h-3 w-3" />
+          Recent ({history.length})
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      {tab === "saved" && (
+        <>
+          {places.length === 0 ? (
+            <p className="py-2 text-center text-sm text-muted-foreground">
+              Save a place from the results page to find it here.
+            </p>
+          ) : (
+            <ul className="max-h-64 space-y-0.5 overflow-y-auto">
+              {places.map((place) => (
+                <SavedPlaceRow key={place.id} place={place} onOpen={onOpen} />
+              ))}
+            </ul>
+          )}
+          {places.length > 0 && (
+            <div className="flex justify-end gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={() => handleExport("csv")}
+              >
+                <Download className="h-3 w-3" />
+                CSV
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={() => handleExport("json")}
+              >
+                <Download className="h-3 w-3" />
+                JSON
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {tab === "recent" && (
+        <>
+          {history.length === 0 ? (
+            <p className="py-2 text-center text-sm text-muted-foreground">
+              Addresses you look up will appear here.
+            </p>
+          ) : (
+            <ul className="max-h-64 space-y-0.5 overflow-y-auto">
+              {history.map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => onOpen(entry)}
+                    className="flex w-full items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+                  >
+                    <Clock className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate">
+                        {entry.address ??
+                          `${entry.latitude.toFixed(5)}, ${entry.longitude.toFixed(5)}`}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(entry.lookedUpAt).toLocaleString()} ·{" "}
+                        {entry.districts.length} districts
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {history.length > 0 && (
+            <div className="flex justify-end">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={() => clearHistory.mutate()}
+                disabled={clearHistory.isPending}
+              >
+                <Trash2 className="h-3 w-3" />
+                Clear history
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
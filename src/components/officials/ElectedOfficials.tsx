@@ -0,0 +1,88 @@
+import { AlertCircle, Landmark } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { OfficialCard } from "@/components/officials/OfficialCard"
+import { useElectedOfficials } from "@/hooks/useElectedOfficials"
+
+interface ElectedOfficialsProps {
+  boundaryType: string
+  name: string
+  boundaryIdentifier: string
+}
+
+/**
+ * Office holders for a district, with photo, contact links and term.
+ * Renders nothing for boundary types that have no elected seat.
+ */
+export function ElectedOfficialsCard({
+  boundaryType,
+  name,
+  boundaryIdentifier,
+}: Readonly<ElectedOfficialsProps>) {
+  const { data: officials = [], isLoading, isError, isSupported, providerLabel } =
+    useElectedOfficials(boundaryType, name, boundaryIdentifier)
+
+  if (!isSupported) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Elected Officials
+        </CardTitle>
+        <CardDescription>Source: {providerLabel}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-24 rounded-lg" />
+        ) : isError ? (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>Failed to load elected officials.</span>
+          </div>
+        ) : officials.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No office holder on record for this district.
+          </p>
+        ) : (
+          officials.map((official) => (
+            <OfficialCard key={official.id} official={official} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Compact office holder line for district cards on lookup results.
+ * Stays silent while loading and on errors to keep the cards tidy.
+ */
+export function DistrictOfficials({
+  boundaryType,
+  name,
+  boundaryIdentifier,
+}: Readonly<ElectedOfficialsProps>) {
+  const { data: officials = [] } = useElectedOfficials(
+    boundaryType,
+    name,
+    boundaryIdentifier,
+  )
+
+  if (officials.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {officials.map((official) => (
+        <OfficialCard key={official.id} official={official} compact />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from "react"
+import {
+  ExternalLink,
+  Facebook,
+  Globe,
+  Link as LinkIcon,
+  Mail,
+  Phone,
+  Twitter,
+} from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import {
+  contactKindLabels,
+  formatTerm,
+  partyAbbreviation,
+} from "@/lib/officials"
+import type {
+  ElectedOfficial,
+  OfficialContactKind,
+} from "@/types/officials"
+
+const contactIcons: Record<OfficialContactKind, typeof Globe> = {
+  website: Globe,
+  email: Mail,
+  phone: Phone,
+  twitter: Twitter,
+  facebook: Facebook,
+  other: LinkIcon,
+}
+
+const partyBadgeClasses: Record<string, string> = {
+  D: "bg-blue-600 text-white",
+  R: "bg-red-600 text-white",
+}
+
+function OfficialPhoto({
+  official,
+  size,
+}: Readonly<{ official: ElectedOfficial; size: "sm" | "md" }>) {
+  const [failed, setFailed] = useState(false)
+  const initials = official.name
+    .split(/\s+/)
+    .map((part) => part.charAt(0))
+    .filter(Boolean)
+    .slice(0, 2)
+    .join("")
+    .toUpperCase()
+  const sizeClass = size === "sm" ? "h-8 w-8 text-xs" : "h-16 w-16 text-lg"
+
+  if (!official.photoUrl || failed) {
+    return (
+      <div
+        aria-hidden
+        className={cn(
+          "flex shrink-0 items-center justify-center rounded-full bg-muted font-medium text-muted-foreground",
+          sizeClass,
+        )}
+      >
+        {initials}
+      </div>
+    )
+  }
+
+  return (
+    <img
+      src={official.photoUrl}
+      alt={`Portrait of ${official.name}`}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={cn("shrink-0 rounded-full object-cover", sizeClass)}
+    />
+  )
+}
+
+function PartyBadge({ party }: Readonly<{ party: string | null }>) {
+  const abbreviation = partyAbbreviation(party)
+  if (!abbreviation) return null
+  return (
+    <Badge
+      variant="outline"
+      title={party ?? undefined}
+      className={cn("px-1.5", partyBadgeClasses[abbreviation])}
+    >
+      {abbreviation}
+    </Badge>
+  )
+}
+
+interface OfficialCardProps {
+  official: ElectedOfficial
+  /** Single line with photo, name and party, for use inside district cards */
+  compact?: boolean
+}
+
+export function OfficialCard({
+  official,
+  compact,
+}: Readonly<OfficialCardProps>) {
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <OfficialPhoto official={official} size="sm" />
+        <div className="min-w-0">
+          <div className="flex items-center gap-1.5">
+            <span className="truncate font-medium">{official.name}</span>
+            <PartyBadge party={official.party} />
+          </div>
+          <div className="truncate text-xs text-muted-foreground">
+            {official.officeTitle}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const term = formatTerm(official.termStart, official.termEnd)
+
+  return (
+    <div className="flex gap-4 rounded-lg border p-4">
+      <OfficialPhoto official={official} size="md" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold">{official.name}</span>
+          <PartyBadge party={official.party} />
+        </div>
+        <div className="text-sm text-muted-foreground">
+          {official.officeTitle}
+          {official.party && ` · ${official.party}`}
+        </div>
+        {term && (
+          <div className="text-xs text-muted-foreground">Term: {term}</div>
+        )}
+        {official.contactLinks.length > 0 && (
+          <ul className="flex flex-wrap gap-x-3 gap-y-1 pt-1 text-sm">
+            {official.contactLinks.map((link) => {
+              const Icon = contactIcons[link.kind]
+              const isExternal = /^https?:/.test(link.url)
+              return (
+                <li key={`${link.kind}-${link.url}`}>
+                  <a
+                    href={link.url}
+                    target={isExternal ? "_blank" : undefined}
+                    rel={isExternal ? "noopener noreferrer" : undefined}
+                    className="inline-flex items-center gap-1 text-primary hover:underline"
+                  >
+                    <Icon className="h-3.5 w-3.5" />
+                    {link.label ?? contactKindLabels[link.kind]}
+                    {isExternal && <ExternalLink className="h-3 w-3" />}
+                  </a>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
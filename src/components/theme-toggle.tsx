@@ -0,0 +1,32 @@
+import { Moon, Sun } from "lucide-react"
+import { useTheme } from "next-themes"
+import { Button } from "@/components/ui/button"
+
+interface ThemeToggleProps {
+  /** Show the target theme's name next to the icon (mobile menu) */
+  showLabel?: boolean
+}
+
+/**
+ * Switches the app between the light and dark themes. The choice is kept
+ * in localStorage by next-themes; maps on "Automatic" follow it.
+ */
+export function ThemeToggle({ showLabel = false }: Readonly<ThemeToggleProps>) {
+  const { resolvedTheme, setTheme } = useTheme()
+  const isDark = resolvedTheme === "dark"
+  const label = isDark ? "Light theme" : "Dark theme"
+  const Icon = isDark ? Sun : Moon
+
+  return (
+    <Button
+      variant="ghost"
+      size={showLabel ? "sm" : "icon"}
+      className={showLabel ? "justify-start" : undefined}
+      onClick={() => setTheme(isDark ? "light" : "dark")}
+      aria-label={showLabel ? undefined : `Switch to ${label.toLowerCase()}`}
+    >
+      <Icon className="h-4 w-4" />
+      {showLabel && label}
+    </Button>
+  )
+}
@@ -0,0 +1,381 @@
+import { useState } from "react"
+import { toast } from "sonner"
+import {
+  AlertCircle,
+  Crosshair,
+  Loader2,
+  MapPin,
+  Plus,
+  ShieldAlert,
+  Star,
+} from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { VoterLocationMap } from "@/components/VoterLocationMap"
+import { ConfidenceScore } from "@/components/lookup/ConfidenceWarning"
+import {
+  useAddManualLocation,
+  useSetPrimaryLocation,
+  useVoterGeocodedLocations,
+} from "@/hooks/useAddressLookup"
+import { cn } from "@/lib/utils"
+import { GA_CENTER } from "@/lib/geo"
+import type {
+  ManualLocationRequest,
+  VoterGeocodedLocation,
+} from "@/types/lookup"
+
+type ManualSourceType = ManualLocationRequest["source_type"]
+
+const sourceTypeLabels: Record<string, string> = {
+  manual: "Manual",
+  "field-survey": "Field survey",
+}
+
+function formatSourceType(sourceType: string): string {
+  return sourceTypeLabels[sourceType] ?? sourceType.replaceAll("_", " ")
+}
+
+interface VoterLocationPanelProps {
+  voterId: string
+  /** From canViewVoterPii; without it the map and exact addresses are hidden */
+  showPii: boolean
+}
+
+/**
+ * Every geocoded location on file for a voter, on a map and in a table.
+ * Admins and analysts can drop a manual or field-survey point and choose
+ * which location is primary.
+ */
+export function VoterLocationPanel({
+  voterId,
+  showPii,
+}: Readonly<VoterLocationPanelProps>) {
+  // Placing or promoting a point means seeing the exact residence
+  const canEdit = showPii
+
+  const { data: locations = [], isLoading, isError } =
+    useVoterGeocodedLocations(voterId, showPii)
+  const addLocation = useAddManualLocation(voterId)
+  const setPrimary = useSetPrimaryLocation(voterId)
+
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(
+    null,
+  )
+  const [draftPoint, setDraftPoint] = useState<[number, number] | null>(null)
+  const [draftSourceType, setDraftSourceType] =
+    useState<ManualSourceType>("field-survey")
+  const [draftSetPrimary, setDraftSetPrimary] = useState(false)
+  const [promoteTarget, setPromoteTarget] =
+    useState<VoterGeocodedLocation | null>(null)
+
+  const primary = locations.find((l) => l.is_primary)
+
+  const startPlacing = () => {
+    const anchor =
+      locations.find((l) => l.id === selectedLocationId) ?? primary
+    setDraftPoint(anchor ? [anchor.latitude, anchor.longitude] : GA_CENTER)
+  }
+
+  const handleSaveDraft = () => {
+    if (!draftPoint) return
+    addLocation.mutate(
+      {
+        latitude: draftPoint[0],
+        longitude: draftPoint[1],
+        source_type: draftSourceType,
+        set_as_primary: draftSetPrimary,
+      },
+      {
+        onSuccess: (location) => {
+          toast.success("Location added", {
+            description: location.is_primary
+              ? "The new point is now the primary location."
+              : undefined,
+          })
+          setDraftPoint(null)
+          setSelectedLocationId(location.id)
+        },
+        onError: (error: Error) => {
+          toast.error("Could not add location", {
+            description: error.message,
+          })
+        },
+      },
+    )
+  }
+
+  const handleConfirmPromote = () => {
+    if (!promoteTarget) return
+    setPrimary.mutate(promoteTarget.id, {
+      onSuccess: () => {
+        toast.success("Primary location updated")
+        setPromoteTarget(null)
+      },
+      onError: (error: Error) => {
+        toast.error("Could not set primary location", {
+          description: error.message,
+        })
+      },
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Geocoded Locations
+            </CardTitle>
+            <CardDescription>
+              {locations.length}{" "}
+              {locations.length === 1 ? "location" : "locations"} on file
+            </CardDescription>
+          </div>
+          {canEdit && !draftPoint && (
+            <Button variant="outline" size="sm" onClick={startPlacing}>
+              <Plus className="h-4 w-4" />
+              Add Location
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isError && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>Failed to load geocoded locations.</span>
+          </div>
+        )}
+
+        {showPii ? (
+          <div className="h-80">
+            <VoterLocationMap
+              locations={locations}
+              selectedLocationId={selectedLocationId}
+              onSelect={setSelectedLocationId}
+              draftPoint={draftPoint}
+              onDraftMove={setDraftPoint}
+            />
+          </div>
+        ) : (
+          <div className="flex items-start gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+            <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>The map and house numbers are hidden for your role.</span>
+          </div>
+        )}
+
+        {draftPoint && (
+          <div className="space-y-3 rounded-md border border-dashed p-3">
+            <div className="flex items-center gap-2 text-sm">
+              <Crosshair className="h-4 w-4 text-muted-foreground" />
+              <span>Drag the orange pin to the residence.</span>
+              <span className="ml-auto font-mono text-xs text-muted-foreground">
+                {draftPoint[0].toFixed(6)}, {draftPoint[1].toFixed(6)}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={draftSourceType}
+                onValueChange={(value) =>
+                  value && setDraftSourceType(value as ManualSourceType)
+                }
+                aria-label="Source type"
+              >
+                <ToggleGroupItem value="field-survey" className="text-xs">
+                  Field survey
+                </ToggleGroupItem>
+                <ToggleGroupItem value="manual" className="text-xs">
+                  Manual
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="draft-set-primary"
+                  checked={draftSetPrimary}
+                  onCheckedChange={(checked) =>
+                    setDraftSetPrimary(checked === true)
+                  }
+                />
+                <Label htmlFor="draft-set-primary" className="text-sm">
+                  Set as primary
+                </Label>
+              </div>
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraftPoint(null)}
+                  disabled={addLocation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSaveDraft}
+                  disabled={addLocation.isPending}
+                >
+                  {addLocation.isPending && (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  )}
+                  Save Location
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10" />
+            ))}
+          </div>
+        ) : locations.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            This voter has not been geocoded yet.
+          </p>
+        ) : (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Confidence</TableHead>
+                  <TableHead>Geocoded</TableHead>
+                  <TableHead>Input Address</TableHead>
+                  <TableHead className="w-32" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow
+                    key={location.id}
+                    onClick={() => setSelectedLocationId(location.id)}
+                    aria-selected={location.id === selectedLocationId}
+                    className={cn(
+                      "cursor-pointer",
+                      location.id === selectedLocationId && "bg-muted",
+                    )}
+                  >
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">
+                          {formatSourceType(location.source_type)}
+                        </Badge>
+                        {location.is_primary && (
+                          <Badge className="bg-green-600 text-white">
+                            Primary
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <ConfidenceScore score={location.confidence_score} />
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(location.geocoded_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="max-w-[240px] truncate text-sm">
+                      {location.input_address || "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canEdit && !location.is_primary && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setPromoteTarget(location)
+                          }}
+                        >
+                          <Star className="h-4 w-4" />
+                          Make Primary
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={promoteTarget !== null}
+        onOpenChange={(open) => !open && setPromoteTarget(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set Primary Location?</DialogTitle>
+            <DialogDescription>
+              The primary location is used for district assignment. The
+              current primary location will be kept as a secondary point.
+            </DialogDescription>
+          </DialogHeader>
+          {promoteTarget && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Source</dt>
+              <dd>{formatSourceType(promoteTarget.source_type)}</dd>
+              <dt className="text-muted-foreground">Coordinates</dt>
+              <dd className="font-mono">
+                {promoteTarget.latitude.toFixed(6)},{" "}
+                {promoteTarget.longitude.toFixed(6)}
+              </dd>
+              <dt className="text-muted-foreground">Geocoded</dt>
+              <dd>{new Date(promoteTarget.geocoded_at).toLocaleString()}</dd>
+            </dl>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPromoteTarget(null)}
+              disabled={setPrimary.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmPromote}
+              disabled={setPrimary.isPending}
+            >
+              {setPrimary.isPending ? "Saving..." : "Set as Primary"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react"
+import { Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useCountyBoundaries } from "@/hooks/useCountyBoundaries"
+import { cn } from "@/lib/utils"
+import { voterStatusLabels } from "@/lib/voters"
+import type { VoterRegistrationStatus } from "@/types/voters"
+
+// Radix Select does not allow an empty item value
+const ANY = "__any__"
+
+export interface VoterSearchFilterValues {
+  name?: string
+  address?: string
+  county?: string
+  precinct?: string
+  status?: VoterRegistrationStatus
+}
+
+interface VoterSearchFiltersProps {
+  values: VoterSearchFilterValues
+  /** Offer the residence address filter; off for roles without PII access */
+  showAddress?: boolean
+  onSubmit: (values: VoterSearchFilterValues) => void
+}
+
+function blankToUndefined(value: string): string | undefined {
+  const trimmed = value.trim()
+  return trimmed === "" ? undefined : trimmed
+}
+
+/**
+ * Filter form for the voter search. Text fields apply on submit so that
+ * typing does not fire a search per keystroke.
+ */
+export function VoterSearchFilters({
+  values,
+  showAddress = true,
+  onSubmit,
+}: Readonly<VoterSearchFiltersProps>) {
+  const [name, setName] = useState(values.name ?? "")
+  const [address, setAddress] = useState(values.address ?? "")
+  const [precinct, setPrecinct] = useState(values.precinct ?? "")
+  const [county, setCounty] = useState(values.county ?? ANY)
+  const [status, setStatus] = useState<string>(values.status ?? ANY)
+  const { data: counties } = useCountyBoundaries()
+
+  const countyNames = useMemo(
+    () =>
+      (counties?.features ?? [])
+        .map((feature) => feature.properties.name)
+        .sort((a, b) => a.localeCompare(b)),
+    [counties],
+  )
+
+  const hasFilters =
+    name !== "" ||
+    (showAddress && address !== "") ||
+    precinct !== "" ||
+    county !== ANY ||
+    status !== ANY
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      name: blankToUndefined(name),
+      address: showAddress ? blankToUndefined(address) : undefined,
+      precinct: blankToUndefined(precinct),
+      county: county === ANY ? undefined : county,
+      status:
+        status === ANY ? undefined : (status as VoterRegistrationStatus),
+    })
+  }
+
+  const handleClear = () => {
+    setName("")
+    setAddress("")
+    setPrecinct("")
+    setCounty(ANY)
+    setStatus(ANY)
+    onSubmit({})
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid grid-cols-1 gap-3 rounded-lg border p-4 sm:grid-cols-2 lg:grid-cols-6"
+    >
+      <div
+        className={cn(
+          "space-y-1.5",
+          showAddress ? "lg:col-span-2" : "lg:col-span-4",
+        )}
+      >
+        <Label htmlFor="voter-name">Name</Label>
+        <Input
+          id="voter-name"
+          placeholder="Last, first"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      {showAddress && (
+        <div className="space-y-1.5 lg:col-span-2">
+          <Label htmlFor="voter-address">Residence address</Label>
+          <Input
+            id="voter-address"
+            placeholder="Street, city or ZIP"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+        </div>
+      )}
+      <div className="space-y-1.5">
+        <Label htmlFor="voter-county">County</Label>
+        <Select value={county} onValueChange={setCounty}>
+          <SelectTrigger id="voter-county" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any county</SelectItem>
+            {countyNames.map((countyName) => (
+              <SelectItem key={countyName} value={countyName}>
+                {countyName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="voter-precinct">Precinct</Label>
+        <Input
+          id="voter-precinct"
+          value={precinct}
+          onChange={(e) => setPrecinct(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="voter-status">Status</Label>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger id="voter-status" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any status</SelectItem>
+            {Object.entries(voterStatusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-end gap-2 sm:col-span-2 lg:col-span-5 lg:justify-end">
+        {hasFilters && (
+          <Button type="button" variant="ghost" onClick={handleClear}>
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+        <Button type="submit">
+          <Search className="h-4 w-4" />
+          Search
+        </Button>
+      </div>
+    </form>
+  )
+}
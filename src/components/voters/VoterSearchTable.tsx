@@ -0,0 +1,212 @@
+import { useMemo } from "react"
+import { Link } from "@tanstack/react-router"
+import {
+  createColumnHelper,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+  type SortingState,
+} from "@tanstack/react-table"
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  formatVoterName,
+  getVoterStatusBadgeVariant,
+  voterStatusLabels,
+} from "@/lib/voters"
+import { cn } from "@/lib/utils"
+import type {
+  SortDirection,
+  VoterSortField,
+  VoterSummary,
+} from "@/types/voters"
+
+export interface VoterSort {
+  sortBy?: VoterSortField
+  sortDir?: SortDirection
+}
+
+interface VoterSearchTableProps {
+  voters: VoterSummary[]
+  sort: VoterSort
+  onSortChange: (sort: VoterSort) => void
+  /** Dim the rows while the next page is loading */
+  isFetching?: boolean
+}
+
+const columnHelper = createColumnHelper<VoterSummary>()
+
+const columns = [
+  columnHelper.accessor("last_name", {
+    header: "Name",
+    cell: ({ row }) => (
+      <Link
+        to="/voters/$voterId"
+        params={{ voterId: row.original.id }}
+        className="font-medium hover:underline"
+      >
+        {formatVoterName(row.original)}
+      </Link>
+    ),
+  }),
+  columnHelper.accessor("voter_registration_number", {
+    header: "Registration #",
+    enableSorting: false,
+    cell: (info) => (
+      <span className="font-mono text-xs">{info.getValue()}</span>
+    ),
+  }),
+  columnHelper.accessor("residence_address", {
+    header: "Residence",
+    enableSorting: false,
+    cell: ({ row }) => (
+      <span className="text-sm">
+        {row.original.residence_address}
+        <span className="text-muted-foreground">
+          , {row.original.residence_city} {row.original.residence_zip}
+        </span>
+      </span>
+    ),
+  }),
+  columnHelper.accessor("county", { header: "County" }),
+  columnHelper.accessor("precinct", {
+    header: "Precinct",
+    cell: (info) => info.getValue() ?? "—",
+  }),
+  columnHelper.accessor("status", {
+    header: "Status",
+    cell: (info) => (
+      <Badge variant={getVoterStatusBadgeVariant(info.getValue())}>
+        {voterStatusLabels[info.getValue()]}
+      </Badge>
+    ),
+  }),
+  columnHelper.accessor("registration_date", {
+    header: "Registered",
+    cell: (info) => {
+      const value = info.getValue()
+      return (
+        <span className="text-sm text-muted-foreground">
+          {value ? new Date(value).toLocaleDateString() : "—"}
+        </span>
+      )
+    },
+  }),
+]
+
+/**
+ * One page of voter search results. Sorting is applied by the server, so
+ * header clicks are reported through `onSortChange` rather than sorting
+ * the rows in place.
+ */
+export function VoterSearchTable({
+  voters,
+  sort,
+  onSortChange,
+  isFetching,
+}: Readonly<VoterSearchTableProps>) {
+  const sorting = useMemo<SortingState>(
+    () =>
+      sort.sortBy ? [{ id: sort.sortBy, desc: sort.sortDir === "desc" }] : [],
+    [sort.sortBy, sort.sortDir],
+  )
+
+  const table = useReactTable({
+    data: voters,
+    columns,
+    getRowId: (voter) => voter.id,
+    getCoreRowModel: getCoreRowModel(),
+    manualSorting: true,
+    manualPagination: true,
+    state: { sorting },
+    onSortingChange: (updater) => {
+      const next = typeof updater === "function" ? updater(sorting) : updater
+      const [first] = next
+      onSortChange(
+        first
+          ? {
+              sortBy: first.id as VoterSortField,
+              sortDir: first.desc ? "desc" : "asc",
+            }
+          : {},
+      )
+    },
+  })
+
+  return (
+    <div className="rounded-lg border">
+      <Table>
+        <TableHeader>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <TableRow key={headerGroup.id}>
+              {headerGroup.headers.map((header) => {
+                const sorted = header.column.getIsSorted()
+                const SortIcon =
+                  sorted === "asc"
+                    ? ArrowUp
+                    : sorted === "desc"
+                      ? ArrowDown
+                      : ArrowUpDown
+                return (
+                  <TableHead
+                    key={header.id}
+                    aria-sort={
+                      sorted === "asc"
+                        ? "ascending"
+                        : sorted === "desc"
+                          ? "descending"
+                          : undefined
+                    }
+                  >
+                    {header.column.getCanSort() ? (
+                      <button
+                        type="button"
+                        onClick={header.column.getToggleSortingHandler()}
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                      >
+                        {flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                        <SortIcon
+                          className={cn(
+                            "h-3.5 w-3.5",
+                            !sorted && "text-muted-foreground/50",
+                          )}
+                        />
+                      </button>
+                    ) : (
+                      flexRender(
+                        header.column.columnDef.header,
+                        header.getContext(),
+                      )
+                    )}
+                  </TableHead>
+                )
+              })}
+            </TableRow>
+          ))}
+        </TableHeader>
+        <TableBody className={cn(isFetching && "opacity-60")}>
+          {table.getRowModel().rows.map((row) => (
+            <TableRow key={row.id}>
+              {row.getVisibleCells().map((cell) => (
+                <TableCell key={cell.id}>
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
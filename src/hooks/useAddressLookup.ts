@@ -10,18 +10,44 @@ import {
   addManualLocation,
   setPrimaryLocation,
 } from "@/api/lookup"
+import { LruCache } from "@/lib/lru-cache"
+import { maskGeocodedLocation } from "@/lib/pii"
 import type {
   BatchGeocodeRequest,
   ManualLocationRequest,
   PointLookupParams,
+  VerifyResponse,
 } from "@/types/lookup"
 
 // --- Address verification & geocoding ---
 
+// Recent verify responses, kept across query garbage collection so that
+// retyping a recent address shows suggestions without a round trip.
+const verifyCache = new LruCache<
+  string,
+  { response: VerifyResponse; fetchedAt: number }
+>(50)
+
+function verifyCacheKey(address: string): string {
+  return address.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
 export function useVerifyAddress(address: string | null) {
+  const cached = () =>
+    address ? verifyCache.get(verifyCacheKey(address)) : undefined
   return useQuery({
     queryKey: ["geocoding", "verify", address],
-    queryFn: () => verifyAddress(address!),
+    queryFn: async ({ signal }) => {
+      const response = await verifyAddress(address!, signal)
+      verifyCache.set(verifyCacheKey(address!), {
+        response,
+        fetchedAt: Date.now(),
+      })
+      return response
+    },
+    // Seeded entries keep their age, so old ones are refetched after staleTime
+    initialData: () => cached()?.response,
+    initialDataUpdatedAt: () => cached()?.fetchedAt,
     enabled: !!address,
     staleTime: 1000 * 60 * 5,
     gcTime: 1000 * 60 * 30,
@@ -87,10 +113,25 @@ export function useCacheStats() {
 
 // --- Voter geocoded locations ---
 
-export function useVoterGeocodedLocations(voterId: string | null) {
+/**
+ * Geocoded locations on file for a voter. Without PII access the
+ * addresses and coordinates are masked before they reach the cache.
+ */
+export function useVoterGeocodedLocations(
+  voterId: string | null,
+  showPii = true,
+) {
   return useQuery({
-    queryKey: ["voters", voterId, "geocoded-locations"],
-    queryFn: () => getVoterGeocodedLocations(voterId!),
+    queryKey: [
+      "voters",
+      voterId,
+      "geocoded-locations",
+      showPii ? "full" : "masked",
+    ],
+    queryFn: async () => {
+      const locations = await getVoterGeocodedLocations(voterId!)
+      return showPii ? locations : locations.map(maskGeocodedLocation)
+    },
     enabled: !!voterId,
     staleTime: 1000 * 60 * 5,
     gcTime: 1000 * 60 * 30,
@@ -102,9 +143,11 @@ export function useAddManualLocation(voterId: string) {
   return useMutation({
     mutationFn: (request: ManualLocationRequest) =>
       addManualLocation(voterId, request),
-    onSuccess: () => {
+    onSuccess: (location) => {
       queryClient.invalidateQueries({
-        queryKey: ["voters", voterId, "geocoded-locations"],
+        queryKey: location.is_primary
+          ? ["voters", voterId]
+          : ["voters", voterId, "geocoded-locations"],
       })
     },
   })
@@ -116,9 +159,9 @@ export function useSetPrimaryLocation(voterId: string) {
     mutationFn: (locationId: string) =>
       setPrimaryLocation(voterId, locationId),
     onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["voters", voterId, "geocoded-locations"],
-      })
+      // Assigned districts follow the primary location, so refresh the
+      // voter record along with its locations
+      queryClient.invalidateQueries({ queryKey: ["voters", voterId] })
     },
   })
 }
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query"
+import { fetchAllCountyCensusProfiles } from "@/api/census"
+import { DEFAULT_CENSUS_VINTAGE } from "@/lib/census"
+import type { CensusProfile, CensusVintage } from "@/types/census"
+
+export function allCountyCensusProfilesQueryOptions(
+  fipsState: string | undefined,
+  vintage: CensusVintage | null,
+) {
+  return {
+    queryKey: [
+      "census",
+      "counties",
+      fipsState,
+      vintage?.dataset,
+      vintage?.year,
+    ],
+    queryFn: (): Promise<Record<string, CensusProfile>> =>
+      fetchAllCountyCensusProfiles(fipsState!, vintage!),
+    enabled: !!fipsState && !!vintage,
+    staleTime: 1000 * 60 * 60 * 24,
+    gcTime: 1000 * 60 * 60 * 48,
+    retry: false,
+  }
+}
+
+/**
+ * Fetch Census ACS Data Profiles for every county in a state, keyed by
+ * 3-digit county FIPS. One batched request instead of one per county.
+ */
+export function useAllCountyCensusProfiles(
+  fipsState: string | undefined,
+  vintage: CensusVintage | null = DEFAULT_CENSUS_VINTAGE,
+) {
+  return useQuery(allCountyCensusProfilesQueryOptions(fipsState, vintage))
+}
@@ -0,0 +1,32 @@
+import { useTheme } from "next-themes"
+import {
+  BASEMAP_SOURCES,
+  DEFAULT_BASEMAP_CHOICE,
+  resolveBasemap,
+  type BasemapChoice,
+} from "@/lib/basemaps"
+import { useAuthStore } from "@/stores/authStore"
+import { useBasemapStore } from "@/stores/basemapStore"
+
+/**
+ * The signed-in user's basemap choice, and the basemap and tile source it
+ * resolves to under the current app theme.
+ */
+export function useBasemap() {
+  const owner = useAuthStore((state) => state.user?.id ?? "")
+  const choice = useBasemapStore(
+    (state) => state.choices[owner] ?? DEFAULT_BASEMAP_CHOICE,
+  )
+  const setStoredChoice = useBasemapStore((state) => state.setChoice)
+  const { resolvedTheme } = useTheme()
+
+  const basemap = resolveBasemap(
+    choice,
+    resolvedTheme === "dark" ? "dark" : "light",
+  )
+  const source = basemap === "none" ? null : (BASEMAP_SOURCES[basemap] ?? null)
+
+  const setChoice = (next: BasemapChoice) => setStoredChoice(owner, next)
+
+  return { choice, setChoice, basemap, source }
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { HTTPError } from "ky"
+import {
+  lookupAddressDistricts,
+  runWithConcurrency,
+  withRetries,
+  type BatchRowResult,
+} from "@/lib/batch-lookup"
+
+interface BatchLookupOptions {
+  concurrency: number
+  maxRetries: number
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof HTTPError) {
+    return `HTTP ${error.response.status}`
+  }
+  return error instanceof Error ? error.message : "Lookup failed"
+}
+
+/**
+ * Run verify + point-lookup for a list of addresses with bounded concurrency
+ * and per-row retries. Results are tracked per row so progress can be
+ * rendered while the batch is running.
+ */
+export function useBatchLookup() {
+  const [results, setResults] = useState<BatchRowResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+  // Bumped whenever a run starts or is stopped, so that rows settling late
+  // in a stopped run cannot overwrite the rows of the next one
+  const runRef = useRef(0)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const updateRow = useCallback(
+    (index: number, patch: Partial<BatchRowResult>) => {
+      setResults((prev) => {
+        const next = [...prev]
+        next[index] = { ...next[index], ...patch }
+        return next
+      })
+    },
+    [],
+  )
+
+  const process = useCallback(
+    async (
+      rows: BatchRowResult[],
+      indexes: number[],
+      { concurrency, maxRetries }: BatchLookupOptions,
+    ) => {
+      const controller = new AbortController()
+      controllerRef.current = controller
+      const run = ++runRef.current
+      const update = (index: number, patch: Partial<BatchRowResult>) => {
+        if (runRef.current === run) updateRow(index, patch)
+      }
+      setIsRunning(true)
+
+      await runWithConcurrency(
+        indexes,
+        concurrency,
+        async (index) => {
+          const { address } = rows[index]
+          if (!address) {
+            update(index, {
+              status: "no-match",
+              error: "Empty address",
+            })
+            return
+          }
+
+          try {
+            const match = await withRetries(
+              (attempt) => {
+                update(index, { status: "verifying", attempts: attempt })
+                return lookupAddressDistricts(address, controller.signal, () =>
+                  update(index, { status: "looking-up" }),
+                )
+              },
+              maxRetries,
+              controller.signal,
+            )
+            update(
+              index,
+              match
+                ? {
+                    status: "matched",
+                    suggestion: match.suggestion,
+                    districts: match.districts,
+                    error: undefined,
+                  }
+                : { status: "no-match", error: "No matching address" },
+            )
+          } catch (error) {
+            // Stopping already put the row back to pending
+            if (controller.signal.aborted) return
+            update(index, { status: "failed", error: describeError(error) })
+          }
+        },
+        controller.signal,
+      )
+
+      if (runRef.current === run) {
+        controllerRef.current = null
+        setIsRunning(false)
+      }
+    },
+    [updateRow],
+  )
+
+  /** Start a fresh batch for the given addresses. */
+  const start = useCallback(
+    (addresses: string[], options: BatchLookupOptions) => {
+      controllerRef.current?.abort()
+      const rows: BatchRowResult[] = addresses.map((address) => ({
+        address,
+        status: "pending",
+        attempts: 0,
+      }))
+      setResults(rows)
+      return process(
+        rows,
+        rows.map((_, i) => i),
+        options,
+      )
+    },
+    [process],
+  )
+
+  /** Re-run every row that has not completed (failed or cancelled). */
+  const resume = useCallback(
+    (options: BatchLookupOptions) => {
+      const indexes = results.flatMap((row, i) =>
+        row.status === "failed" || row.status === "pending" ? [i] : [],
+      )
+      if (indexes.length === 0) return Promise.resolve()
+      return process(results, indexes, options)
+    },
+    [process, results],
+  )
+
+  /**
+   * Stop scheduling rows and abort in-flight requests. Rows that were in
+   * flight go back to pending so that they can be resumed.
+   */
+  const cancel = useCallback(() => {
+    runRef.current++
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+    setResults((prev) =>
+      prev.map((row) =>
+        row.status === "verifying" || row.status === "looking-up"
+          ? { ...row, status: "pending" }
+          : row,
+      ),
+    )
+  }, [])
+
+  const reset = useCallback(() => {
+    cancel()
+    setResults([])
+  }, [cancel])
+
+  return { results, isRunning, start, resume, cancel, reset }
+}
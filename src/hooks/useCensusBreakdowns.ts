@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query"
+import { fetchCensusBreakdowns } from "@/api/census"
+import { censusGeographyKey } from "@/lib/census"
+import type { CensusGeography, CensusVintage } from "@/types/census"
+
+/**
+ * Age-by-sex, household type, education and income distributions for a
+ * geography. Shared by every breakdown section, so opening one loads them
+ * all.
+ */
+export function useCensusBreakdowns(
+  geography: CensusGeography,
+  vintage: CensusVintage,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: [
+      "census",
+      "breakdowns",
+      ...censusGeographyKey(geography),
+      vintage.dataset,
+      vintage.year,
+    ],
+    queryFn: () => fetchCensusBreakdowns(geography, vintage),
+    enabled,
+    staleTime: 1000 * 60 * 60 * 24,
+    gcTime: 1000 * 60 * 60 * 48,
+    retry: false,
+  })
+}
@@ -1,22 +1,31 @@
 import { useQuery } from "@tanstack/react-query"
 import { fetchCensusProfile } from "@/api/census"
-import type { CensusProfile } from "@/types/census"
+import { censusProfileQueryKey, DEFAULT_CENSUS_VINTAGE } from "@/lib/census"
+import type { CensusProfile, CensusVintage } from "@/types/census"
 
 /**
- * Fetch Census ACS 5-Year Data Profile for a county.
- * Enabled only when both FIPS codes are provided.
+ * Fetch Census ACS Data Profile for a county.
+ * Enabled only when both FIPS codes and a vintage are provided.
  */
 export function useCensusProfile(
   fipsState: string | undefined,
   fipsCounty: string | undefined,
+  vintage: CensusVintage | null = DEFAULT_CENSUS_VINTAGE,
 ) {
   return useQuery<CensusProfile>({
-    queryKey: ["census", "profile", fipsState, fipsCounty],
-    queryFn: () => fetchCensusProfile(fipsState!, fipsCounty!),
-    enabled: !!fipsState && !!fipsCounty,
+    queryKey: censusProfileQueryKey(
+      {
+        kind: "county",
+        fipsState: fipsState ?? "",
+        fipsCounty: fipsCounty ?? "",
+      },
+      vintage,
+    ),
+    queryFn: () => fetchCensusProfile(fipsState!, fipsCounty!, vintage!),
+    enabled: !!fipsState && !!fipsCounty && !!vintage,
     staleTime: 1000 * 60 * 60 * 24,
     gcTime: 1000 * 60 * 60 * 48,
-    retry: 2,
-    retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 10000),
+    // The census client already retries transient failures with backoff
+    retry: false,
   })
 }
@@ -0,0 +1,46 @@
+import { useQueries } from "@tanstack/react-query"
+import { fetchGeographyCensusProfile } from "@/api/census"
+import { CENSUS_YEARS, censusProfileQueryKey } from "@/lib/census"
+import type {
+  CensusDataset,
+  CensusGeography,
+  CensusProfile,
+} from "@/types/census"
+
+export interface CensusTrendPoint {
+  year: number
+  profile: CensusProfile
+}
+
+/**
+ * Profiles for every offered year of a dataset, for time-series charts.
+ * Years that fail to load (e.g. 1-year data for a small county) are left
+ * out rather than failing the whole series.
+ */
+export function useCensusTrend(
+  geography: CensusGeography,
+  dataset: CensusDataset,
+  enabled = true,
+) {
+  const years = CENSUS_YEARS[dataset]
+  return useQueries({
+    queries: years.map((year) => ({
+      queryKey: censusProfileQueryKey(geography, { year, dataset }),
+      queryFn: () => fetchGeographyCensusProfile(geography, { year, dataset }),
+      enabled,
+      staleTime: 1000 * 60 * 60 * 24,
+      gcTime: 1000 * 60 * 60 * 48,
+      // fetchGeographyCensusProfile retries on its own
+      retry: false,
+    })),
+    combine: (results) => ({
+      points: results.flatMap((result, i): CensusTrendPoint[] =>
+        result.data ? [{ year: years[i], profile: result.data }] : [],
+      ),
+      isLoading: results.some((result) => result.isLoading),
+      failedYears: results.flatMap((result, i) =>
+        result.isError ? [years[i]] : [],
+      ),
+    }),
+  })
+}
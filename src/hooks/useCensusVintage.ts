@@ -0,0 +1,33 @@
+import { useState } from "react"
+import {
+  CENSUS_YEARS,
+  DEFAULT_CENSUS_VINTAGE,
+  defaultComparisonYear,
+} from "@/lib/census"
+import type { CensusVintage } from "@/types/census"
+
+/**
+ * Selected Census vintage plus the earlier year to compare it with.
+ * Changing the vintage resets the comparison to its default, and a year
+ * missing from the new dataset snaps to that dataset's latest year.
+ */
+export function useCensusVintage(initial = DEFAULT_CENSUS_VINTAGE) {
+  const [vintage, setVintageState] = useState<CensusVintage>(initial)
+  const [compareYear, setCompareYear] = useState<number | null>(() =>
+    defaultComparisonYear(initial),
+  )
+
+  const setVintage = (next: CensusVintage) => {
+    const years = CENSUS_YEARS[next.dataset]
+    const resolved = years.includes(next.year)
+      ? next
+      : { ...next, year: years[years.length - 1] }
+    setVintageState(resolved)
+    setCompareYear(defaultComparisonYear(resolved))
+  }
+
+  const compareVintage: CensusVintage | null =
+    compareYear !== null ? { year: compareYear, dataset: vintage.dataset } : null
+
+  return { vintage, setVintage, compareYear, setCompareYear, compareVintage }
+}
@@ -0,0 +1,52 @@
+import { useQueryClient } from "@tanstack/react-query"
+import { allCountyCensusProfilesQueryOptions } from "@/hooks/useAllCountyCensusProfiles"
+import { useCountyBoundaries } from "@/hooks/useCountyBoundaries"
+import {
+  censusExportFilename,
+  exportCensusProfiles,
+  type CensusExportFormat,
+} from "@/lib/census-export"
+import { downloadBlob } from "@/lib/download"
+import type { CensusVintage } from "@/types/census"
+
+/**
+ * Download one table of every county in a state. Profiles come from the
+ * batched all-county query, fetched on demand; names from the county
+ * boundaries.
+ */
+export function useCountyCensusExport(
+  fipsState: string,
+  stateName: string,
+  vintage: CensusVintage,
+) {
+  const queryClient = useQueryClient()
+  const { data: boundaries } = useCountyBoundaries()
+
+  return async (format: CensusExportFormat) => {
+    const profiles = await queryClient.fetchQuery(
+      allCountyCensusProfilesQueryOptions(fipsState, vintage),
+    )
+    const names = new Map(
+      (boundaries?.features ?? []).map((feature) => [
+        feature.properties.boundary_identifier,
+        feature.properties.name,
+      ]),
+    )
+    const rows = Object.entries(profiles)
+      .map(([fipsCounty, profile]) => {
+        const fips = `${fipsState}${fipsCounty}`
+        const name = names.get(fips)
+        return {
+          geography: { name: name ? `${name} County` : fips, fips },
+          profile,
+        }
+      })
+      .sort((a, b) => a.geography.name.localeCompare(b.geography.name))
+
+    const blob = await exportCensusProfiles(rows, vintage, format)
+    downloadBlob(
+      blob,
+      censusExportFilename(`${stateName} counties`, vintage, format),
+    )
+  }
+}
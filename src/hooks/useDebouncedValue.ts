@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react"
+
+/**
+ * Return `value` once it has stopped changing for `delayMs`.
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query"
+import { fetchDistrictCensusProfile } from "@/api/census"
+import { censusProfileQueryKey, DEFAULT_CENSUS_VINTAGE } from "@/lib/census"
+import type {
+  CensusDistrictType,
+  CensusProfile,
+  CensusVintage,
+} from "@/types/census"
+
+/**
+ * Fetch Census ACS Data Profile for a congressional or state legislative
+ * district. Enabled only when the district number and a vintage are known.
+ */
+export function useDistrictCensusProfile(
+  fipsState: string | undefined,
+  districtType: CensusDistrictType | undefined,
+  districtNumber: string | null | undefined,
+  vintage: CensusVintage | null = DEFAULT_CENSUS_VINTAGE,
+) {
+  return useQuery<CensusProfile>({
+    queryKey: censusProfileQueryKey(
+      {
+        kind: "district",
+        fipsState: fipsState ?? "",
+        districtType: districtType ?? "congressional",
+        districtNumber: districtNumber ?? "",
+      },
+      vintage,
+    ),
+    queryFn: () =>
+      fetchDistrictCensusProfile(
+        fipsState!,
+        districtType!,
+        districtNumber!,
+        vintage!,
+      ),
+    enabled: !!fipsState && !!districtType && !!districtNumber && !!vintage,
+    staleTime: 1000 * 60 * 60 * 24,
+    gcTime: 1000 * 60 * 60 * 48,
+    retry: false,
+  })
+}
@@ -0,0 +1,36 @@
+import { useQueries, type UseQueryResult } from "@tanstack/react-query"
+import { api } from "@/api/client"
+import type { BoundaryDetailResponse } from "@/types/boundary"
+
+function collectGeometries(
+  results: UseQueryResult<BoundaryDetailResponse>[],
+) {
+  const geometries = new Map<string, Record<string, unknown>>()
+  for (const result of results) {
+    if (result.data?.geometry) {
+      geometries.set(result.data.id, result.data.geometry)
+    }
+  }
+  return {
+    geometries,
+    isLoading: results.some((r) => r.isLoading),
+  }
+}
+
+/**
+ * Fetch boundary detail (including geometry) for each boundary ID.
+ * Shares the ["boundaries", id] cache with `useCountyBoundary`.
+ * Returns a map of boundary ID → geometry for the boundaries loaded so far.
+ */
+export function useDistrictGeometries(boundaryIds: string[]) {
+  return useQueries({
+    queries: boundaryIds.map((boundaryId) => ({
+      queryKey: ["boundaries", boundaryId],
+      queryFn: () =>
+        api.get(`boundaries/${boundaryId}`).json<BoundaryDetailResponse>(),
+      staleTime: 1000 * 60 * 60,
+      gcTime: 1000 * 60 * 60 * 2,
+    })),
+    combine: collectGeometries,
+  })
+}
@@ -0,0 +1,38 @@
+import { skipToken, useQuery } from "@tanstack/react-query"
+import { getOfficialsProvider } from "@/api/officials"
+import { isOfficialBoundaryType, officialDistrictNumber } from "@/lib/officials"
+
+/**
+ * Office holders for a district. Skipped when no provider is configured,
+ * for boundary types without an elected seat (counties, precincts, ...)
+ * and when no district number can be read from the name or identifier.
+ */
+export function useElectedOfficials(
+  boundaryType: string | undefined,
+  name: string | undefined,
+  boundaryIdentifier: string | undefined,
+) {
+  const provider = getOfficialsProvider()
+  const officialType =
+    boundaryType && isOfficialBoundaryType(boundaryType) ? boundaryType : null
+  const district =
+    name !== undefined && boundaryIdentifier !== undefined
+      ? officialDistrictNumber(name, boundaryIdentifier)
+      : null
+
+  const query = useQuery({
+    queryKey: ["officials", provider?.id, officialType, district],
+    queryFn:
+      provider && officialType && district
+        ? ({ signal }) => provider.getOfficials(officialType, district, signal)
+        : skipToken,
+    staleTime: 1000 * 60 * 60 * 24,
+    gcTime: 1000 * 60 * 60 * 48,
+  })
+
+  return {
+    ...query,
+    isSupported: !!provider && !!officialType,
+    providerLabel: provider?.label,
+  }
+}
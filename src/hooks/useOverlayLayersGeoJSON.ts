@@ -0,0 +1,64 @@
+import { useQueries } from "@tanstack/react-query"
+import { api } from "@/api/client"
+import { fetchStaticGeoJSON } from "@/lib/static-geojson"
+import type {
+  OverlayLayerData,
+  OverlayLayerSettings,
+} from "@/lib/overlay-layers"
+import type { BoundaryFeatureCollection } from "@/types/boundary"
+
+function boundaryTypeGeoJSONQueryOptions(
+  boundaryType: string,
+  countyName: string | null,
+) {
+  return {
+    queryKey: ["boundaries", boundaryType, "geojson", countyName],
+    queryFn: async () => {
+      // Use static data only for statewide queries (no county filter)
+      if (!countyName) {
+        const cached =
+          await fetchStaticGeoJSON<BoundaryFeatureCollection>(boundaryType)
+        if (cached) return cached
+      }
+      return api
+        .get("boundaries/geojson", {
+          searchParams: {
+            boundary_type: boundaryType,
+            ...(countyName && { county: countyName }),
+          },
+        })
+        .json<BoundaryFeatureCollection>()
+    },
+    staleTime: 1000 * 60 * 60,
+    gcTime: 1000 * 60 * 60 * 2,
+  }
+}
+
+/**
+ * GeoJSON for each stacked overlay layer, in z-order. Layers still loading
+ * are left out of `overlays`; `featureCounts` is keyed by boundary type.
+ */
+export function useOverlayLayersGeoJSON(
+  layers: OverlayLayerSettings[],
+  countyName: string | null,
+  enabled = true,
+) {
+  return useQueries({
+    queries: layers.map((layer) => ({
+      ...boundaryTypeGeoJSONQueryOptions(layer.type, countyName),
+      enabled,
+    })),
+    combine: (results) => ({
+      overlays: results.flatMap((result, i): OverlayLayerData[] =>
+        result.data ? [{ settings: layers[i], data: result.data }] : [],
+      ),
+      featureCounts: Object.fromEntries(
+        results.map((result, i) => [
+          layers[i].type,
+          result.data ? result.data.features.length : null,
+        ]),
+      ) as Record<string, number | null>,
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  })
+}
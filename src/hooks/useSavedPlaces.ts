@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  addLookupHistoryEntry,
+  clearLookupHistory,
+  createSavedPlace,
+  deleteSavedPlace,
+  listLookupHistory,
+  listSavedPlaces,
+  updateSavedPlace,
+} from "@/lib/places"
+import { useAuthStore } from "@/stores/authStore"
+import type {
+  LookupHistoryEntry,
+  NewSavedPlace,
+  SavedPlace,
+} from "@/types/places"
+
+// History and saved places live in IndexedDB, scoped to the signed-in user.
+// They are deliberately not cleared on logout.
+
+function useOwner(): string | null {
+  return useAuthStore((state) => state.user?.id ?? null)
+}
+
+// --- Lookup history ---
+
+export function useLookupHistory() {
+  const owner = useOwner()
+  return useQuery({
+    queryKey: ["places", owner, "history"],
+    queryFn: () => listLookupHistory(owner!),
+    enabled: !!owner,
+    staleTime: Infinity,
+  })
+}
+
+export function useRecordLookup() {
+  const owner = useOwner()
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async (
+      entry: Omit<LookupHistoryEntry, "id" | "lookedUpAt" | "owner">,
+    ) => {
+      if (!owner) return
+      await addLookupHistoryEntry({ ...entry, owner })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["places", owner, "history"] })
+    },
+  })
+}
+
+export function useClearLookupHistory() {
+  const owner = useOwner()
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: () => clearLookupHistory(owner!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["places", owner, "history"] })
+    },
+  })
+}
+
+// --- Saved places ---
+
+export function useSavedPlaces() {
+  const owner = useOwner()
+  return useQuery({
+    queryKey: ["places", owner, "saved"],
+    queryFn: () => listSavedPlaces(owner!),
+    enabled: !!owner,
+    staleTime: Infinity,
+  })
+}
+
+export function useCreateSavedPlace() {
+  const owner = useOwner()
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (place: NewSavedPlace) => createSavedPlace(owner!, place),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["places", owner, "saved"] })
+    },
+  })
+}
+
+export function useUpdateSavedPlace() {
+  const owner = useOwner()
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({
+      place,
+      changes,
+    }: {
+      place: SavedPlace
+      changes: Partial<Pick<SavedPlace, "name" | "pinned">>
+    }) => updateSavedPlace(place, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["places", owner, "saved"] })
+    },
+  })
+}
+
+export function useDeleteSavedPlace() {
+  const owner = useOwner()
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => deleteSavedPlace(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["places", owner, "saved"] })
+    },
+  })
+}
@@ -1,19 +1,25 @@
 import { useQuery } from "@tanstack/react-query"
 import { fetchStateCensusProfile } from "@/api/census"
-import type { CensusProfile } from "@/types/census"
+import { censusProfileQueryKey, DEFAULT_CENSUS_VINTAGE } from "@/lib/census"
+import type { CensusProfile, CensusVintage } from "@/types/census"
 
 /**
- * Fetch Census ACS 5-Year Data Profile for a state.
- * Enabled only when the state FIPS code is provided.
+ * Fetch Census ACS Data Profile for a state.
+ * Enabled only when the state FIPS code and a vintage are provided.
  */
-export function useStateCensusProfile(fipsState: string | undefined) {
+export function useStateCensusProfile(
+  fipsState: string | undefined,
+  vintage: CensusVintage | null = DEFAULT_CENSUS_VINTAGE,
+) {
   return useQuery<CensusProfile>({
-    queryKey: ["census", "profile", "state", fipsState],
-    queryFn: () => fetchStateCensusProfile(fipsState!),
-    enabled: !!fipsState,
+    queryKey: censusProfileQueryKey(
+      { kind: "state", fipsState: fipsState ?? "" },
+      vintage,
+    ),
+    queryFn: () => fetchStateCensusProfile(fipsState!, vintage!),
+    enabled: !!fipsState && !!vintage,
     staleTime: 1000 * 60 * 60 * 24,
     gcTime: 1000 * 60 * 60 * 48,
-    retry: 2,
-    retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 10000),
+    retry: false,
   })
 }
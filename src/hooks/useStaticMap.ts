@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query"
+import { renderStaticMap } from "@/lib/static-map"
+import type { StaticMapOptions } from "@/lib/static-map"
+
+/** Render a static map snapshot and return it as a PNG data URL. */
+export function useStaticMap(options: StaticMapOptions | null) {
+  return useQuery({
+    queryKey: [
+      "static-map",
+      options?.latitude,
+      options?.longitude,
+      options?.zoom,
+      options?.width,
+      options?.height,
+    ],
+    queryFn: async () => {
+      const canvas = await renderStaticMap(options!)
+      return canvas.toDataURL("image/png")
+    },
+    enabled: options !== null,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 5,
+    retry: false,
+  })
+}
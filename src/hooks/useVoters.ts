@@ -0,0 +1,41 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { getVoter, searchVoters } from "@/api/voters"
+import { maskVoterDetail, maskVoterSummary } from "@/lib/pii"
+import type { VoterSearchParams } from "@/types/voters"
+
+// voter-api scopes PII to the caller's role. Anything it still returns in
+// full is masked inside the query function, so records a viewer fetched
+// never sit unmasked in the query cache. The scope is part of each key so
+// an admin signing in on the same tab does not reuse masked entries.
+const piiScope = (showPii: boolean) => (showPii ? "full" : "masked")
+
+/**
+ * Search registered voters. The previous page stays on screen while the
+ * next one loads so the table does not collapse during pagination.
+ */
+export function useVoterSearch(params: VoterSearchParams, showPii: boolean) {
+  return useQuery({
+    queryKey: ["voters", "search", piiScope(showPii), params],
+    queryFn: async ({ signal }) => {
+      const response = await searchVoters(params, signal)
+      return showPii
+        ? response
+        : { ...response, voters: response.voters.map(maskVoterSummary) }
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useVoter(voterId: string, showPii: boolean) {
+  return useQuery({
+    queryKey: ["voters", voterId, "detail", piiScope(showPii)],
+    queryFn: async ({ signal }) => {
+      const voter = await getVoter(voterId, signal)
+      return showPii ? voter : maskVoterDetail(voter)
+    },
+    enabled: !!voterId,
+    staleTime: 1000 * 60,
+    retry: 1,
+  })
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import {
+  availableBasemaps,
+  basemapSources,
+  plainAttribution,
+  resolveBasemap,
+} from '@/lib/basemaps'
+
+describe('basemapSources', () => {
+  it('uses the public tile servers by default', () => {
+    const sources = basemapSources({})
+    expect(Object.keys(sources)).toEqual([
+      'streets',
+      'light',
+      'dark',
+      'satellite',
+    ])
+    expect(sources.streets?.url).toContain('openstreetmap.org')
+  })
+
+  it('applies URL and attribution overrides', () => {
+    const sources = basemapSources({
+      VITE_BASEMAP_STREETS_URL: 'https://tiles.example.gov/{z}/{x}/{y}.png',
+      VITE_BASEMAP_STREETS_ATTRIBUTION: 'Example GIS',
+    })
+    expect(sources.streets).toEqual({
+      url: 'https://tiles.example.gov/{z}/{x}/{y}.png',
+      attribution: 'Example GIS',
+    })
+    expect(sources.light?.url).toContain('cartocdn.com')
+  })
+
+  it('drops basemaps whose URL is set to empty', () => {
+    const sources = basemapSources({ VITE_BASEMAP_SATELLITE_URL: '' })
+    expect(sources.satellite).toBeUndefined()
+    expect(availableBasemaps(sources)).toEqual([
+      'streets',
+      'light',
+      'dark',
+      'none',
+    ])
+  })
+})
+
+describe('resolveBasemap', () => {
+  const sources = basemapSources({})
+
+  it('follows the theme when automatic', () => {
+    expect(resolveBasemap('auto', 'light', sources)).toBe('streets')
+    expect(resolveBasemap('auto', 'dark', sources)).toBe('dark')
+  })
+
+  it('keeps an explicit choice regardless of theme', () => {
+    expect(resolveBasemap('satellite', 'dark', sources)).toBe('satellite')
+    expect(resolveBasemap('light', 'dark', sources)).toBe('light')
+    expect(resolveBasemap('none', 'light', sources)).toBe('none')
+  })
+
+  it('falls back when the chosen tiles are not configured', () => {
+    const streetsOnly = basemapSources({
+      VITE_BASEMAP_LIGHT_URL: '',
+      VITE_BASEMAP_DARK_URL: '',
+      VITE_BASEMAP_SATELLITE_URL: '',
+    })
+    expect(resolveBasemap('satellite', 'light', streetsOnly)).toBe('streets')
+    expect(resolveBasemap('auto', 'dark', streetsOnly)).toBe('streets')
+    expect(resolveBasemap('auto', 'dark', {})).toBe('none')
+  })
+})
+
+describe('plainAttribution', () => {
+  it('strips markup and entities', () => {
+    expect(
+      plainAttribution(
+        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      ),
+    ).toBe('© OpenStreetMap contributors')
+  })
+})
@@ -0,0 +1,142 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import censusVariables from '@/api/census-variables.json'
+import {
+  fetchAllCountyCensusProfiles,
+  fetchStateCensusProfile,
+} from '@/api/census'
+
+/** Every profile field set to `value`. */
+const everyField = (value: number) =>
+  Object.fromEntries(Object.values(censusVariables).map((f) => [f, value]))
+
+interface CensusRow {
+  geography: Record<string, string>
+  value: string
+}
+
+/** A Census API table answering `url`, with one value for every variable. */
+function censusTable(url: URL, rows: CensusRow[]): string[][] {
+  const codes = url.searchParams.get('get')!.split(',')
+  return [
+    [...codes, ...Object.keys(rows[0].geography)],
+    ...rows.map(({ geography, value }) => [
+      ...codes.map(() => value),
+      ...Object.values(geography),
+    ]),
+  ]
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/** Stub fetch, recording every Census API request made through it. */
+function stubFetch(handler: (url: URL) => Response) {
+  const apiRequests: string[] = []
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(
+        input instanceof Request ? input.url : String(input),
+        'http://localhost',
+      )
+      if (url.hostname === 'api.census.gov') apiRequests.push(url.href)
+      return handler(url)
+    }),
+  )
+  return apiRequests
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('fetchStateCensusProfile', () => {
+  it('should share in-flight requests between concurrent callers', async () => {
+    const apiRequests = stubFetch((url) =>
+      json(censusTable(url, [{ geography: { state: '01' }, value: '7' }])),
+    )
+
+    const [first, second] = await Promise.all([
+      fetchStateCensusProfile('01'),
+      fetchStateCensusProfile('01'),
+    ])
+
+    // Two batches of variables, each requested once
+    expect(apiRequests).toHaveLength(2)
+    expect(first).toEqual(second)
+    expect(first.totalPopulation).toBe(7)
+  })
+
+  it('should retry a failed request', async () => {
+    let attempts = 0
+    const apiRequests = stubFetch((url) => {
+      if (attempts++ === 0) return json({}, 503)
+      return json(
+        censusTable(url, [{ geography: { state: '02' }, value: '7' }]),
+      )
+    })
+
+    const profile = await fetchStateCensusProfile('02')
+
+    expect(profile.totalPopulation).toBe(7)
+    expect(apiRequests).toHaveLength(3)
+  })
+
+  it('should fall back to the snapshot when the API fails', async () => {
+    stubFetch((url) => {
+      if (url.pathname === '/census/acs5-2023/04.json') {
+        const batch = Object.keys(censusVariables)
+        return json({
+          fetchedAt: '2024-01-01T00:00:00Z',
+          fipsState: '04',
+          state: [
+            [
+              [...batch, 'state'],
+              [...batch.map(() => '9'), '04'],
+            ],
+          ],
+          counties: [],
+        })
+      }
+      return json({}, 400)
+    })
+
+    const profile = await fetchStateCensusProfile('04')
+
+    expect(profile.totalPopulation).toBe(9)
+  })
+
+  it('should report the API error when there is no snapshot', async () => {
+    stubFetch((url) =>
+      url.hostname === 'api.census.gov' ? json({}, 400) : json({}, 404),
+    )
+
+    await expect(fetchStateCensusProfile('05')).rejects.toThrow(
+      'Census API request failed: 400',
+    )
+  })
+})
+
+describe('fetchAllCountyCensusProfiles', () => {
+  it('should merge batched tables by county rather than row order', async () => {
+    let batch = 0
+    stubFetch((url) => {
+      const rows = [
+        { geography: { state: '06', county: '001' }, value: '1' },
+        { geography: { state: '06', county: '003' }, value: '3' },
+      ]
+      // Later batches list the counties in a different order
+      return json(censusTable(url, batch++ === 0 ? rows : rows.reverse()))
+    })
+
+    const profiles = await fetchAllCountyCensusProfiles('06')
+
+    expect(Object.keys(profiles).sort()).toEqual(['001', '003'])
+    expect(profiles['001']).toMatchObject(everyField(1))
+    expect(profiles['003']).toMatchObject(everyField(3))
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CENSUS_CACHE_TTL_MS,
+  isCensusCacheEntryFresh,
+  readCensusCache,
+} from '@/lib/census-cache'
+
+describe('isCensusCacheEntryFresh', () => {
+  it('should expire entries after the TTL', () => {
+    const now = Date.UTC(2024, 0, 8)
+    expect(isCensusCacheEntryFresh(now - 1000, now)).toBe(true)
+    expect(isCensusCacheEntryFresh(now - CENSUS_CACHE_TTL_MS, now)).toBe(false)
+  })
+})
+
+describe('readCensusCache', () => {
+  it('should read as a miss when IndexedDB is unavailable', async () => {
+    await expect(readCensusCache('acs5/2023?for=state:13')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  censusExportFilename,
+  censusProfileTable,
+  censusProfilesTable,
+  censusVariableCodes,
+} from '@/lib/census-export'
+import { CENSUS_FIELDS } from '@/lib/census-fields'
+import { columnName } from '@/lib/xlsx'
+import type { CensusProfile, CensusVintage } from '@/types/census'
+
+const vintage: CensusVintage = { year: 2023, dataset: 'acs5' }
+
+function makeProfile(value: number): CensusProfile {
+  const estimates = Object.fromEntries(
+    CENSUS_FIELDS.map(({ field }) => [field, value]),
+  )
+  const margins = Object.fromEntries(
+    CENSUS_FIELDS.map(({ field }) => [field, 1]),
+  )
+  return { ...estimates, margins } as unknown as CensusProfile
+}
+
+describe('censusVariableCodes', () => {
+  it('should pair estimate and margin codes', () => {
+    expect(censusVariableCodes('povertyRate')).toEqual({
+      estimate: 'DP03_0119PE',
+      margin: 'DP03_0119PM',
+    })
+  })
+})
+
+describe('censusProfileTable', () => {
+  it('should write one row per field with codes, FIPS and vintage', () => {
+    const table = censusProfileTable(
+      makeProfile(5),
+      { name: 'Fulton County', fips: '13121' },
+      vintage,
+    )
+    expect(table.rows).toHaveLength(CENSUS_FIELDS.length)
+    expect(table.rows[0]).toEqual([
+      'Fulton County',
+      '13121',
+      'ACS 5-Year 2023',
+      'Population & Age',
+      'Total Population',
+      'totalPopulation',
+      'DP05_0001E',
+      5,
+      'DP05_0001M',
+      1,
+    ])
+  })
+})
+
+describe('censusProfilesTable', () => {
+  it('should write one row per geography with estimate and MOE columns', () => {
+    const table = censusProfilesTable(
+      [
+        { geography: { name: 'A County', fips: '13001' }, profile: makeProfile(1) },
+        { geography: { name: 'B County', fips: '13003' }, profile: makeProfile(2) },
+      ],
+      vintage,
+    )
+    expect(table.headers).toHaveLength(3 + CENSUS_FIELDS.length * 2)
+    expect(table.headers[3]).toBe('Total Population (DP05_0001E)')
+    expect(table.rows.map((row) => row[1])).toEqual(['13001', '13003'])
+  })
+})
+
+describe('censusExportFilename', () => {
+  it('should slug the name and include the vintage', () => {
+    expect(censusExportFilename('Georgia counties', vintage, 'xlsx')).toBe(
+      'census-georgia-counties-acs5-2023.xlsx',
+    )
+  })
+})
+
+describe('columnName', () => {
+  it('should convert indexes to spreadsheet column letters', () => {
+    expect(columnName(0)).toBe('A')
+    expect(columnName(25)).toBe('Z')
+    expect(columnName(26)).toBe('AA')
+    expect(columnName(58)).toBe('BG')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import censusVariables from '@/api/census-variables.json'
+import {
+  CENSUS_FIELDS,
+  formatCensusValue,
+  formatOrdinal,
+  getCensusField,
+  percentileRank,
+} from '@/lib/census-fields'
+
+describe('CENSUS_FIELDS', () => {
+  it('should list each profile field once', () => {
+    const fields = CENSUS_FIELDS.map((f) => f.field)
+    expect(new Set(fields).size).toBe(fields.length)
+    expect(fields).toHaveLength(28)
+  })
+
+  it('should have an ACS variable for every field', () => {
+    const mapped = new Set(Object.values(censusVariables))
+    for (const { field } of CENSUS_FIELDS) {
+      expect(mapped).toContain(field)
+    }
+  })
+})
+
+describe('formatCensusValue', () => {
+  it('should format by field type', () => {
+    expect(formatCensusValue(39.4, getCensusField('medianAge'))).toBe(
+      '39.4 years',
+    )
+    expect(formatCensusValue(12.3, getCensusField('povertyRate'))).toBe('12.3%')
+    expect(formatCensusValue(null, getCensusField('medianAge'))).toBe('N/A')
+  })
+})
+
+describe('percentileRank', () => {
+  it('should count lower values and half of ties', () => {
+    expect(percentileRank(3, [1, 2, 3, 4])).toBe(62.5)
+    expect(percentileRank(1, [1, 2, 3, 4])).toBe(12.5)
+  })
+
+  it('should ignore missing values', () => {
+    expect(percentileRank(2, [1, null, 2, null])).toBe(75)
+    expect(percentileRank(null, [1, 2])).toBeNull()
+    expect(percentileRank(5, [null])).toBeNull()
+  })
+})
+
+describe('formatOrdinal', () => {
+  it('should use the right suffix', () => {
+    expect(formatOrdinal(1)).toBe('1st')
+    expect(formatOrdinal(22)).toBe('22nd')
+    expect(formatOrdinal(13)).toBe('13th')
+    expect(formatOrdinal(93)).toBe('93rd')
+  })
+})
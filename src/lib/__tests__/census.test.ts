@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  coefficientOfVariation,
+  computeCensusChange,
+  defaultComparisonYear,
+  formatCensusChange,
+  getCensusReliability,
+  populationPyramidRows,
+} from '@/lib/census'
+
+describe('defaultComparisonYear', () => {
+  it('should compare 5-year estimates with a non-overlapping period', () => {
+    expect(defaultComparisonYear({ year: 2024, dataset: 'acs5' })).toBe(2019)
+  })
+
+  it('should fall back to the earliest year when the target is not offered', () => {
+    expect(defaultComparisonYear({ year: 2023, dataset: 'acs5' })).toBe(2019)
+    expect(defaultComparisonYear({ year: 2021, dataset: 'acs5' })).toBe(2019)
+  })
+
+  it('should skip the missing 2020 release for 1-year estimates', () => {
+    expect(defaultComparisonYear({ year: 2021, dataset: 'acs1' })).toBe(2019)
+    expect(defaultComparisonYear({ year: 2023, dataset: 'acs1' })).toBe(2022)
+  })
+
+  it('should return null for the earliest vintage', () => {
+    expect(defaultComparisonYear({ year: 2019, dataset: 'acs1' })).toBeNull()
+  })
+})
+
+describe('computeCensusChange', () => {
+  it('should subtract rates and divide counts', () => {
+    expect(computeCensusChange(12.5, 10, 'points')).toBe(2.5)
+    expect(computeCensusChange(110, 100, 'relative')).toBeCloseTo(10)
+  })
+
+  it('should return null when a value is missing or the base is zero', () => {
+    expect(computeCensusChange(null, 10, 'points')).toBeNull()
+    expect(computeCensusChange(5, 0, 'relative')).toBeNull()
+  })
+})
+
+describe('formatCensusChange', () => {
+  it('should sign the change and label the unit', () => {
+    expect(formatCensusChange(12.5, 10, 'points')).toBe('+2.5 pts')
+    expect(formatCensusChange(90, 100, 'relative')).toBe('−10.0%')
+  })
+})
+
+describe('coefficientOfVariation', () => {
+  it('should convert a 90% margin to a relative standard error', () => {
+    expect(coefficientOfVariation(1000, 164.5)).toBeCloseTo(10)
+  })
+
+  it('should return null without a usable estimate or margin', () => {
+    expect(coefficientOfVariation(0, 10)).toBeNull()
+    expect(coefficientOfVariation(100, null)).toBeNull()
+  })
+})
+
+describe('getCensusReliability', () => {
+  it('should grade by CV thresholds', () => {
+    expect(getCensusReliability(5)).toBe('high')
+    expect(getCensusReliability(25)).toBe('medium')
+    expect(getCensusReliability(55)).toBe('low')
+    expect(getCensusReliability(null)).toBeNull()
+  })
+})
+
+describe('populationPyramidRows', () => {
+  it('should express counts as shares of the total, male negated', () => {
+    const rows = populationPyramidRows([
+      { label: '0–4', male: 10, female: 30 },
+      { label: '5–9', male: 40, female: 20 },
+    ])
+    expect(rows.map((row) => row.label)).toEqual(['5–9', '0–4'])
+    expect(rows[0].male).toBeCloseTo(-40)
+    expect(rows[0].female).toBeCloseTo(20)
+    expect(rows[1].female).toBeCloseTo(30)
+  })
+
+  it('should keep missing counts as null', () => {
+    const rows = populationPyramidRows([
+      { label: '0–4', male: null, female: 5 },
+    ])
+    expect(rows[0].male).toBeNull()
+    expect(rows[0].female).toBe(100)
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { classIndex, classifyValues, rampColors } from '@/lib/choropleth'
+
+const values = [1, 2, 3, 10, 11, 12, null]
+
+describe('classifyValues', () => {
+  it('should split into equal-count quantiles', () => {
+    expect(classifyValues(values, 'quantile', 3)).toEqual([1, 2, 10, 12])
+  })
+
+  it('should split the range into equal intervals', () => {
+    expect(classifyValues([0, 5, 10], 'equal-interval', 2)).toEqual([0, 5, 10])
+  })
+
+  it('should find natural breaks', () => {
+    expect(classifyValues(values, 'jenks', 2)).toEqual([1, 3, 12])
+    expect(classifyValues([1, 1, 2, 5, 6, 9, 20, 21], 'jenks', 3)).toEqual([
+      1, 2, 9, 21,
+    ])
+  })
+
+  it('should use fewer classes than values and skip missing data', () => {
+    expect(classifyValues([4, 8], 'quantile', 5)).toEqual([4, 4, 8])
+    expect(classifyValues([null], 'jenks', 5)).toEqual([])
+  })
+})
+
+describe('classIndex', () => {
+  it('should treat upper bounds as inclusive', () => {
+    const bounds = [1, 3, 12]
+    expect(classIndex(3, bounds)).toBe(0)
+    expect(classIndex(4, bounds)).toBe(1)
+    expect(classIndex(12, bounds)).toBe(1)
+    expect(classIndex(null, bounds)).toBeNull()
+  })
+})
+
+describe('rampColors', () => {
+  it('should keep the ends of the ramp', () => {
+    const colors = rampColors(3)
+    expect(colors).toHaveLength(3)
+    expect(colors[0]).toBe(rampColors(5)[0])
+    expect(colors[2]).toBe(rampColors(5)[4])
+  })
+})
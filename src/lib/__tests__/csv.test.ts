@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, toCsv } from '@/lib/csv'
+
+describe('parseCsv', () => {
+  it('should split headers from data rows', () => {
+    const result = parseCsv('name,address\nAlice,123 Main St\nBob,9 Elm St')
+    expect(result.headers).toEqual(['name', 'address'])
+    expect(result.rows).toEqual([
+      ['Alice', '123 Main St'],
+      ['Bob', '9 Elm St'],
+    ])
+  })
+
+  it('should handle quoted fields with commas, quotes and newlines', () => {
+    const result = parseCsv(
+      'address,note\n"123 Main St, Macon, GA","said ""hi""\nthen left"',
+    )
+    expect(result.rows).toEqual([
+      ['123 Main St, Macon, GA', 'said "hi"\nthen left'],
+    ])
+  })
+
+  it('should handle CRLF line endings and a byte order mark', () => {
+    const result = parseCsv('\uFEFFa,b\r\n1,2\r\n')
+    expect(result.headers).toEqual(['a', 'b'])
+    expect(result.rows).toEqual([['1', '2']])
+  })
+
+  it('should skip blank lines and pad short rows', () => {
+    const result = parseCsv('a,b,c\n\n1\n')
+    expect(result.rows).toEqual([['1', '', '']])
+  })
+
+  it('should return empty headers for empty input', () => {
+    expect(parseCsv('')).toEqual({ headers: [], rows: [] })
+  })
+})
+
+describe('toCsv', () => {
+  it('should quote fields that need escaping', () => {
+    const result = toCsv(['a', 'b'], [['x, y', 'say "hi"']])
+    expect(result).toBe('a,b\r\n"x, y","say ""hi"""')
+  })
+
+  it('should round-trip through parseCsv', () => {
+    const headers = ['address', 'note']
+    const rows = [['1 Main St, Atlanta', 'line one\nline two']]
+    expect(parseCsv(toCsv(headers, rows))).toEqual({ headers, rows })
+  })
+})
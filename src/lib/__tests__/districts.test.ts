@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { compareDistricts } from '@/lib/districts'
+import type { LookupDistrict } from '@/types/lookup'
+
+function district(boundary_type: string, boundary_id: string): LookupDistrict {
+  return {
+    boundary_type,
+    boundary_id,
+    name: boundary_id,
+    boundary_identifier: boundary_id,
+    metadata: {},
+  }
+}
+
+describe('compareDistricts', () => {
+  it('should align boundary types in display order with a status each', () => {
+    const rows = compareDistricts(
+      [
+        district('state_house', 'hd-1'),
+        district('county', 'fulton'),
+        district('school_board', 'sb-1'),
+      ],
+      [
+        district('county', 'fulton'),
+        district('state_house', 'hd-2'),
+        district('precinct', 'p-9'),
+      ],
+    )
+    expect(rows.map((r) => [r.boundaryType, r.status])).toEqual([
+      ['precinct', 'only-b'],
+      ['county', 'same'],
+      ['state_house', 'different'],
+      ['school_board', 'only-a'],
+    ])
+  })
+
+  it('should compare multiple districts of one type as a set', () => {
+    const [row] = compareDistricts(
+      [district('psc', 'psc-1'), district('psc', 'psc-2')],
+      [district('psc', 'psc-2'), district('psc', 'psc-1')],
+    )
+    expect(row.status).toBe('same')
+  })
+})
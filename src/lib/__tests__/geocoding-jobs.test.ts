@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatDuration,
+  getGeocodeJobEta,
+  getGeocodeJobThroughput,
+  getGeocodingProviderOptions,
+} from '@/lib/geocoding-jobs'
+import type { BatchGeocodeJob } from '@/types/lookup'
+
+const job: BatchGeocodeJob = {
+  id: 'job-1',
+  status: 'running',
+  total_records: 1000,
+  processed: 200,
+  succeeded: 190,
+  failed: 10,
+  cache_hits: 50,
+  started_at: '2026-01-01T00:00:00Z',
+  completed_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+}
+
+describe('getGeocodeJobThroughput', () => {
+  it('should divide processed records by elapsed seconds', () => {
+    const now = Date.parse('2026-01-01T00:01:40Z')
+    expect(getGeocodeJobThroughput(job, now)).toBe(2)
+  })
+
+  it('should measure finished jobs up to completion', () => {
+    const done = {
+      ...job,
+      status: 'completed' as const,
+      processed: 1000,
+      completed_at: '2026-01-01T00:08:20Z',
+    }
+    expect(getGeocodeJobThroughput(done, Date.now())).toBe(2)
+  })
+
+  it('should return null before any records are processed', () => {
+    expect(getGeocodeJobThroughput({ ...job, processed: 0 }, Date.now())).toBeNull()
+  })
+})
+
+describe('getGeocodeJobEta', () => {
+  it('should estimate remaining seconds for running jobs', () => {
+    expect(getGeocodeJobEta(job, 2)).toBe(400)
+    expect(getGeocodeJobEta({ ...job, status: 'completed' }, 2)).toBeNull()
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format seconds, minutes and hours', () => {
+    expect(formatDuration(42)).toBe('42s')
+    expect(formatDuration(400)).toBe('6m 40s')
+    expect(formatDuration(7260)).toBe('2h 1m')
+  })
+})
+
+describe('getGeocodingProviderOptions', () => {
+  it('should offer the known providers before any stats exist', () => {
+    expect(getGeocodingProviderOptions(undefined)).toEqual([
+      'census',
+      'nominatim',
+      'google',
+      'geocodio',
+    ])
+  })
+
+  it('should add providers found only in the cache stats', () => {
+    const entry = { count: 1, earliest: '', latest: '' }
+    expect(
+      getGeocodingProviderOptions({ census: entry, mapbox: entry }),
+    ).toEqual(['census', 'nominatim', 'google', 'geocodio', 'mapbox'])
+  })
+})
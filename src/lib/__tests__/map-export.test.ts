@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  exportStyle,
+  layoutMapExport,
+  mapExportSvg,
+  scaleBar,
+  styleLegendItem,
+  thinRing,
+  withPngDpi,
+  type MapExportScene,
+} from '@/lib/map-export'
+
+const scene: MapExportScene = {
+  title: 'Fulton & DeKalb',
+  width: 400,
+  height: 300,
+  shapes: [
+    {
+      rings: [
+        [
+          [10, 10],
+          [100, 10],
+          [100, 100],
+        ],
+      ],
+      style: exportStyle({ color: '#1e40af', fillColor: '#3b82f6' }),
+    },
+  ],
+  labels: [{ x: 50, y: 50, text: '89', fontSize: 12 }],
+  legend: [
+    {
+      title: 'Districts',
+      items: [{ label: 'State House', colors: ['#4363d8'], stroke: null }],
+    },
+  ],
+  metersPerPixel: 100,
+  attribution: 'Boundaries: U.S. Census Bureau',
+}
+
+describe('exportStyle', () => {
+  it('applies Leaflet defaults', () => {
+    expect(exportStyle({})).toEqual({
+      stroke: '#3388ff',
+      strokeWidth: 3,
+      strokeOpacity: 1,
+      dashArray: null,
+      fill: '#3388ff',
+      fillOpacity: 0.2,
+    })
+  })
+
+  it('parses dash arrays and drops transparent fills', () => {
+    const style = exportStyle({
+      color: '#6b7280',
+      fillColor: 'transparent',
+      dashArray: '6 4',
+    })
+    expect(style.dashArray).toEqual([6, 4])
+    expect(style.fill).toBeNull()
+  })
+})
+
+describe('styleLegendItem', () => {
+  it('uses the fill and outline of the style', () => {
+    expect(
+      styleLegendItem('District', { color: '#1e40af', fillColor: '#3b82f6' }),
+    ).toEqual({ label: 'District', colors: ['#3b82f6'], stroke: '#1e40af' })
+  })
+})
+
+describe('thinRing', () => {
+  it('drops points within the tolerance of the last kept point', () => {
+    expect(
+      thinRing([
+        [0, 0],
+        [0.2, 0.1],
+        [1, 0],
+        [1.3, 0.4],
+      ]),
+    ).toEqual([
+      [0, 0],
+      [1, 0],
+    ])
+  })
+})
+
+describe('scaleBar', () => {
+  it('rounds down to 1, 2 or 5 miles', () => {
+    // 120 px at 100 m/px is 7.46 miles
+    const bar = scaleBar(100)
+    expect(bar.label).toBe('5 mi')
+    expect(bar.width).toBeCloseTo(80.47, 1)
+  })
+
+  it('switches to feet below a tenth of a mile', () => {
+    // 120 px at 1 m/px is 394 feet
+    expect(scaleBar(1).label).toBe('200 ft')
+  })
+})
+
+describe('layoutMapExport', () => {
+  it('adds a title band and footer around the map', () => {
+    const layout = layoutMapExport(scene)
+    expect(layout.width).toBe(400)
+    expect(layout.height).toBe(300 + 40 + 28)
+    expect(layout.mapTop).toBe(40)
+  })
+
+  it('shifts map shapes below the title band', () => {
+    const [shape] = layoutMapExport(scene).primitives
+    expect(shape.kind).toBe('shape')
+    if (shape.kind === 'shape') expect(shape.rings[0][0]).toEqual([10, 50])
+  })
+})
+
+describe('mapExportSvg', () => {
+  it('writes the title, labels, legend, scale and attribution', () => {
+    const svg = mapExportSvg(scene)
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"')
+    expect(svg).toContain('>Fulton &amp; DeKalb</text>')
+    expect(svg).toContain('>89</text>')
+    expect(svg).toContain('>State House</text>')
+    expect(svg).toContain('>5 mi</text>')
+    expect(svg).toContain('>Boundaries: U.S. Census Bureau</text>')
+    expect(svg).toContain('d="M10 50L100 50L100 140Z"')
+  })
+})
+
+describe('withPngDpi', () => {
+  it('inserts a pHYs chunk right after IHDR', () => {
+    const png = new Uint8Array(33 + 12)
+    png.set([0x49, 0x45, 0x4e, 0x44], 37) // IEND chunk type
+    const result = withPngDpi(png, 300)
+    const view = new DataView(result.buffer)
+
+    expect(result.length).toBe(png.length + 21)
+    expect(view.getUint32(33)).toBe(9)
+    expect(String.fromCharCode(...result.subarray(37, 41))).toBe('pHYs')
+    // 300 dpi is 11811 pixels per meter
+    expect(view.getUint32(41)).toBe(11811)
+    expect(view.getUint32(45)).toBe(11811)
+    expect(result[49]).toBe(1)
+    expect(view.getUint32(50)).toBe(0x78a53f76)
+    expect(String.fromCharCode(...result.subarray(58, 62))).toBe('IEND')
+  })
+})
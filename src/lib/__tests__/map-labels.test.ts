@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  districtLabelText,
+  featureLabelPoint,
+  labelFontSize,
+  placeLabels,
+  polylabel,
+} from '@/lib/map-labels'
+
+describe('polylabel', () => {
+  it('should find the center of a square', () => {
+    const square = [
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+        [0, 0],
+      ],
+    ]
+    const { point, distance } = polylabel(square, 0.01)
+    expect(point[0]).toBeCloseTo(5, 1)
+    expect(point[1]).toBeCloseTo(5, 1)
+    expect(distance).toBeCloseTo(5, 1)
+  })
+
+  it('should stay inside a C-shaped polygon', () => {
+    // Centroid of this shape falls in the notch on the right
+    const cShape = [
+      [
+        [0, 0],
+        [10, 0],
+        [10, 3],
+        [3, 3],
+        [3, 7],
+        [10, 7],
+        [10, 10],
+        [0, 10],
+        [0, 0],
+      ],
+    ]
+    const { point, distance } = polylabel(cShape, 0.01)
+    expect(distance).toBeGreaterThan(0)
+    expect(point[0]).toBeLessThan(3)
+  })
+})
+
+describe('featureLabelPoint', () => {
+  it('should label the largest part of a multipolygon as [lat, lng]', () => {
+    const result = featureLabelPoint({
+      type: 'MultiPolygon',
+      coordinates: [
+        [
+          [
+            [-84, 33],
+            [-83.9, 33],
+            [-83.9, 33.1],
+            [-84, 33.1],
+            [-84, 33],
+          ],
+        ],
+        [
+          [
+            [-82, 31],
+            [-81, 31],
+            [-81, 32],
+            [-82, 32],
+            [-82, 31],
+          ],
+        ],
+      ],
+    })
+    expect(result?.latLng[0]).toBeCloseTo(31.5, 1)
+    expect(result?.latLng[1]).toBeCloseTo(-81.5, 1)
+    expect(result?.area).toBeCloseTo(1)
+  })
+})
+
+describe('districtLabelText', () => {
+  it('should shorten numbered districts to the number', () => {
+    expect(districtLabelText('Congressional District 05')).toBe('5')
+    expect(districtLabelText('State House District 112')).toBe('112')
+    expect(districtLabelText('Fulton')).toBe('Fulton')
+  })
+})
+
+describe('labelFontSize', () => {
+  it('should grow with zoom within limits', () => {
+    expect(labelFontSize(7)).toBe(11)
+    expect(labelFontSize(3)).toBe(10)
+    expect(labelFontSize(18)).toBe(16)
+  })
+})
+
+describe('placeLabels', () => {
+  it('should drop boxes that overlap an earlier one', () => {
+    expect(
+      placeLabels([
+        { x: 0, y: 0, width: 20, height: 10 },
+        { x: 10, y: 0, width: 20, height: 10 },
+        { x: 40, y: 0, width: 20, height: 10 },
+        null,
+      ]),
+    ).toEqual([true, false, true, false])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import type { Polygon } from 'geojson'
+import {
+  buildBoundarySearchItems,
+  buildCountySearchItems,
+  normalizeSearchText,
+  searchMapItems,
+} from '@/lib/map-search'
+import type { CountyFeatureCollection } from '@/types/boundaries'
+import type { BoundaryFeatureCollection } from '@/types/boundary'
+
+const square: Polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+  ],
+}
+
+const counties = {
+  type: 'FeatureCollection',
+  features: ['DeKalb', 'Dodge', 'Fulton'].map((name, i) => ({
+    type: 'Feature',
+    geometry: square,
+    properties: {
+      name,
+      boundary_type: 'county',
+      boundary_identifier: `1300${i}`,
+      source: 'test',
+      county: name,
+    },
+  })),
+} as CountyFeatureCollection
+
+const districts = {
+  type: 'FeatureCollection',
+  features: [
+    ['state_house', 'State House District 89'],
+    ['state_house', 'State House District 189'],
+    ['county_precinct', 'Precinct 12'],
+  ].map(([type, name], i) => ({
+    type: 'Feature',
+    id: String(i),
+    geometry: square,
+    properties: {
+      name,
+      boundary_type: type,
+      boundary_identifier: String(i),
+      source: 'test',
+      county: null,
+    },
+  })),
+} as unknown as BoundaryFeatureCollection
+
+const items = [
+  ...buildCountySearchItems(counties),
+  ...buildBoundarySearchItems(districts),
+]
+
+const labels = (query: string) =>
+  searchMapItems(items, query).map((item) => item.label)
+
+describe('normalizeSearchText', () => {
+  it('should lowercase, split on punctuation and drop leading zeros', () => {
+    expect(normalizeSearchText('HD-089')).toEqual(['hd', '89'])
+  })
+})
+
+describe('searchMapItems', () => {
+  it('should match county names by prefix and tolerate a typo', () => {
+    expect(labels('dekalb')).toEqual(['DeKalb County'])
+    expect(labels('do')).toEqual(['Dodge County'])
+    expect(labels('dekalbb')).toEqual(['DeKalb County'])
+  })
+
+  it('should match district abbreviations and exact numbers', () => {
+    expect(labels('HD 89')).toEqual(['State House District 89'])
+    expect(labels('house 189')).toEqual(['State House District 189'])
+  })
+
+  it('should find precincts without offering a detail page', () => {
+    const [precinct] = searchMapItems(items, 'precinct 12')
+    expect(precinct.kind).toBe('precinct')
+    expect(precinct.path).toBeNull()
+  })
+
+  it('should link counties and districts by slug', () => {
+    expect(searchMapItems(items, 'fulton')[0].path).toBe('/counties/ga/fulton')
+    expect(searchMapItems(items, 'hd 89')[0].path).toBe(
+      '/districts/state-house/state-house-district-89',
+    )
+  })
+
+  it('should return nothing for a blank query', () => {
+    expect(searchMapItems(items, '  ')).toEqual([])
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatTerm,
+  isOfficialBoundaryType,
+  officialDistrictNumber,
+  partyAbbreviation,
+} from '@/lib/officials'
+
+describe('officialDistrictNumber', () => {
+  it('should read the trailing number from the district name', () => {
+    expect(officialDistrictNumber('District 5', '1305')).toBe('5')
+    expect(officialDistrictNumber('State House District 105', 'x')).toBe('105')
+  })
+
+  it('should strip leading zeros', () => {
+    expect(officialDistrictNumber('District 007', '')).toBe('7')
+  })
+
+  it('should fall back to the identifier when the name has no number', () => {
+    expect(officialDistrictNumber('At Large', '03')).toBe('3')
+    expect(officialDistrictNumber('At Large', 'AL')).toBeNull()
+  })
+
+  it('should drop the state FIPS prefix from a GEOID identifier', () => {
+    expect(officialDistrictNumber('At Large', '1305')).toBe('5')
+    expect(officialDistrictNumber('At Large', '13105')).toBe('105')
+  })
+})
+
+describe('isOfficialBoundaryType', () => {
+  it('should accept only district types with an elected seat', () => {
+    expect(isOfficialBoundaryType('state_senate')).toBe(true)
+    expect(isOfficialBoundaryType('county')).toBe(false)
+  })
+})
+
+describe('partyAbbreviation', () => {
+  it('should abbreviate known and unknown parties', () => {
+    expect(partyAbbreviation('Democratic')).toBe('D')
+    expect(partyAbbreviation('Republican')).toBe('R')
+    expect(partyAbbreviation('Constitution')).toBe('C')
+    expect(partyAbbreviation(null)).toBeNull()
+  })
+})
+
+describe('formatTerm', () => {
+  it('should format a closed term and an open-ended one', () => {
+    expect(formatTerm('2025-01-03', '2027-01-03')).toBe('Jan 2025 – Jan 2027')
+    expect(formatTerm('2023-01-01', null)).toBe('Jan 2023 – present')
+    expect(formatTerm(null, null)).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOverlayLayer,
+  moveOverlayLayer,
+  overlayFeatureStyle,
+  overlayLayersSearchSchema,
+  resolveOverlayLayers,
+  setOverlayLayerTypes,
+} from '@/lib/overlay-layers'
+
+describe('overlayLayersSearchSchema', () => {
+  it('should fill in bad opacity and scheme values', () => {
+    expect(
+      overlayLayersSearchSchema.parse([
+        { type: 'state_house', opacity: 250, scheme: 'plaid' },
+      ]),
+    ).toEqual([
+      { type: 'state_house', opacity: 100, scheme: 'palette', labels: true },
+    ])
+  })
+
+  it('should drop a malformed layer list', () => {
+    expect(overlayLayersSearchSchema.parse('psc')).toBeUndefined()
+    expect(overlayLayersSearchSchema.parse([{ type: '../x' }])).toBeUndefined()
+  })
+})
+
+describe('resolveOverlayLayers', () => {
+  it('should upgrade a single legacy overlay', () => {
+    expect(resolveOverlayLayers(undefined, 'psc')).toEqual([
+      { type: 'psc', opacity: 100, scheme: 'palette', labels: true },
+    ])
+    expect(resolveOverlayLayers(undefined, undefined)).toEqual([])
+  })
+
+  it('should drop repeated types', () => {
+    const layer = createOverlayLayer('psc', [])
+    expect(resolveOverlayLayers([layer, layer], undefined)).toEqual([layer])
+  })
+})
+
+describe('setOverlayLayerTypes', () => {
+  it('should keep existing settings and give new layers an unused hue', () => {
+    const layers = [
+      { type: 'psc', opacity: 40, scheme: 'blue' as const, labels: false },
+    ]
+    const next = setOverlayLayerTypes(layers, ['psc', 'state_house'])
+    expect(next[0]).toBe(layers[0])
+    expect(next[1]).toEqual({
+      type: 'state_house',
+      opacity: 100,
+      scheme: 'red',
+      labels: true,
+    })
+    expect(setOverlayLayerTypes(next, ['state_house'])).toEqual([next[1]])
+  })
+})
+
+describe('moveOverlayLayer', () => {
+  it('should swap with the neighbour and ignore moves past either end', () => {
+    const layers = ['a', 'b', 'c'].map((type) => createOverlayLayer(type, []))
+    expect(moveOverlayLayer(layers, 0, 1).map((l) => l.type)).toEqual([
+      'b',
+      'a',
+      'c',
+    ])
+    expect(moveOverlayLayer(layers, 2, 1)).toBe(layers)
+  })
+})
+
+describe('overlayFeatureStyle', () => {
+  it('should scale opacity and apply single-hue colors', () => {
+    const style = overlayFeatureStyle({ opacity: 50, scheme: 'green' }, 0)
+    expect(style.fillColor).toBe('#3cb44b')
+    expect(style.fillOpacity).toBeCloseTo(0.125)
+    expect(style.opacity).toBeCloseTo(0.45)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canViewVoterPii,
+  maskGeocodedLocation,
+  maskStreetAddress,
+  maskTrailing,
+  maskVoterDetail,
+} from '@/lib/pii'
+import type { VoterDetail } from '@/types/voters'
+
+describe('canViewVoterPii', () => {
+  it('should allow admins and analysts only', () => {
+    expect(canViewVoterPii('admin')).toBe(true)
+    expect(canViewVoterPii('analyst')).toBe(true)
+    expect(canViewVoterPii('viewer')).toBe(false)
+    expect(canViewVoterPii(null)).toBe(false)
+  })
+})
+
+describe('maskTrailing', () => {
+  it('should keep only the last four characters', () => {
+    expect(maskTrailing('12345678')).toBe('••••5678')
+  })
+
+  it('should mask short values entirely', () => {
+    expect(maskTrailing('123')).toBe('•••')
+  })
+})
+
+describe('maskStreetAddress', () => {
+  it('should hide the house number and unit but keep the street', () => {
+    expect(maskStreetAddress('123 Peachtree St NE Apt 4B')).toBe(
+      '••• Peachtree St NE Apt •••',
+    )
+  })
+
+  it('should leave addresses without a house number unchanged', () => {
+    expect(maskStreetAddress('PO Box')).toBe('PO Box')
+  })
+})
+
+describe('maskVoterDetail', () => {
+  it('should drop demographics and mask identifiers', () => {
+    const voter: VoterDetail = {
+      id: 'v-1',
+      voter_registration_number: '00012345',
+      first_name: 'Jane',
+      middle_name: null,
+      last_name: 'Doe',
+      residence_address: '42 Oak Ave',
+      residence_city: 'Macon',
+      residence_zip: '31201',
+      county: 'Bibb',
+      precinct: 'HA1',
+      status: 'active',
+      registration_date: '2012-04-01',
+      suffix: null,
+      birth_year: 1980,
+      gender: 'F',
+      race: 'WH',
+      mailing_address: null,
+      status_reason: null,
+      last_contact_date: null,
+      last_vote_date: null,
+      districts: [],
+    }
+    const masked = maskVoterDetail(voter)
+    expect(masked).toMatchObject({
+      voter_registration_number: '••••2345',
+      residence_address: '••• Oak Ave',
+      birth_year: null,
+      gender: null,
+      race: null,
+      last_name: 'Doe',
+    })
+  })
+})
+
+describe('maskGeocodedLocation', () => {
+  it('should round coordinates and mask the input address', () => {
+    const masked = maskGeocodedLocation({
+      id: 'loc-1',
+      voter_id: 'v-1',
+      latitude: 32.840695,
+      longitude: -83.632402,
+      confidence_score: 0.97,
+      source_type: 'census',
+      is_primary: true,
+      input_address: '42 Oak Ave, Macon, GA 31201',
+      geocoded_at: '2024-01-01T00:00:00Z',
+    })
+    expect(masked).toMatchObject({
+      latitude: 32.84,
+      longitude: -83.63,
+      input_address: '••• Oak Ave, Macon, GA 31201',
+    })
+  })
+})
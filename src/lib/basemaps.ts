@@ -0,0 +1,104 @@
+export const BASEMAPS = ["streets", "light", "dark", "satellite", "none"] as const
+
+export type Basemap = (typeof BASEMAPS)[number]
+
+/** What the user picked; "auto" is streets, or dark under the dark theme. */
+export type BasemapChoice = Basemap | "auto"
+
+export const DEFAULT_BASEMAP_CHOICE: BasemapChoice = "auto"
+
+export const basemapLabels: Record<BasemapChoice, string> = {
+  auto: "Automatic",
+  streets: "Streets",
+  light: "Light",
+  dark: "Dark",
+  satellite: "Satellite",
+  none: "No basemap",
+}
+
+export interface BasemapSource {
+  /** XYZ template; may use {s} and {r} as Leaflet's TileLayer does */
+  url: string
+  /** HTML, shown in the map's attribution control */
+  attribution: string
+}
+
+type TiledBasemap = Exclude<Basemap, "none">
+
+const OSM_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+
+const DEFAULT_SOURCES: Record<TiledBasemap, BasemapSource> = {
+  streets: {
+    url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: OSM_ATTRIBUTION,
+  },
+  light: {
+    url: "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png",
+    attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+  },
+  dark: {
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+  },
+  satellite: {
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution:
+      "Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community",
+  },
+}
+
+/**
+ * Tile sources after applying `VITE_BASEMAP_<NAME>_URL` and
+ * `VITE_BASEMAP_<NAME>_ATTRIBUTION` overrides. Setting a URL to an empty
+ * string removes that basemap, e.g. satellite on an air-gapped network.
+ */
+export function basemapSources(
+  env: Record<string, string | undefined>,
+): Partial<Record<TiledBasemap, BasemapSource>> {
+  const sources: Partial<Record<TiledBasemap, BasemapSource>> = {}
+  for (const [basemap, fallback] of Object.entries(DEFAULT_SOURCES)) {
+    const prefix = `VITE_BASEMAP_${basemap.toUpperCase()}`
+    const url = env[`${prefix}_URL`] ?? fallback.url
+    if (!url) continue
+    sources[basemap as TiledBasemap] = {
+      url,
+      attribution: env[`${prefix}_ATTRIBUTION`] ?? fallback.attribution,
+    }
+  }
+  return sources
+}
+
+export const BASEMAP_SOURCES = basemapSources(import.meta.env)
+
+/** Basemaps offered in the switcher: the configured ones, plus none. */
+export function availableBasemaps(
+  sources = BASEMAP_SOURCES,
+): Basemap[] {
+  return BASEMAPS.filter(
+    (basemap) => basemap === "none" || sources[basemap] !== undefined,
+  )
+}
+
+/**
+ * The basemap to draw for a choice under the current app theme. A choice
+ * that isn't configured falls back to automatic, and automatic falls back
+ * to no basemap when its tiles aren't configured either.
+ */
+export function resolveBasemap(
+  choice: BasemapChoice,
+  theme: "light" | "dark",
+  sources = BASEMAP_SOURCES,
+): Basemap {
+  if (choice === "none") return "none"
+  if (choice !== "auto" && sources[choice]) return choice
+  const preferred = theme === "dark" ? "dark" : "streets"
+  if (sources[preferred]) return preferred
+  return sources.streets ? "streets" : "none"
+}
+
+/** Attribution as plain text, for drawing onto a canvas. */
+export function plainAttribution(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  return (doc.body.textContent ?? "").replace(/\s+/g, " ").trim()
+}
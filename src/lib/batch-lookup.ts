@@ -0,0 +1,201 @@
+import { HTTPError, TimeoutError } from "ky"
+import { pointLookup, verifyAddress } from "@/api/lookup"
+import { toCsv } from "@/lib/csv"
+import { boundaryTypeLabels, compareBoundaryTypes } from "@/lib/districts"
+import type { AddressSuggestion, LookupDistrict } from "@/types/lookup"
+
+/** Upper bound on rows accepted in a single batch upload. */
+export const MAX_BATCH_ROWS = 5000
+
+export const DEFAULT_BATCH_CONCURRENCY = 4
+export const DEFAULT_BATCH_RETRIES = 2
+
+export type BatchRowStatus =
+  | "pending"
+  | "verifying"
+  | "looking-up"
+  | "matched"
+  | "no-match"
+  | "failed"
+
+export interface BatchRowResult {
+  address: string
+  status: BatchRowStatus
+  attempts: number
+  suggestion?: AddressSuggestion
+  districts?: LookupDistrict[]
+  error?: string
+}
+
+export interface AddressDistricts {
+  suggestion: AddressSuggestion
+  districts: LookupDistrict[]
+}
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504])
+
+/**
+ * Whether a failed lookup is worth retrying: timeouts, rate limits,
+ * upstream errors and network failures. Aborts and 4xx responses are final.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return false
+  }
+  if (error instanceof HTTPError) {
+    return RETRYABLE_STATUS_CODES.has(error.response.status)
+  }
+  return error instanceof TimeoutError || error instanceof TypeError
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Run `fn` up to `maxRetries + 1` times, backing off exponentially
+ * (500ms, 1s, 2s… capped at 8s) between retryable failures.
+ */
+export async function withRetries<T>(
+  fn: (attempt: number) => Promise<T>,
+  maxRetries: number,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt > maxRetries || !isRetryableError(error)) throw error
+      await sleep(Math.min(500 * 2 ** (attempt - 1), 8000), signal)
+    }
+  }
+}
+
+/**
+ * Process `items` with at most `limit` workers in flight at once.
+ * Stops picking up new items once `signal` is aborted.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  let next = 0
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length && !signal?.aborted) {
+        const item = items[next++]
+        await worker(item)
+      }
+    },
+  )
+  await Promise.all(runners)
+}
+
+/**
+ * Verify an address, take the highest-confidence suggestion and look up
+ * every district containing it. Returns null when nothing matched.
+ */
+export async function lookupAddressDistricts(
+  address: string,
+  signal?: AbortSignal,
+  onVerified?: () => void,
+): Promise<AddressDistricts | null> {
+  const verified = await verifyAddress(address, signal)
+  const [best] = [...verified.suggestions].sort(
+    (a, b) => b.confidence_score - a.confidence_score,
+  )
+  if (!best) return null
+
+  onVerified?.()
+  const point = await pointLookup(
+    { lat: best.latitude, lng: best.longitude },
+    signal,
+  )
+  return { suggestion: best, districts: point.districts }
+}
+
+/**
+ * Build a single address string from one or more mapped CSV columns,
+ * e.g. street + city + zip → "123 Main St, Macon, 31201".
+ */
+export function composeAddress(row: string[], columnIndexes: number[]): string {
+  return columnIndexes
+    .map((index) => row[index]?.trim() ?? "")
+    .filter(Boolean)
+    .join(", ")
+}
+
+/**
+ * Append geocoding and district columns to the uploaded CSV.
+ * One column is added per boundary type found, ordered by `districtSortOrder`;
+ * multiple districts of the same type are joined with "; ".
+ */
+export function buildEnrichedCsv(
+  headers: string[],
+  rows: string[][],
+  results: BatchRowResult[],
+): string {
+  const boundaryTypes = [
+    ...new Set(
+      results.flatMap((r) => r.districts?.map((d) => d.boundary_type) ?? []),
+    ),
+  ].sort(compareBoundaryTypes)
+
+  const labels = boundaryTypes.map((type) => boundaryTypeLabels[type] ?? type)
+  const boundaryHeaders = boundaryTypes.map((type, i) =>
+    labels.indexOf(labels[i]) !== labels.lastIndexOf(labels[i])
+      ? `${labels[i]} (${type})`
+      : labels[i],
+  )
+
+  const enrichedHeaders = [
+    ...headers,
+    "Matched Address",
+    "Latitude",
+    "Longitude",
+    "Confidence",
+    "Lookup Status",
+    "Lookup Error",
+    ...boundaryHeaders,
+  ]
+
+  const enrichedRows = rows.map((row, index) => {
+    const result = results[index]
+    const suggestion = result?.suggestion
+    const districtColumns = boundaryTypes.map((type) =>
+      (result?.districts ?? [])
+        .filter((d) => d.boundary_type === type)
+        .map((d) => d.name)
+        .join("; "),
+    )
+    return [
+      ...row,
+      suggestion?.address ?? "",
+      suggestion ? String(suggestion.latitude) : "",
+      suggestion ? String(suggestion.longitude) : "",
+      suggestion ? String(suggestion.confidence_score) : "",
+      result?.status ?? "pending",
+      result?.error ?? "",
+      ...districtColumns,
+    ]
+  })
+
+  return toCsv(enrichedHeaders, enrichedRows)
+}
@@ -0,0 +1,53 @@
+import { STORES, requestToPromise, withStore } from "@/lib/db"
+
+/**
+ * How long a persisted census response is served before it is refetched.
+ * ACS estimates are released once a year, so a week only bounds how long
+ * a correction or renumbered variable takes to reach the client.
+ */
+export const CENSUS_CACHE_TTL_MS = 1000 * 60 * 60 * 24 * 7
+
+interface CensusCacheEntry<T> {
+  key: string
+  /** Epoch milliseconds */
+  fetchedAt: number
+  data: T
+}
+
+export function isCensusCacheEntryFresh(
+  fetchedAt: number,
+  now: number = Date.now(),
+): boolean {
+  return now - fetchedAt < CENSUS_CACHE_TTL_MS
+}
+
+/**
+ * Read a persisted census response. Expired entries, and an unavailable
+ * IndexedDB (private browsing, tests), read as a miss.
+ */
+export async function readCensusCache<T>(key: string): Promise<T | null> {
+  try {
+    const entry = await withStore(STORES.censusCache, "readonly", (store) =>
+      requestToPromise(store.get(key) as IDBRequest<CensusCacheEntry<T>>),
+    )
+    if (!entry || !isCensusCacheEntryFresh(entry.fetchedAt)) return null
+    return entry.data
+  } catch {
+    return null
+  }
+}
+
+/** Persist a census response. Failures are ignored; the cache is optional. */
+export async function writeCensusCache<T>(key: string, data: T): Promise<void> {
+  try {
+    await withStore(STORES.censusCache, "readwrite", (store) => {
+      store.put({
+        key,
+        fetchedAt: Date.now(),
+        data,
+      } satisfies CensusCacheEntry<T>)
+    })
+  } catch {
+    // Fall through: the response is still served from memory
+  }
+}
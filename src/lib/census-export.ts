@@ -0,0 +1,220 @@
+import censusVariables from "@/api/census-variables.json"
+import { censusDatasetLabels } from "@/lib/census"
+import { CENSUS_SECTIONS } from "@/lib/census-fields"
+import { toCsv } from "@/lib/csv"
+import { toXlsx, type XlsxCell } from "@/lib/xlsx"
+import type {
+  CensusEstimateField,
+  CensusProfile,
+  CensusVintage,
+} from "@/types/census"
+
+export type CensusExportFormat = "csv" | "json" | "xlsx"
+
+export const CENSUS_EXPORT_FORMATS: readonly CensusExportFormat[] = [
+  "csv",
+  "json",
+  "xlsx",
+]
+
+/** A geography being exported; `fips` is the full code, e.g. "13121". */
+export interface CensusExportGeography {
+  name: string
+  fips: string
+}
+
+const estimateCodes = Object.fromEntries(
+  Object.entries(censusVariables).map(([code, field]) => [field, code]),
+) as Record<CensusEstimateField, string>
+
+/** ACS estimate and margin of error variable codes for a profile field. */
+export function censusVariableCodes(field: CensusEstimateField): {
+  estimate: string
+  margin: string
+} {
+  const estimate = estimateCodes[field]
+  return { estimate, margin: estimate.replace(/E$/, "M") }
+}
+
+function vintageLabel({ year, dataset }: CensusVintage): string {
+  return `ACS ${censusDatasetLabels[dataset]} ${year}`
+}
+
+const FIELDS = CENSUS_SECTIONS.flatMap((section) =>
+  section.fields.map((definition) => ({
+    ...definition,
+    section: section.title,
+  })),
+)
+
+interface CensusTable {
+  headers: string[]
+  rows: XlsxCell[][]
+}
+
+/** One row per field: the long layout used for a single geography. */
+export function censusProfileTable(
+  profile: CensusProfile,
+  geography: CensusExportGeography,
+  vintage: CensusVintage,
+): CensusTable {
+  return {
+    headers: [
+      "Geography",
+      "FIPS",
+      "Vintage",
+      "Section",
+      "Measure",
+      "Field",
+      "ACS Variable",
+      "Estimate",
+      "ACS Margin Variable",
+      "Margin of Error",
+    ],
+    rows: FIELDS.map(({ field, label, section }) => {
+      const codes = censusVariableCodes(field)
+      return [
+        geography.name,
+        geography.fips,
+        vintageLabel(vintage),
+        section,
+        label,
+        field,
+        codes.estimate,
+        profile[field],
+        codes.margin,
+        profile.margins[field],
+      ]
+    }),
+  }
+}
+
+/**
+ * One row per geography and an estimate and margin column per field: the
+ * wide layout used for every county in a state.
+ */
+export function censusProfilesTable(
+  profiles: { geography: CensusExportGeography; profile: CensusProfile }[],
+  vintage: CensusVintage,
+): CensusTable {
+  return {
+    headers: [
+      "Geography",
+      "FIPS",
+      "Vintage",
+      ...FIELDS.flatMap(({ field, label }) => {
+        const codes = censusVariableCodes(field)
+        return [
+          `${label} (${codes.estimate})`,
+          `${label} MOE (${codes.margin})`,
+        ]
+      }),
+    ],
+    rows: profiles.map(({ geography, profile }) => [
+      geography.name,
+      geography.fips,
+      vintageLabel(vintage),
+      ...FIELDS.flatMap(({ field }) => [
+        profile[field],
+        profile.margins[field],
+      ]),
+    ]),
+  }
+}
+
+function profileJson(profile: CensusProfile) {
+  return FIELDS.map(({ field, label, section }) => ({
+    field,
+    label,
+    section,
+    variable: censusVariableCodes(field).estimate,
+    estimate: profile[field],
+    marginVariable: censusVariableCodes(field).margin,
+    marginOfError: profile.margins[field],
+  }))
+}
+
+/** Source citation included with every export. */
+function sourceLine(vintage: CensusVintage): string {
+  return `U.S. Census Bureau, American Community Survey ${censusDatasetLabels[vintage.dataset]} Estimates (${vintage.year}), Data Profile`
+}
+
+async function tableToBlob(
+  table: CensusTable,
+  format: "csv" | "xlsx",
+  sheetName: string,
+): Promise<Blob> {
+  if (format === "xlsx") {
+    return toXlsx(sheetName, table.headers, table.rows)
+  }
+  const csv = toCsv(
+    table.headers,
+    table.rows.map((row) =>
+      row.map((cell) => (cell === null ? "" : String(cell))),
+    ),
+  )
+  return new Blob([csv], { type: "text/csv;charset=utf-8" })
+}
+
+/** Export one geography's profile. */
+export async function exportCensusProfile(
+  profile: CensusProfile,
+  geography: CensusExportGeography,
+  vintage: CensusVintage,
+  format: CensusExportFormat,
+): Promise<Blob> {
+  if (format === "json") {
+    const json = {
+      geography,
+      vintage,
+      source: sourceLine(vintage),
+      fields: profileJson(profile),
+    }
+    return new Blob([JSON.stringify(json, null, 2)], {
+      type: "application/json",
+    })
+  }
+  return tableToBlob(
+    censusProfileTable(profile, geography, vintage),
+    format,
+    geography.name,
+  )
+}
+
+/** Export several geographies' profiles as one table. */
+export async function exportCensusProfiles(
+  profiles: { geography: CensusExportGeography; profile: CensusProfile }[],
+  vintage: CensusVintage,
+  format: CensusExportFormat,
+): Promise<Blob> {
+  if (format === "json") {
+    const json = {
+      vintage,
+      source: sourceLine(vintage),
+      geographies: profiles.map(({ geography, profile }) => ({
+        ...geography,
+        fields: profileJson(profile),
+      })),
+    }
+    return new Blob([JSON.stringify(json, null, 2)], {
+      type: "application/json",
+    })
+  }
+  return tableToBlob(
+    censusProfilesTable(profiles, vintage),
+    format,
+    "Census profiles",
+  )
+}
+
+export function censusExportFilename(
+  name: string,
+  vintage: CensusVintage,
+  format: CensusExportFormat,
+): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+  return `census-${base}-${vintage.dataset}-${vintage.year}.${format}`
+}
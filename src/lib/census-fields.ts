@@ -0,0 +1,219 @@
+import {
+  formatCurrency,
+  formatDecimal,
+  formatNumber,
+  formatPercent,
+} from "@/lib/formatters"
+import type { CensusEstimateField } from "@/types/census"
+
+export type CensusFieldFormat = "number" | "currency" | "percent" | "decimal"
+
+export interface CensusFieldDefinition {
+  field: CensusEstimateField
+  label: string
+  format: CensusFieldFormat
+  /** Suffix for decimal values, e.g. " years" */
+  unit?: string
+}
+
+export interface CensusSectionDefinition {
+  id: string
+  title: string
+  fields: CensusFieldDefinition[]
+}
+
+/**
+ * Profile fields grouped the way CensusProfileSections lays them out, for
+ * views that work from data rather than hand-written markup (comparison,
+ * choropleth, export).
+ */
+export const CENSUS_SECTIONS: CensusSectionDefinition[] = [
+  {
+    id: "population",
+    title: "Population & Age",
+    fields: [
+      { field: "totalPopulation", label: "Total Population", format: "number" },
+      {
+        field: "medianAge",
+        label: "Median Age",
+        format: "decimal",
+        unit: " years",
+      },
+      { field: "percentUnder18", label: "Under 18", format: "percent" },
+      { field: "percentOver65", label: "65 and Over", format: "percent" },
+    ],
+  },
+  {
+    id: "race",
+    title: "Race & Ethnicity",
+    fields: [
+      { field: "percentWhite", label: "White", format: "percent" },
+      {
+        field: "percentBlack",
+        label: "Black or African American",
+        format: "percent",
+      },
+      { field: "percentAsian", label: "Asian", format: "percent" },
+      {
+        field: "percentHispanicLatino",
+        label: "Hispanic or Latino",
+        format: "percent",
+      },
+    ],
+  },
+  {
+    id: "community",
+    title: "Community Profile",
+    fields: [
+      { field: "percentForeignBorn", label: "Foreign-Born", format: "percent" },
+      {
+        field: "percentNonEnglish",
+        label: "Language Other Than English at Home",
+        format: "percent",
+      },
+      { field: "percentVeterans", label: "Veterans", format: "percent" },
+    ],
+  },
+  {
+    id: "education",
+    title: "Education",
+    fields: [
+      {
+        field: "percentBachelorsOrHigher",
+        label: "Bachelor's Degree or Higher",
+        format: "percent",
+      },
+      {
+        field: "percentGraduateDegree",
+        label: "Graduate or Professional Degree",
+        format: "percent",
+      },
+    ],
+  },
+  {
+    id: "employment",
+    title: "Employment",
+    fields: [
+      { field: "unemploymentRate", label: "Unemployment Rate", format: "percent" },
+      { field: "percentWorkFromHome", label: "Work from Home", format: "percent" },
+    ],
+  },
+  {
+    id: "income",
+    title: "Income & Poverty",
+    fields: [
+      {
+        field: "medianHouseholdIncome",
+        label: "Median Household Income",
+        format: "currency",
+      },
+      { field: "perCapitaIncome", label: "Per Capita Income", format: "currency" },
+      { field: "povertyRate", label: "Poverty Rate", format: "percent" },
+      {
+        field: "percentSnap",
+        label: "SNAP/Food Stamp Recipients",
+        format: "percent",
+      },
+    ],
+  },
+  {
+    id: "health",
+    title: "Health & Accessibility",
+    fields: [
+      { field: "percentUninsured", label: "Uninsured", format: "percent" },
+      { field: "percentDisability", label: "With a Disability", format: "percent" },
+    ],
+  },
+  {
+    id: "housing",
+    title: "Housing",
+    fields: [
+      { field: "medianHomeValue", label: "Median Home Value", format: "currency" },
+      { field: "medianGrossRent", label: "Median Gross Rent", format: "currency" },
+      { field: "homeownershipRate", label: "Homeownership Rate", format: "percent" },
+      { field: "vacancyRate", label: "Vacancy Rate", format: "percent" },
+    ],
+  },
+  {
+    id: "transportation",
+    title: "Transportation & Technology",
+    fields: [
+      {
+        field: "meanCommuteTimeMinutes",
+        label: "Mean Commute Time",
+        format: "decimal",
+        unit: " min",
+      },
+      {
+        field: "percentNoVehicle",
+        label: "No Vehicle Available",
+        format: "percent",
+      },
+      { field: "percentBroadband", label: "Broadband Access", format: "percent" },
+    ],
+  },
+]
+
+export const CENSUS_FIELDS: CensusFieldDefinition[] = CENSUS_SECTIONS.flatMap(
+  (section) => section.fields,
+)
+
+export function getCensusField(
+  field: CensusEstimateField,
+): CensusFieldDefinition {
+  return CENSUS_FIELDS.find((definition) => definition.field === field)!
+}
+
+export function formatCensusValue(
+  value: number | null,
+  definition: CensusFieldDefinition,
+): string {
+  switch (definition.format) {
+    case "number":
+      return formatNumber(value)
+    case "currency":
+      return formatCurrency(value)
+    case "percent":
+      return formatPercent(value)
+    case "decimal":
+      return value === null
+        ? "N/A"
+        : `${formatDecimal(value)}${definition.unit ?? ""}`
+  }
+}
+
+/**
+ * Percentile rank (0–100) of a value within a population, counting ties
+ * as half below: the share of counties with a lower value.
+ */
+export function percentileRank(
+  value: number | null,
+  population: (number | null)[],
+): number | null {
+  if (value === null) return null
+  const values = population.filter((v): v is number => v !== null)
+  if (values.length === 0) return null
+  let below = 0
+  let equal = 0
+  for (const v of values) {
+    if (v < value) below++
+    else if (v === value) equal++
+  }
+  return ((below + equal / 2) / values.length) * 100
+}
+
+/** 1 → "1st", 22 → "22nd", 13 → "13th" */
+export function formatOrdinal(n: number): string {
+  const mod100 = n % 100
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`
+  switch (n % 10) {
+    case 1:
+      return `${n}st`
+    case 2:
+      return `${n}nd`
+    case 3:
+      return `${n}rd`
+    default:
+      return `${n}th`
+  }
+}
@@ -0,0 +1,176 @@
+import type {
+  CensusAgeSexBin,
+  CensusDataset,
+  CensusGeography,
+  CensusVintage,
+} from "@/types/census"
+
+export const DEFAULT_CENSUS_VINTAGE: CensusVintage = {
+  year: 2023,
+  dataset: "acs5",
+}
+
+export const censusDatasetLabels: Record<CensusDataset, string> = {
+  acs5: "5-Year",
+  acs1: "1-Year",
+}
+
+/**
+ * Vintages offered in the year selector, oldest first. Earlier releases
+ * use different Data Profile codes. The 2020 1-year release was
+ * experimental and is not served by the standard endpoint.
+ */
+export const CENSUS_YEARS: Record<CensusDataset, number[]> = {
+  acs5: [2019, 2020, 2021, 2022, 2023],
+  acs1: [2019, 2021, 2022, 2023],
+}
+
+/** "American Community Survey 5-Year Estimates (2023)" */
+export function formatVintage({ year, dataset }: CensusVintage): string {
+  const label = censusDatasetLabels[dataset]
+  return `American Community Survey ${label} Estimates (${year})`
+}
+
+/**
+ * Default vintage to compare against. 5-year estimates overlap, so the
+ * Census Bureau recommends comparing non-overlapping periods (five years
+ * apart); 1-year estimates compare with the prior year. Falls back to the
+ * closest earlier year on offer, or null when there is none.
+ */
+export function defaultComparisonYear({
+  year,
+  dataset,
+}: CensusVintage): number | null {
+  const target = dataset === "acs5" ? year - 5 : year - 1
+  const earlier = CENSUS_YEARS[dataset].filter((y) => y < year)
+  if (earlier.length === 0) return null
+  const atOrBefore = earlier.filter((y) => y <= target)
+  return atOrBefore.length > 0 ? atOrBefore[atOrBefore.length - 1] : earlier[0]
+}
+
+/** Query key segment identifying a geography. */
+export function censusGeographyKey(geography: CensusGeography): string[] {
+  switch (geography.kind) {
+    case "state":
+      return ["state", geography.fipsState]
+    case "county":
+      return ["county", geography.fipsState, geography.fipsCounty]
+    case "district":
+      return [
+        "district",
+        geography.fipsState,
+        geography.districtType,
+        geography.districtNumber,
+      ]
+  }
+}
+
+export function censusProfileQueryKey(
+  geography: CensusGeography,
+  vintage: CensusVintage | null,
+) {
+  return [
+    "census",
+    "profile",
+    ...censusGeographyKey(geography),
+    vintage?.dataset,
+    vintage?.year,
+  ]
+}
+
+/**
+ * How a change between vintages is expressed: percentage-point difference
+ * for rates, relative percent change for counts and dollar amounts.
+ */
+export type CensusChangeMode = "points" | "relative"
+
+export function computeCensusChange(
+  current: number | null,
+  previous: number | null,
+  mode: CensusChangeMode,
+): number | null {
+  if (current === null || previous === null) return null
+  if (mode === "points") return current - previous
+  if (previous === 0) return null
+  return ((current - previous) / Math.abs(previous)) * 100
+}
+
+/** "+1.2 pts", "−4.5%", or null when either value is missing. */
+export function formatCensusChange(
+  current: number | null,
+  previous: number | null,
+  mode: CensusChangeMode,
+): string | null {
+  const change = computeCensusChange(current, previous, mode)
+  if (change === null) return null
+  const sign = change > 0 ? "+" : change < 0 ? "−" : "±"
+  const magnitude = Math.abs(change).toLocaleString("en-US", {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  })
+  return mode === "points" ? `${sign}${magnitude} pts` : `${sign}${magnitude}%`
+}
+
+/** ACS margins of error are published at the 90% confidence level. */
+const Z_90 = 1.645
+
+/**
+ * Coefficient of variation as a percentage: the standard error relative
+ * to the estimate. Null when either value is missing or the estimate is 0.
+ */
+export function coefficientOfVariation(
+  estimate: number | null,
+  margin: number | null,
+): number | null {
+  if (estimate === null || margin === null || estimate === 0) return null
+  return (margin / Z_90 / Math.abs(estimate)) * 100
+}
+
+export type CensusReliability = "high" | "medium" | "low"
+
+/**
+ * CV cut-offs commonly used for ACS data: up to 12% is reliable, up to
+ * 40% should be used with caution, above that the estimate is unreliable.
+ */
+export const CV_THRESHOLDS = { caution: 12, unreliable: 40 }
+
+export function getCensusReliability(
+  cv: number | null,
+): CensusReliability | null {
+  if (cv === null) return null
+  if (cv > CV_THRESHOLDS.unreliable) return "low"
+  if (cv > CV_THRESHOLDS.caution) return "medium"
+  return "high"
+}
+
+export interface PopulationPyramidRow {
+  label: string
+  /** Percent of the total population, negated so bars extend left */
+  male: number | null
+  female: number | null
+}
+
+/**
+ * Convert age-by-sex counts to shares of the whole population for a
+ * pyramid chart, oldest band first so it renders at the top.
+ */
+export function populationPyramidRows(
+  bins: CensusAgeSexBin[],
+): PopulationPyramidRow[] {
+  const total = bins.reduce(
+    (sum, bin) => sum + (bin.male ?? 0) + (bin.female ?? 0),
+    0,
+  )
+  const share = (count: number | null) =>
+    count === null || total === 0 ? null : (count / total) * 100
+  return bins
+    .map((bin) => {
+      const male = share(bin.male)
+      return {
+        label: bin.label,
+        male: male === null ? null : -male,
+        female: share(bin.female),
+      }
+    })
+    .reverse()
+}
@@ -0,0 +1,194 @@
+import {
+  formatCensusValue,
+  type CensusFieldDefinition,
+} from "@/lib/census-fields"
+
+export type ClassificationMethod = "quantile" | "equal-interval" | "jenks"
+
+export const CLASSIFICATION_METHODS: readonly ClassificationMethod[] = [
+  "quantile",
+  "equal-interval",
+  "jenks",
+]
+
+export const classificationMethodLabels: Record<ClassificationMethod, string> =
+  {
+    quantile: "Quantile",
+    "equal-interval": "Equal interval",
+    jenks: "Natural breaks (Jenks)",
+  }
+
+/**
+ * Sequential viridis ramp, light to dark. Perceptually uniform and
+ * distinguishable under the common forms of color blindness.
+ */
+export const CHOROPLETH_RAMP = [
+  "#fde725",
+  "#5ec962",
+  "#21918c",
+  "#3b528b",
+  "#440154",
+]
+
+/** classCount colors spread evenly across the ramp. */
+export function rampColors(classCount: number): string[] {
+  if (classCount <= 1) return [CHOROPLETH_RAMP[CHOROPLETH_RAMP.length - 1]]
+  const last = CHOROPLETH_RAMP.length - 1
+  return Array.from(
+    { length: classCount },
+    (_, i) => CHOROPLETH_RAMP[Math.round((i * last) / (classCount - 1))],
+  )
+}
+
+export const CHOROPLETH_NO_DATA_COLOR = "#d1d5db"
+
+/** Shading for the statewide county map, keyed by 5-digit county FIPS. */
+export interface CountyChoropleth {
+  field: CensusFieldDefinition
+  method: ClassificationMethod
+  values: Record<string, number | null>
+  /** Class bounds from classifyValues */
+  bounds: number[]
+  colors: string[]
+}
+
+function quantileBounds(sorted: number[], classCount: number): number[] {
+  const n = sorted.length
+  const inner = Array.from(
+    { length: classCount - 1 },
+    (_, i) => sorted[Math.ceil(((i + 1) * n) / classCount) - 1],
+  )
+  return [sorted[0], ...inner, sorted[n - 1]]
+}
+
+function equalIntervalBounds(sorted: number[], classCount: number): number[] {
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  const step = (max - min) / classCount
+  const inner = Array.from(
+    { length: classCount - 1 },
+    (_, i) => min + step * (i + 1),
+  )
+  return [min, ...inner, max]
+}
+
+/**
+ * Fisher–Jenks natural breaks: the split into classCount contiguous classes
+ * that minimises the total within-class variance.
+ */
+function jenksBounds(sorted: number[], classCount: number): number[] {
+  const n = sorted.length
+  // lowerLimits[l][j]: 1-based index of the first value of class j when the
+  // first l values are split into j classes; variances[l][j] its cost
+  const lowerLimits = Array.from({ length: n + 1 }, () =>
+    new Array<number>(classCount + 1).fill(0),
+  )
+  const variances = Array.from({ length: n + 1 }, () =>
+    new Array<number>(classCount + 1).fill(Infinity),
+  )
+  for (let j = 1; j <= classCount; j++) {
+    lowerLimits[1][j] = 1
+    variances[1][j] = 0
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0
+    let sumSquares = 0
+    let variance = 0
+    for (let m = 1; m <= l; m++) {
+      const lowerLimit = l - m + 1
+      const value = sorted[lowerLimit - 1]
+      sum += value
+      sumSquares += value * value
+      variance = sumSquares - (sum * sum) / m
+      const previous = lowerLimit - 1
+      if (previous === 0) continue
+      for (let j = 2; j <= classCount; j++) {
+        const cost = variance + variances[previous][j - 1]
+        if (variances[l][j] >= cost) {
+          lowerLimits[l][j] = lowerLimit
+          variances[l][j] = cost
+        }
+      }
+    }
+    lowerLimits[l][1] = 1
+    variances[l][1] = variance
+  }
+
+  const inner: number[] = []
+  let end = n
+  for (let j = classCount; j >= 2; j--) {
+    const lowerLimit = lowerLimits[end][j]
+    inner.unshift(sorted[lowerLimit - 2])
+    end = lowerLimit - 1
+  }
+  return [sorted[0], ...inner, sorted[n - 1]]
+}
+
+/**
+ * Class bounds for a set of values: [min, upper bound of class 1, ...,
+ * max]. Missing values are ignored; fewer values than classes yields fewer
+ * classes. Returns [] when there is nothing to classify.
+ */
+export function classifyValues(
+  values: (number | null)[],
+  method: ClassificationMethod,
+  classCount: number,
+): number[] {
+  const sorted = values
+    .filter((v): v is number => v !== null)
+    .sort((a, b) => a - b)
+  if (sorted.length === 0) return []
+  const count = Math.min(classCount, sorted.length)
+
+  switch (method) {
+    case "quantile":
+      return quantileBounds(sorted, count)
+    case "equal-interval":
+      return equalIntervalBounds(sorted, count)
+    case "jenks":
+      return jenksBounds(sorted, count)
+  }
+}
+
+/**
+ * Class of a value given bounds from classifyValues. Upper bounds are
+ * inclusive; null for a missing value.
+ */
+export function classIndex(
+  value: number | null,
+  bounds: number[],
+): number | null {
+  if (value === null || bounds.length < 2) return null
+  const classCount = bounds.length - 1
+  for (let i = 1; i < classCount; i++) {
+    if (value <= bounds[i]) return i - 1
+  }
+  return classCount - 1
+}
+
+/** Fill color for a county, or the no-data color when it has no value. */
+export function choroplethColor(
+  choropleth: CountyChoropleth,
+  fips: string,
+): string {
+  const index = classIndex(choropleth.values[fips] ?? null, choropleth.bounds)
+  return index === null
+    ? CHOROPLETH_NO_DATA_COLOR
+    : choropleth.colors[index]
+}
+
+/** Legend rows: one per class, plus no data when any county lacks a value. */
+export function choroplethLegendItems(
+  choropleth: CountyChoropleth,
+): { label: string; color: string }[] {
+  const { field, bounds, colors, values } = choropleth
+  const items = colors.map((color, i) => ({
+    label: `${formatCensusValue(bounds[i], field)} – ${formatCensusValue(bounds[i + 1], field)}`,
+    color,
+  }))
+  if (Object.values(values).some((value) => value === null)) {
+    items.push({ label: "No data", color: CHOROPLETH_NO_DATA_COLOR })
+  }
+  return items
+}
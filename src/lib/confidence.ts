@@ -0,0 +1,42 @@
+/**
+ * Geocoding confidence thresholds (0–1). Scores below `warning` get a
+ * review banner on lookup results; below `critical` it is shown as an
+ * error, since the point is likely a street or ZIP centroid rather than
+ * the rooftop.
+ *
+ * Override per deployment with VITE_CONFIDENCE_WARNING_THRESHOLD and
+ * VITE_CONFIDENCE_CRITICAL_THRESHOLD.
+ */
+export interface ConfidenceThresholds {
+  warning: number
+  critical: number
+}
+
+function readThreshold(value: unknown, fallback: number): number {
+  const parsed = typeof value === "string" ? Number.parseFloat(value) : NaN
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 1
+    ? parsed
+    : fallback
+}
+
+export const CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  warning: readThreshold(
+    import.meta.env.VITE_CONFIDENCE_WARNING_THRESHOLD,
+    0.8,
+  ),
+  critical: readThreshold(
+    import.meta.env.VITE_CONFIDENCE_CRITICAL_THRESHOLD,
+    0.5,
+  ),
+}
+
+export type ConfidenceLevel = "high" | "low" | "very-low"
+
+export function getConfidenceLevel(
+  score: number,
+  thresholds: ConfidenceThresholds = CONFIDENCE_THRESHOLDS,
+): ConfidenceLevel {
+  if (score < thresholds.critical) return "very-low"
+  if (score < thresholds.warning) return "low"
+  return "high"
+}
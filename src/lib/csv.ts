@@ -0,0 +1,93 @@
+/**
+ * Minimal RFC 4180 CSV parsing and serialization.
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF line endings
+ * and a leading UTF-8 byte order mark.
+ */
+
+export interface ParsedCsv {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Parse CSV text into a header row and data rows.
+ * Blank lines are skipped. Rows shorter than the header are padded with "".
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+  let i = text.startsWith("\uFEFF") ? 1 : 0
+
+  const endRecord = () => {
+    record.push(field)
+    field = ""
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record)
+    }
+    record = []
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      endRecord()
+      if (char === "\r" && text[i + 1] === "\n") i++
+    } else {
+      field += char
+    }
+    i++
+  }
+
+  if (field !== "" || record.length > 0) {
+    endRecord()
+  }
+
+  const [headers = [], ...rows] = records
+  return {
+    headers: headers.map((h) => h.trim()),
+    rows: rows.map((row) =>
+      row.length < headers.length
+        ? [...row, ...Array<string>(headers.length - row.length).fill("")]
+        : row,
+    ),
+  }
+}
+
+function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replaceAll('"', '""')}"`
+  }
+  return value
+}
+
+/**
+ * Serialize a header row and data rows to CSV text with CRLF line endings.
+ */
+export function toCsv(headers: string[], rows: string[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n")
+}
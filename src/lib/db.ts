@@ -0,0 +1,88 @@
+/**
+ * Versioned IndexedDB storage for client-side data that should outlive a
+ * session (and a logout), such as lookup history, saved places and cached
+ * census responses.
+ *
+ * Schema changes are added as a new entry in `migrations` keyed by the
+ * version they upgrade to; never edit a migration that has shipped.
+ */
+
+const DB_NAME = "voter-web"
+
+export const STORES = {
+  lookupHistory: "lookupHistory",
+  savedPlaces: "savedPlaces",
+  censusCache: "censusCache",
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+const migrations: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    const history = db.createObjectStore(STORES.lookupHistory, {
+      keyPath: "id",
+    })
+    history.createIndex("owner", "owner")
+
+    const places = db.createObjectStore(STORES.savedPlaces, { keyPath: "id" })
+    places.createIndex("owner", "owner")
+  },
+  2: (db) => {
+    db.createObjectStore(STORES.censusCache, { keyPath: "key" })
+  },
+}
+
+const DB_VERSION = Math.max(...Object.keys(migrations).map(Number))
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/** Wrap an IDBRequest in a Promise. */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Open (and upgrade, if needed) the shared database. */
+export function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        migrations[v]?.(request.result)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch((error: unknown) => {
+    dbPromise = null
+    throw error
+  })
+  return dbPromise
+}
+
+/**
+ * Run `fn` against one object store inside a transaction and resolve
+ * once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase()
+  const tx = db.transaction(storeName, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  const result = await fn(tx.objectStore(storeName))
+  await done
+  return result
+}
@@ -0,0 +1,139 @@
+import { compareBoundaryTypes, districtTypeLabels } from "@/lib/districts"
+import type { LookupDistrict } from "@/types/lookup"
+
+export const DISTRICT_CARD_VERSION = 1
+
+export interface DistrictCardEntry {
+  boundaryType: string
+  label: string
+  name: string
+  identifier: string
+}
+
+/**
+ * Portable, vCard-like description of the districts at one location.
+ * The shape is versioned so other tools can read exported cards.
+ */
+export interface DistrictCard {
+  kind: "voter-district-card"
+  version: typeof DISTRICT_CARD_VERSION
+  address: string | null
+  latitude: number
+  longitude: number
+  generatedAt: string
+  districts: DistrictCardEntry[]
+}
+
+export function buildDistrictCard(
+  location: { latitude: number; longitude: number; address: string | null },
+  districts: LookupDistrict[],
+  now: Date = new Date(),
+): DistrictCard {
+  const entries = [...districts]
+    .sort((a, b) => compareBoundaryTypes(a.boundary_type, b.boundary_type))
+    .map((district) => ({
+      boundaryType: district.boundary_type,
+      label:
+        districtTypeLabels[district.boundary_type] ?? district.boundary_type,
+      name: district.name,
+      identifier: district.boundary_identifier,
+    }))
+
+  return {
+    kind: "voter-district-card",
+    version: DISTRICT_CARD_VERSION,
+    address: location.address,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    generatedAt: now.toISOString(),
+    districts: entries,
+  }
+}
+
+export function districtCardFilename(card: DistrictCard, ext: string): string {
+  const base = (card.address ?? `${card.latitude}_${card.longitude}`)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60)
+  return `district-card-${base}.${ext}`
+}
+
+export function districtCardToJson(card: DistrictCard): Blob {
+  return new Blob([JSON.stringify(card, null, 2)], {
+    type: "application/json",
+  })
+}
+
+/**
+ * Render the card as a single-page, half-letter PDF. `mapImage` is an
+ * optional PNG data URL from `renderStaticMap`. jsPDF is loaded on demand
+ * so it stays out of the main bundle.
+ */
+export async function districtCardToPdf(
+  card: DistrictCard,
+  mapImage?: string,
+): Promise<Blob> {
+  const { jsPDF } = await import("jspdf")
+  const doc = new jsPDF({ unit: "pt", format: [396, 612] })
+  const margin = 28
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - margin * 2
+  // Rows stop above the footer line
+  const bottom = pageHeight - margin - 16
+  let y = margin + 8
+
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(16)
+  doc.text("Voter District Card", margin, y)
+  y += 18
+
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(10)
+  const location =
+    card.address ??
+    `${card.latitude.toFixed(5)}, ${card.longitude.toFixed(5)}`
+  const locationLines = doc.splitTextToSize(location, contentWidth) as string[]
+  doc.text(locationLines, margin, y)
+  y += locationLines.length * 12 + 6
+
+  if (mapImage) {
+    const mapHeight = contentWidth / 2
+    doc.addImage(mapImage, "PNG", margin, y, contentWidth, mapHeight)
+    y += mapHeight + 14
+  }
+
+  const labelWidth = contentWidth * 0.45
+  for (const entry of card.districts) {
+    const nameLines = doc.splitTextToSize(
+      entry.name,
+      contentWidth - labelWidth,
+    ) as string[]
+    const rowHeight = nameLines.length * 12 + 8
+    if (y + rowHeight > bottom) {
+      doc.addPage()
+      y = margin + 8
+    }
+    doc.setTextColor(100)
+    doc.text(entry.label, margin, y)
+    doc.setTextColor(0)
+    doc.setFont("helvetica", "bold")
+    doc.text(nameLines, margin + labelWidth, y)
+    doc.setFont("helvetica", "normal")
+    y += (nameLines.length - 1) * 12 + 6
+    doc.setDrawColor(220)
+    doc.line(margin, y, pageWidth - margin, y)
+    y += 14
+  }
+
+  doc.setFontSize(8)
+  doc.setTextColor(120)
+  doc.text(
+    `Generated ${new Date(card.generatedAt).toLocaleDateString()}`,
+    margin,
+    pageHeight - margin,
+  )
+
+  return doc.output("blob")
+}
@@ -0,0 +1,136 @@
+import type { LookupDistrict } from "@/types/lookup"
+
+/** Display order for boundary types, from most local to most regional. */
+export const districtSortOrder: Record<string, number> = {
+  precinct: 0,
+  county_precinct: 0,
+  county: 1,
+  commission_district: 2,
+  county_commission: 2,
+  congressional: 3,
+  congressional_district: 3,
+  state_senate: 4,
+  state_house: 5,
+  school_district: 6,
+  school_board: 6,
+  psc: 7,
+}
+
+/** Plural, human-readable labels for boundary type group headings. */
+export const boundaryTypeLabels: Record<string, string> = {
+  precinct: "Voting Precincts",
+  county_precinct: "Voting Precincts",
+  county: "Counties",
+  commission_district: "Commission Districts",
+  county_commission: "County Commission Districts",
+  congressional: "Congressional Districts",
+  congressional_district: "Congressional Districts",
+  state_senate: "State Senate Districts",
+  state_house: "State House Districts",
+  school_district: "School Districts",
+  school_board: "School Board Districts",
+  psc: "Public Service Commission Districts",
+}
+
+/** Singular labels for a single district's boundary type. */
+export const districtTypeLabels: Record<string, string> = {
+  precinct: "Voting Precinct",
+  county_precinct: "Voting Precinct",
+  county: "County",
+  commission_district: "Commission District",
+  county_commission: "County Commission District",
+  congressional: "Congressional District",
+  congressional_district: "Congressional District",
+  state_senate: "State Senate District",
+  state_house: "State House District",
+  school_district: "School District",
+  school_board: "School Board District",
+  psc: "Public Service Commission District",
+}
+
+export interface DistrictGroup {
+  boundaryType: string
+  label: string
+  districts: LookupDistrict[]
+}
+
+/** Compare two boundary types by `districtSortOrder`; unknown types sort last. */
+export function compareBoundaryTypes(a: string, b: string): number {
+  return (districtSortOrder[a] ?? 99) - (districtSortOrder[b] ?? 99)
+}
+
+/**
+ * Sort districts by boundary type and group consecutive districts
+ * of the same type under a labelled heading.
+ */
+export function groupDistricts(districts: LookupDistrict[]): DistrictGroup[] {
+  const sorted = [...districts].sort((a, b) =>
+    compareBoundaryTypes(a.boundary_type, b.boundary_type),
+  )
+
+  const groups: DistrictGroup[] = []
+  for (const district of sorted) {
+    const last = groups.at(-1)
+    if (last?.boundaryType === district.boundary_type) {
+      last.districts.push(district)
+    } else {
+      groups.push({
+        boundaryType: district.boundary_type,
+        label:
+          boundaryTypeLabels[district.boundary_type] ??
+          district.boundary_type,
+        districts: [district],
+      })
+    }
+  }
+  return groups
+}
+
+export type DistrictComparisonStatus = "same" | "different" | "only-a" | "only-b"
+
+export interface DistrictComparisonRow {
+  boundaryType: string
+  label: string
+  a: LookupDistrict[]
+  b: LookupDistrict[]
+  status: DistrictComparisonStatus
+}
+
+function sameBoundaryIds(a: LookupDistrict[], b: LookupDistrict[]): boolean {
+  if (a.length !== b.length) return false
+  const ids = new Set(a.map((d) => d.boundary_id))
+  return b.every((d) => ids.has(d.boundary_id))
+}
+
+/**
+ * Align two lookups by boundary type. A type is "same" when both locations
+ * fall in exactly the same set of boundaries of that type.
+ */
+export function compareDistricts(
+  a: LookupDistrict[],
+  b: LookupDistrict[],
+): DistrictComparisonRow[] {
+  const groupsA = new Map(groupDistricts(a).map((g) => [g.boundaryType, g]))
+  const groupsB = new Map(groupDistricts(b).map((g) => [g.boundaryType, g]))
+  const types = [...new Set([...groupsA.keys(), ...groupsB.keys()])].sort(
+    compareBoundaryTypes,
+  )
+
+  return types.map((boundaryType) => {
+    const districtsA = groupsA.get(boundaryType)?.districts ?? []
+    const districtsB = groupsB.get(boundaryType)?.districts ?? []
+    let status: DistrictComparisonStatus
+    if (districtsB.length === 0) status = "only-a"
+    else if (districtsA.length === 0) status = "only-b"
+    else if (sameBoundaryIds(districtsA, districtsB)) status = "same"
+    else status = "different"
+
+    return {
+      boundaryType,
+      label: boundaryTypeLabels[boundaryType] ?? boundaryType,
+      a: districtsA,
+      b: districtsB,
+      status,
+    }
+  })
+}
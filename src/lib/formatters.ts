@@ -37,3 +37,11 @@ export function formatDecimal(value: number | null): string {
     maximumFractionDigits: 1,
   })
 }
+
+/**
+ * Format a 0-1 geocoder confidence score as a whole percentage.
+ */
+export function formatConfidence(score: number | null): string {
+  if (score === null) return "N/A"
+  return `${Math.round(score * 100)}%`
+}
@@ -3,6 +3,9 @@ import { feature as turfFeature } from "@turf/helpers"
 import type { MultiPolygon, Polygon } from "geojson"
 import type { LatLngBoundsExpression } from "leaflet"
 
+/** Approximate center of Georgia, for maps with nothing else to frame. */
+export const GA_CENTER: [number, number] = [32.6791, -83.6233]
+
 /**
  * Compute Leaflet LatLngBounds from a GeoJSON geometry.
  * Returns [[south, west], [north, east]] suitable for map.fitBounds().
@@ -18,3 +21,25 @@ export function geometryToLeafletBounds(
     [north, east],
   ]
 }
+
+/**
+ * Parse a "lat, lng" pair typed by a user (comma or whitespace separated).
+ * Returns null if the text is not a valid coordinate pair.
+ */
+export function parseCoordinates(
+  text: string,
+): { latitude: number; longitude: number } | null {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/.exec(
+    text,
+  )
+  if (!match) return null
+  const latitude = Number(match[1])
+  const longitude = Number(match[2])
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+  return { latitude, longitude }
+}
+
+/** Round a coordinate to 5 decimals (~1 m), enough for shareable URLs. */
+export function roundCoordinate(value: number): number {
+  return Math.round(value * 1e5) / 1e5
+}
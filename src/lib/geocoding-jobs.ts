@@ -0,0 +1,80 @@
+import type { BatchGeocodeJob, CacheStats } from "@/types/lookup"
+
+/** Geocoding providers voter-api can use for a batch. */
+export const GEOCODING_PROVIDERS = [
+  "census",
+  "nominatim",
+  "google",
+  "geocodio",
+] as const
+
+/**
+ * Providers to offer for a batch: the known ones, plus any other provider
+ * the server has cached results for.
+ */
+export function getGeocodingProviderOptions(
+  cacheStats: CacheStats | undefined,
+): string[] {
+  const known: readonly string[] = GEOCODING_PROVIDERS
+  const extra = Object.keys(cacheStats ?? {})
+    .filter((name) => !known.includes(name))
+    .sort()
+  return [...known, ...extra]
+}
+
+export function isActiveGeocodeJob(job: BatchGeocodeJob): boolean {
+  return job.status === "pending" || job.status === "running"
+}
+
+/** Progress percentage (0-100), or null before the total is known. */
+export function getGeocodeJobProgress(job: BatchGeocodeJob): number | null {
+  if (job.status === "completed") return 100
+  if (job.total_records <= 0) return null
+  return Math.min(100, (job.processed / job.total_records) * 100)
+}
+
+/**
+ * Records processed per second since the job started. `now` is the time
+ * of the latest status poll for running jobs; finished jobs use
+ * `completed_at`.
+ */
+export function getGeocodeJobThroughput(
+  job: BatchGeocodeJob,
+  now: number,
+): number | null {
+  if (!job.started_at || job.processed === 0) return null
+  const end = job.completed_at ? Date.parse(job.completed_at) : now
+  const seconds = (end - Date.parse(job.started_at)) / 1000
+  return seconds > 0 ? job.processed / seconds : null
+}
+
+/** Estimated seconds remaining at the current throughput. */
+export function getGeocodeJobEta(
+  job: BatchGeocodeJob,
+  throughput: number | null,
+): number | null {
+  if (!isActiveGeocodeJob(job) || !throughput) return null
+  return Math.max(0, job.total_records - job.processed) / throughput
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+export function getGeocodeJobStatusBadgeVariant(
+  status: BatchGeocodeJob["status"],
+) {
+  switch (status) {
+    case "completed":
+      return "default"
+    case "failed":
+      return "destructive"
+    case "running":
+      return "secondary"
+    default:
+      return "outline"
+  }
+}
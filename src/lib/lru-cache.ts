@@ -0,0 +1,34 @@
+/**
+ * Fixed-size least-recently-used cache backed by a Map's insertion order.
+ * Reading an entry marks it as most recently used; inserting past capacity
+ * evicts the least recently used entry.
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>()
+  private readonly capacity: number
+
+  constructor(capacity: number) {
+    this.capacity = capacity
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined
+    const value = this.entries.get(key)!
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    return value
+  }
+
+  set(key: K, value: V) {
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as K
+      this.entries.delete(oldest)
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
@@ -0,0 +1,788 @@
+import type { PathOptions } from "leaflet"
+import { loadTile, tileUrl } from "@/lib/static-map"
+
+export type MapExportFormat = "png" | "svg" | "pdf"
+
+export const MAP_EXPORT_FORMATS: readonly MapExportFormat[] = [
+  "png",
+  "svg",
+  "pdf",
+]
+
+export const MAP_EXPORT_DPIS = [96, 150, 300] as const
+
+/** CSS pixels are defined at 96 to the inch */
+const CSS_DPI = 96
+
+export const BOUNDARY_ATTRIBUTION = "Boundaries: U.S. Census Bureau TIGER/Line"
+
+type Point = [number, number]
+
+export interface MapExportStyle {
+  stroke: string | null
+  strokeWidth: number
+  strokeOpacity: number
+  dashArray: number[] | null
+  fill: string | null
+  fillOpacity: number
+}
+
+/**
+ * A polygon as drawn, in map container pixels. Holes and the parts of a
+ * multipolygon are all rings of one shape, filled even-odd.
+ */
+export interface MapExportShape {
+  rings: Point[][]
+  style: MapExportStyle
+}
+
+/** A permanent map label, centered on (x, y) in container pixels. */
+export interface MapExportLabel {
+  x: number
+  y: number
+  text: string
+  fontSize: number
+}
+
+export interface MapExportLegendItem {
+  label: string
+  /** Swatch fill; several colors for a layer drawn in a palette */
+  colors: string[]
+  stroke: string | null
+}
+
+export interface MapExportLegendSection {
+  title?: string
+  subtitle?: string
+  items: MapExportLegendItem[]
+}
+
+/** Everything on the map view, captured for export. */
+export interface MapExportScene {
+  title: string
+  /** Size of the map view in CSS pixels */
+  width: number
+  height: number
+  /** Bottom to top */
+  shapes: MapExportShape[]
+  labels: MapExportLabel[]
+  legend: MapExportLegendSection[]
+  /** Ground distance covered by one pixel at the center of the view */
+  metersPerPixel: number
+  attribution: string
+}
+
+/** Basemap tiles behind a PNG export. */
+export interface MapExportTiles {
+  template: string
+  zoom: number
+  /** World pixel, at `zoom`, of the view's top-left corner */
+  origin: Point
+  /** Tile pixels per container pixel */
+  scale: number
+}
+
+/** Leaflet path options as export styles, with Leaflet's defaults. */
+export function exportStyle(options: PathOptions): MapExportStyle {
+  const color = options.color ?? "#3388ff"
+  const fill = options.fill === false ? null : (options.fillColor ?? color)
+  const dash = options.dashArray
+  return {
+    stroke: options.stroke === false ? null : color,
+    strokeWidth: options.weight ?? 3,
+    strokeOpacity: options.opacity ?? 1,
+    dashArray: dash
+      ? typeof dash === "string"
+        ? dash
+            .split(/[\s,]+/)
+            .filter(Boolean)
+            .map(Number)
+        : dash
+      : null,
+    fill: fill === "transparent" || fill === "none" ? null : fill,
+    fillOpacity: options.fillOpacity ?? 0.2,
+  }
+}
+
+/** Legend row for features drawn with a fixed Leaflet style. */
+export function styleLegendItem(
+  label: string,
+  options: PathOptions,
+): MapExportLegendItem {
+  const style = exportStyle(options)
+  return {
+    label,
+    colors: style.fill ? [style.fill] : [],
+    stroke: style.stroke,
+  }
+}
+
+/**
+ * Drop points closer than `tolerance` pixels to the last one kept.
+ * County outlines carry far more detail than a screen can show.
+ */
+export function thinRing(points: Point[], tolerance = 0.5): Point[] {
+  const kept: Point[] = []
+  for (const point of points) {
+    const last = kept[kept.length - 1]
+    if (
+      last &&
+      Math.abs(point[0] - last[0]) < tolerance &&
+      Math.abs(point[1] - last[1]) < tolerance
+    ) {
+      continue
+    }
+    kept.push(point)
+  }
+  return kept
+}
+
+const METERS_PER_MILE = 1609.344
+const METERS_PER_FOOT = 0.3048
+
+/** Largest 1, 2 or 5 times a power of ten that doesn't exceed value. */
+function niceFloor(value: number): number {
+  const power = 10 ** Math.floor(Math.log10(value))
+  const mantissa = value / power
+  return (mantissa >= 5 ? 5 : mantissa >= 2 ? 2 : 1) * power
+}
+
+/**
+ * A round-numbered scale bar no wider than maxWidth pixels, in miles, or
+ * feet when a tenth of a mile won't fit.
+ */
+export function scaleBar(
+  metersPerPixel: number,
+  maxWidth = 120,
+): { width: number; label: string } {
+  const maxMeters = metersPerPixel * maxWidth
+  const miles = maxMeters / METERS_PER_MILE
+  if (miles >= 0.1) {
+    const distance = niceFloor(miles)
+    return {
+      width: (distance * METERS_PER_MILE) / metersPerPixel,
+      label: `${distance} mi`,
+    }
+  }
+  const feet = niceFloor(maxMeters / METERS_PER_FOOT)
+  return {
+    width: (feet * METERS_PER_FOOT) / metersPerPixel,
+    label: `${feet} ft`,
+  }
+}
+
+type TextAnchor = "start" | "middle" | "end"
+
+interface TextPrimitive {
+  kind: "text"
+  x: number
+  /** Baseline */
+  y: number
+  text: string
+  size: number
+  color: string
+  bold?: boolean
+  anchor?: TextAnchor
+  /** White outline so the text reads over the map */
+  halo?: boolean
+}
+
+interface ShapePrimitive {
+  kind: "shape"
+  rings: Point[][]
+  style: MapExportStyle
+}
+
+type Primitive = TextPrimitive | ShapePrimitive
+
+const TITLE_HEIGHT = 40
+const FOOTER_HEIGHT = 28
+const MARGIN = 12
+const TEXT_COLOR = "#111827"
+const MUTED_COLOR = "#4b5563"
+const FONT_FAMILY = "Helvetica, Arial, sans-serif"
+
+/** Rough width of text; exact metrics differ per output format. */
+function textWidth(text: string, size: number): number {
+  return text.length * size * 0.55
+}
+
+function rect(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  style: Partial<MapExportStyle>,
+): ShapePrimitive {
+  return {
+    kind: "shape",
+    rings: [
+      [
+        [x, y],
+        [x + width, y],
+        [x + width, y + height],
+        [x, y + height],
+      ],
+    ],
+    style: {
+      stroke: null,
+      strokeWidth: 1,
+      strokeOpacity: 1,
+      dashArray: null,
+      fill: null,
+      fillOpacity: 1,
+      ...style,
+    },
+  }
+}
+
+function legendPrimitives(
+  sections: MapExportLegendSection[],
+  left: number,
+  bottom: number,
+): Primitive[] {
+  const lines: { height: number; draw: (y: number) => Primitive[] }[] = []
+  let width = 0
+  sections.forEach((section, index) => {
+    if (index > 0) lines.push({ height: 6, draw: () => [] })
+    if (section.title) {
+      const title = section.title
+      width = Math.max(width, textWidth(title, 12))
+      lines.push({
+        height: 16,
+        draw: (y) => [
+          {
+            kind: "text",
+            x: 0,
+            y: y + 12,
+            text: title,
+            size: 12,
+            bold: true,
+            color: TEXT_COLOR,
+          },
+        ],
+      })
+    }
+    if (section.subtitle) {
+      const subtitle = section.subtitle
+      width = Math.max(width, textWidth(subtitle, 10))
+      lines.push({
+        height: 14,
+        draw: (y) => [
+          {
+            kind: "text",
+            x: 0,
+            y: y + 10,
+            text: subtitle,
+            size: 10,
+            color: MUTED_COLOR,
+          },
+        ],
+      })
+    }
+    for (const item of section.items) {
+      width = Math.max(width, 26 + textWidth(item.label, 11))
+      lines.push({
+        height: 16,
+        draw: (y) => {
+          const stripe = 20 / Math.max(item.colors.length, 1)
+          return [
+            ...item.colors.map((color, i) =>
+              rect(i * stripe, y + 3, stripe, 10, { fill: color }),
+            ),
+            rect(0, y + 3, 20, 10, {
+              stroke: item.stroke ?? "#9ca3af",
+              strokeWidth: 1,
+            }),
+            {
+              kind: "text",
+              x: 26,
+              y: y + 12,
+              text: item.label,
+              size: 11,
+              color: TEXT_COLOR,
+            },
+          ]
+        },
+      })
+    }
+  })
+  if (lines.length === 0) return []
+
+  const padding = 8
+  const height = lines.reduce((sum, line) => sum + line.height, 0)
+  const top = bottom - height - padding * 2
+  const box = rect(left, top, width + padding * 2, height + padding * 2, {
+    fill: "#ffffff",
+    fillOpacity: 0.9,
+    stroke: "#d1d5db",
+  })
+
+  let y = top + padding
+  const content: Primitive[] = []
+  for (const line of lines) {
+    content.push(...line.draw(y))
+    y += line.height
+  }
+  // Lines are laid out from x = 0; shift them into the box
+  const dx = left + padding
+  return [
+    box,
+    ...content.map(
+      (primitive): Primitive =>
+        primitive.kind === "text"
+          ? { ...primitive, x: primitive.x + dx }
+          : {
+              ...primitive,
+              rings: primitive.rings.map((ring) =>
+                ring.map(([x, py]): Point => [x + dx, py]),
+              ),
+            },
+    ),
+  ]
+}
+
+function northArrow(x: number, top: number): Primitive[] {
+  return [
+    {
+      kind: "text",
+      x,
+      y: top + 12,
+      text: "N",
+      size: 12,
+      bold: true,
+      color: TEXT_COLOR,
+      anchor: "middle",
+      halo: true,
+    },
+    {
+      kind: "shape",
+      rings: [
+        [
+          [x, top + 16],
+          [x + 8, top + 38],
+          [x, top + 32],
+          [x - 8, top + 38],
+        ],
+      ],
+      style: {
+        stroke: "#ffffff",
+        strokeWidth: 1.5,
+        strokeOpacity: 1,
+        dashArray: null,
+        fill: TEXT_COLOR,
+        fillOpacity: 1,
+      },
+    },
+  ]
+}
+
+/**
+ * The export page: a title band, the map with its labels, legend and
+ * north arrow, and a footer with the scale bar and attribution. The map
+ * is drawn first and the bands over it, which crops features that run
+ * past the view.
+ */
+export function layoutMapExport(scene: MapExportScene): {
+  width: number
+  height: number
+  mapTop: number
+  primitives: Primitive[]
+} {
+  const { width } = scene
+  const mapTop = TITLE_HEIGHT
+  const mapBottom = mapTop + scene.height
+  const height = mapBottom + FOOTER_HEIGHT
+
+  const shapes = scene.shapes.map(
+    (shape): Primitive => ({
+      kind: "shape",
+      rings: shape.rings.map((ring) =>
+        ring.map(([x, y]): Point => [x, y + mapTop]),
+      ),
+      style: shape.style,
+    }),
+  )
+  const labels = scene.labels.map(
+    (label): Primitive => ({
+      kind: "text",
+      x: label.x,
+      // Center the text on the anchor, as the map does
+      y: label.y + mapTop + label.fontSize * 0.35,
+      text: label.text,
+      size: label.fontSize,
+      bold: true,
+      color: TEXT_COLOR,
+      anchor: "middle",
+      halo: true,
+    }),
+  )
+
+  const bar = scaleBar(scene.metersPerPixel)
+  const footerMiddle = mapBottom + FOOTER_HEIGHT / 2
+  const attributionRoom = width - MARGIN * 3 - bar.width - 48
+  const attributionSize =
+    textWidth(scene.attribution, 10) > attributionRoom ? 8 : 10
+
+  return {
+    width,
+    height,
+    mapTop,
+    primitives: [
+      ...shapes,
+      ...labels,
+      ...northArrow(width - MARGIN - 12, mapTop + MARGIN),
+      ...legendPrimitives(scene.legend, MARGIN, mapBottom - MARGIN),
+      rect(0, 0, width, mapTop, { fill: "#ffffff" }),
+      rect(0, mapBottom, width, FOOTER_HEIGHT, { fill: "#ffffff" }),
+      rect(0, mapTop, width, scene.height, {
+        stroke: "#d1d5db",
+        strokeWidth: 1,
+      }),
+      {
+        kind: "text",
+        x: MARGIN,
+        y: mapTop / 2 + 6,
+        text: scene.title,
+        size: 18,
+        bold: true,
+        color: TEXT_COLOR,
+      },
+      rect(MARGIN, footerMiddle - 3, bar.width / 2, 6, {
+        fill: TEXT_COLOR,
+      }),
+      rect(MARGIN, footerMiddle - 3, bar.width, 6, {
+        stroke: TEXT_COLOR,
+        strokeWidth: 1,
+      }),
+      {
+        kind: "text",
+        x: MARGIN + bar.width + 6,
+        y: footerMiddle + 4,
+        text: bar.label,
+        size: 11,
+        color: TEXT_COLOR,
+      },
+      {
+        kind: "text",
+        x: width - MARGIN,
+        y: footerMiddle + 3,
+        text: scene.attribution,
+        size: attributionSize,
+        color: MUTED_COLOR,
+        anchor: "end",
+      },
+    ],
+  }
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 10) / 10)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+}
+
+function svgElement(primitive: Primitive): string {
+  if (primitive.kind === "text") {
+    const attrs = [
+      `x="${round(primitive.x)}"`,
+      `y="${round(primitive.y)}"`,
+      `font-size="${primitive.size}"`,
+      `fill="${primitive.color}"`,
+      primitive.bold ? `font-weight="bold"` : "",
+      primitive.anchor && primitive.anchor !== "start"
+        ? `text-anchor="${primitive.anchor}"`
+        : "",
+      primitive.halo
+        ? `stroke="#ffffff" stroke-width="3" stroke-linejoin="round" paint-order="stroke"`
+        : "",
+    ]
+    return `<text ${attrs.filter(Boolean).join(" ")}>${escapeXml(primitive.text)}</text>`
+  }
+  const d = primitive.rings
+    .map(
+      (ring) =>
+        `M${ring.map(([x, y]) => `${round(x)} ${round(y)}`).join("L")}Z`,
+    )
+    .join("")
+  const { style } = primitive
+  const attrs = [
+    `d="${d}"`,
+    `fill="${style.fill ?? "none"}"`,
+    style.fill && style.fillOpacity !== 1
+      ? `fill-opacity="${style.fillOpacity}"`
+      : "",
+    style.fill ? `fill-rule="evenodd"` : "",
+    style.stroke
+      ? `stroke="${style.stroke}" stroke-width="${style.strokeWidth}" stroke-linejoin="round"`
+      : "",
+    style.stroke && style.strokeOpacity !== 1
+      ? `stroke-opacity="${style.strokeOpacity}"`
+      : "",
+    style.stroke && style.dashArray
+      ? `stroke-dasharray="${style.dashArray.join(" ")}"`
+      : "",
+  ]
+  return `<path ${attrs.filter(Boolean).join(" ")}/>`
+}
+
+/** The export as a standalone SVG document; vector layers only. */
+export function mapExportSvg(scene: MapExportScene): string {
+  const { width, height, primitives } = layoutMapExport(scene)
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...primitives.map(svgElement),
+    `</svg>`,
+    "",
+  ].join("\n")
+}
+
+export function mapExportToSvg(scene: MapExportScene): Blob {
+  return new Blob([mapExportSvg(scene)], { type: "image/svg+xml" })
+}
+
+const CANVAS_TEXT_ALIGN: Record<TextAnchor, CanvasTextAlign> = {
+  start: "left",
+  middle: "center",
+  end: "right",
+}
+
+function drawPrimitives(
+  ctx: CanvasRenderingContext2D,
+  primitives: Primitive[],
+) {
+  ctx.lineJoin = "round"
+  for (const primitive of primitives) {
+    if (primitive.kind === "text") {
+      ctx.font = `${primitive.bold ? "bold " : ""}${primitive.size}px ${FONT_FAMILY}`
+      ctx.textAlign = CANVAS_TEXT_ALIGN[primitive.anchor ?? "start"]
+      ctx.textBaseline = "alphabetic"
+      if (primitive.halo) {
+        ctx.strokeStyle = "#ffffff"
+        ctx.lineWidth = 3
+        ctx.strokeText(primitive.text, primitive.x, primitive.y)
+      }
+      ctx.fillStyle = primitive.color
+      ctx.fillText(primitive.text, primitive.x, primitive.y)
+      continue
+    }
+    const { style } = primitive
+    ctx.beginPath()
+    for (const ring of primitive.rings) {
+      ring.forEach(([x, y], i) =>
+        i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y),
+      )
+      ctx.closePath()
+    }
+    if (style.fill) {
+      ctx.globalAlpha = style.fillOpacity
+      ctx.fillStyle = style.fill
+      ctx.fill("evenodd")
+    }
+    if (style.stroke) {
+      ctx.globalAlpha = style.strokeOpacity
+      ctx.strokeStyle = style.stroke
+      ctx.lineWidth = style.strokeWidth
+      ctx.setLineDash(style.dashArray ?? [])
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+    ctx.globalAlpha = 1
+  }
+}
+
+const TILE_SIZE = 256
+
+async function drawTiles(
+  ctx: CanvasRenderingContext2D,
+  tiles: MapExportTiles,
+  top: number,
+  width: number,
+  height: number,
+) {
+  const [originX, originY] = tiles.origin
+  const tileCount = 2 ** tiles.zoom
+  const minX = Math.floor(originX / TILE_SIZE)
+  const maxX = Math.floor((originX + width * tiles.scale) / TILE_SIZE)
+  const minY = Math.max(0, Math.floor(originY / TILE_SIZE))
+  const maxY = Math.min(
+    tileCount - 1,
+    Math.floor((originY + height * tiles.scale) / TILE_SIZE),
+  )
+  const size = TILE_SIZE / tiles.scale
+
+  const loads: Promise<void>[] = []
+  for (let tx = minX; tx <= maxX; tx++) {
+    for (let ty = minY; ty <= maxY; ty++) {
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount
+      const url = tileUrl(tiles.template, tiles.zoom, wrappedX, ty)
+      loads.push(
+        loadTile(url).then((img) => {
+          if (!img) return
+          ctx.drawImage(
+            img,
+            (tx * TILE_SIZE - originX) / tiles.scale,
+            top + (ty * TILE_SIZE - originY) / tiles.scale,
+            // Overlap by a hair so scaled tiles don't leave seams
+            size + 0.5,
+            size + 0.5,
+          )
+        }),
+      )
+    }
+  }
+  await Promise.all(loads)
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Record the resolution in a PNG's pHYs chunk, so print and layout
+ * software size the image correctly. The chunk goes right after IHDR,
+ * which is always first.
+ */
+export function withPngDpi(
+  png: Uint8Array,
+  dpi: number,
+): Uint8Array<ArrayBuffer> {
+  const ihdrEnd = 8 + 4 + 4 + 13 + 4
+  const chunk = new Uint8Array(4 + 4 + 9 + 4)
+  const view = new DataView(chunk.buffer)
+  const pixelsPerMeter = Math.round(dpi / 0.0254)
+  view.setUint32(0, 9)
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4) // "pHYs"
+  view.setUint32(8, pixelsPerMeter)
+  view.setUint32(12, pixelsPerMeter)
+  chunk[16] = 1 // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)))
+
+  const result = new Uint8Array(png.length + chunk.length)
+  result.set(png.subarray(0, ihdrEnd))
+  result.set(chunk, ihdrEnd)
+  result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length)
+  return result
+}
+
+/**
+ * Render the export to a PNG at the given resolution, over the basemap
+ * tiles when there are any. Tile servers must send CORS headers.
+ */
+export async function mapExportToPng(
+  scene: MapExportScene,
+  dpi: number,
+  tiles: MapExportTiles | null,
+): Promise<Blob> {
+  const { width, height, mapTop, primitives } = layoutMapExport(scene)
+  const scale = dpi / CSS_DPI
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas is not supported in this browser")
+
+  ctx.scale(scale, scale)
+  ctx.fillStyle = "#ffffff"
+  ctx.fillRect(0, 0, width, height)
+  if (tiles) await drawTiles(ctx, tiles, mapTop, scene.width, scene.height)
+  drawPrimitives(ctx, primitives)
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png"),
+  )
+  if (!blob) throw new Error("The map image is too large to export")
+  const png = new Uint8Array(await blob.arrayBuffer())
+  return new Blob([withPngDpi(png, dpi)], { type: "image/png" })
+}
+
+const PDF_TEXT_ALIGN: Record<TextAnchor, "left" | "center" | "right"> = {
+  start: "left",
+  middle: "center",
+  end: "right",
+}
+
+/**
+ * The export as a one-page vector PDF sized to the map. jsPDF is loaded
+ * on demand so it stays out of the main bundle.
+ */
+export async function mapExportToPdf(scene: MapExportScene): Promise<Blob> {
+  const { jsPDF, GState } = await import("jspdf")
+  const { width, height, primitives } = layoutMapExport(scene)
+  const doc = new jsPDF({
+    unit: "pt",
+    format: [width, height],
+    orientation: width > height ? "landscape" : "portrait",
+  })
+  doc.setLineJoin("round")
+
+  // jsPDF drops duplicate graphics states, so a new one per shape is cheap
+  const setOpacity = (fill: number, stroke: number) =>
+    doc.setGState(new GState({ opacity: fill, "stroke-opacity": stroke }))
+
+  for (const primitive of primitives) {
+    if (primitive.kind === "text") {
+      setOpacity(1, 1)
+      doc.setFont("helvetica", primitive.bold ? "bold" : "normal")
+      doc.setFontSize(primitive.size)
+      const options = { align: PDF_TEXT_ALIGN[primitive.anchor ?? "start"] }
+      if (primitive.halo) {
+        doc.setDrawColor("#ffffff")
+        doc.setLineWidth(2)
+        doc.setLineDashPattern([], 0)
+        doc.text(primitive.text, primitive.x, primitive.y, {
+          ...options,
+          renderingMode: "stroke",
+        })
+      }
+      doc.setTextColor(primitive.color)
+      doc.text(primitive.text, primitive.x, primitive.y, options)
+      continue
+    }
+    const { style } = primitive
+    if (!style.fill && !style.stroke) continue
+    // State first: PDF allows nothing between building a path and painting it
+    setOpacity(style.fillOpacity, style.strokeOpacity)
+    if (style.fill) doc.setFillColor(style.fill)
+    if (style.stroke) {
+      doc.setDrawColor(style.stroke)
+      doc.setLineWidth(style.strokeWidth)
+      doc.setLineDashPattern(style.dashArray ?? [], 0)
+    }
+    doc.path(
+      primitive.rings.flatMap((ring) => [
+        ...ring.map(([x, y], i) => ({ op: i === 0 ? "m" : "l", c: [x, y] })),
+        { op: "h", c: [] },
+      ]),
+    )
+    if (style.fill && style.stroke) doc.fillStrokeEvenOdd()
+    else if (style.fill) doc.fillEvenOdd()
+    else doc.stroke()
+  }
+
+  return doc.output("blob")
+}
@@ -0,0 +1,259 @@
+import type { MultiPolygon, Polygon, Position } from "geojson"
+import { officialDistrictNumber } from "@/lib/officials"
+
+interface Cell {
+  x: number
+  y: number
+  /** Half the cell size */
+  h: number
+  /** Signed distance from the center to the polygon outline */
+  d: number
+  /** Best distance any point in the cell could reach */
+  max: number
+}
+
+/** Minimal max-heap on Cell.max, all polylabel needs from a queue. */
+class CellQueue {
+  private cells: Cell[] = []
+
+  push(cell: Cell) {
+    const cells = this.cells
+    cells.push(cell)
+    let i = cells.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (cells[parent].max >= cell.max) break
+      cells[i] = cells[parent]
+      i = parent
+    }
+    cells[i] = cell
+  }
+
+  pop(): Cell | undefined {
+    const cells = this.cells
+    const top = cells[0]
+    const last = cells.pop()
+    if (cells.length === 0 || !last) return top
+    let i = 0
+    for (;;) {
+      const left = 2 * i + 1
+      if (left >= cells.length) break
+      const right = left + 1
+      const child =
+        right < cells.length && cells[right].max > cells[left].max
+          ? right
+          : left
+      if (cells[child].max <= last.max) break
+      cells[i] = cells[child]
+      i = child
+    }
+    cells[i] = last
+    return top
+  }
+}
+
+function segmentDistanceSq(
+  px: number,
+  py: number,
+  a: Position,
+  b: Position,
+): number {
+  let x = a[0]
+  let y = a[1]
+  let dx = b[0] - x
+  let dy = b[1] - y
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - x) * dx + (py - y) * dy) / (dx * dx + dy * dy)
+    if (t > 1) {
+      x = b[0]
+      y = b[1]
+    } else if (t > 0) {
+      x += dx * t
+      y += dy * t
+    }
+  }
+  dx = px - x
+  dy = py - y
+  return dx * dx + dy * dy
+}
+
+/** Distance to the nearest edge; negative outside the polygon. */
+function pointToPolygonDistance(
+  x: number,
+  y: number,
+  rings: Position[][],
+): number {
+  let inside = false
+  let minDistSq = Infinity
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i]
+      const b = ring[j]
+      if (
+        a[1] > y !== b[1] > y &&
+        x < ((b[0] - a[0]) * (y - a[1])) / (b[1] - a[1]) + a[0]
+      ) {
+        inside = !inside
+      }
+      minDistSq = Math.min(minDistSq, segmentDistanceSq(x, y, a, b))
+    }
+  }
+  return minDistSq === 0 ? 0 : (inside ? 1 : -1) * Math.sqrt(minDistSq)
+}
+
+function makeCell(x: number, y: number, h: number, rings: Position[][]) {
+  const d = pointToPolygonDistance(x, y, rings)
+  return { x, y, h, d, max: d + h * Math.SQRT2 }
+}
+
+function centroidCell(rings: Position[][]): Cell {
+  const ring = rings[0]
+  let area = 0
+  let x = 0
+  let y = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]
+    const b = ring[j]
+    const f = a[0] * b[1] - b[0] * a[1]
+    x += (a[0] + b[0]) * f
+    y += (a[1] + b[1]) * f
+    area += f * 3
+  }
+  return area === 0
+    ? makeCell(ring[0][0], ring[0][1], 0, rings)
+    : makeCell(x / area, y / area, 0, rings)
+}
+
+/**
+ * Pole of inaccessibility: the interior point farthest from the outline,
+ * found by the quadtree search from Mapbox's polylabel. Unlike a centroid
+ * it always lands inside, even for C-shaped districts.
+ */
+export function polylabel(
+  rings: Position[][],
+  precision: number,
+): { point: [number, number]; distance: number } {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const [x, y] of rings[0]) {
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+  }
+  const width = maxX - minX
+  const height = maxY - minY
+  const cellSize = Math.min(width, height)
+  if (cellSize === 0) return { point: [minX, minY], distance: 0 }
+
+  const queue = new CellQueue()
+  const h = cellSize / 2
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      queue.push(makeCell(x + h, y + h, h, rings))
+    }
+  }
+
+  let best = centroidCell(rings)
+  const bboxCell = makeCell(minX + width / 2, minY + height / 2, 0, rings)
+  if (bboxCell.d > best.d) best = bboxCell
+
+  let cell = queue.pop()
+  while (cell) {
+    if (cell.d > best.d) best = cell
+    if (cell.max - best.d > precision) {
+      const half = cell.h / 2
+      queue.push(makeCell(cell.x - half, cell.y - half, half, rings))
+      queue.push(makeCell(cell.x + half, cell.y - half, half, rings))
+      queue.push(makeCell(cell.x - half, cell.y + half, half, rings))
+      queue.push(makeCell(cell.x + half, cell.y + half, half, rings))
+    }
+    cell = queue.pop()
+  }
+
+  return { point: [best.x, best.y], distance: best.d }
+}
+
+function ringArea(ring: Position[]): number {
+  let area = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1])
+  }
+  return Math.abs(area / 2)
+}
+
+/**
+ * Where to anchor a feature's label, as [lat, lng], plus an area (square
+ * degrees) used to give bigger features first claim on space. Multipart
+ * features are labeled on their largest part.
+ */
+export function featureLabelPoint(
+  geometry: Polygon | MultiPolygon,
+): { latLng: [number, number]; area: number } | null {
+  const polygons =
+    geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates
+  let largest: Position[][] | null = null
+  let largestArea = 0
+  for (const rings of polygons) {
+    const area = rings[0] ? ringArea(rings[0]) : 0
+    if (area > largestArea) {
+      largest = rings
+      largestArea = area
+    }
+  }
+  if (!largest) return null
+
+  // Work in roughly equal-distance units: a degree of longitude shrinks
+  // with latitude, which would pull labels toward the long axis
+  const midLat =
+    largest[0].reduce((sum, position) => sum + position[1], 0) /
+    largest[0].length
+  const k = Math.cos((midLat * Math.PI) / 180)
+  const scaled = largest.map((ring) => ring.map(([x, y]) => [x * k, y]))
+  const size = Math.sqrt(largestArea)
+  const { point } = polylabel(scaled, size / 100)
+  return { latLng: [point[1], point[0] / k], area: largestArea }
+}
+
+/** Label for a district: its number when the name ends in one. */
+export function districtLabelText(name: string): string {
+  return officialDistrictNumber(name, "") ?? name
+}
+
+/** Label font size in px: grows with zoom, within readable limits. */
+export function labelFontSize(zoom: number, baseZoom = 7): number {
+  return Math.min(16, Math.max(10, 11 + (zoom - baseZoom) * 1.5))
+}
+
+/** A label's on-screen box, centered on (x, y), in container pixels. */
+export interface LabelBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Greedy collision pass: each box is kept unless it overlaps one already
+ * kept, so callers pass boxes in priority order. Null boxes (off screen)
+ * are never kept.
+ */
+export function placeLabels(
+  boxes: (LabelBox | null)[],
+  padding = 2,
+): boolean[] {
+  const placed: LabelBox[] = []
+  return boxes.map((box) => {
+    if (!box) return false
+    const collides = placed.some(
+      (other) =>
+        Math.abs(box.x - other.x) * 2 < box.width + other.width + padding &&
+        Math.abs(box.y - other.y) * 2 < box.height + other.height + padding,
+    )
+    if (collides) return false
+    placed.push(box)
+    return true
+  })
+}
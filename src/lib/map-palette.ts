@@ -0,0 +1,43 @@
+import { divIcon } from "leaflet"
+import type { DivIcon, PathOptions } from "leaflet"
+
+// Distinct, colorblind-friendly palette for district overlays
+export const DISTRICT_COLORS = [
+  { fill: "#e6194b", border: "#a01235" }, // red
+  { fill: "#3cb44b", border: "#2a7d34" }, // green
+  { fill: "#4363d8", border: "#2e45a0" }, // blue
+  { fill: "#f58231", border: "#b55f1e" }, // orange
+  { fill: "#911eb4", border: "#6b1685" }, // purple
+  { fill: "#42d4f4", border: "#2a9ab0" }, // cyan
+  { fill: "#f032e6", border: "#a822a0" }, // magenta
+  { fill: "#bfef45", border: "#8ab530" }, // lime
+  { fill: "#fabed4", border: "#b58898" }, // pink
+  { fill: "#dcbeff", border: "#9a85b5" }, // lavender
+  { fill: "#ffe119", border: "#b5a012" }, // yellow
+  { fill: "#aaffc3", border: "#78b58a" }, // mint
+  { fill: "#808000", border: "#5a5a00" }, // olive
+  { fill: "#ffd8b1", border: "#b5987c" }, // apricot
+  { fill: "#000075", border: "#000050" }, // navy
+  { fill: "#a9a9a9", border: "#757575" }, // grey
+]
+
+export function getDistrictStyle(index: number): PathOptions {
+  const palette = DISTRICT_COLORS[index % DISTRICT_COLORS.length]
+  return {
+    color: palette.border,
+    weight: 1.5,
+    fillColor: palette.fill,
+    fillOpacity: 0.25,
+    opacity: 0.9,
+  }
+}
+
+/** Round, draggable-looking pin for markers the user can move. */
+export function createDraggablePinIcon(color: string): DivIcon {
+  return divIcon({
+    className: "",
+    html: `<div style="width:22px;height:22px;border-radius:9999px;background:${color};border:3px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.5);cursor:move"></div>`,
+    iconSize: [22, 22],
+    iconAnchor: [11, 11],
+  })
+}
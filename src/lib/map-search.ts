@@ -0,0 +1,189 @@
+import type { MultiPolygon, Polygon } from "geojson"
+import { districtTypeLabels } from "@/lib/districts"
+import { countySlugPath, districtSlugPath } from "@/lib/slugs"
+import type { CountyFeatureCollection } from "@/types/boundaries"
+import type { BoundaryFeatureCollection } from "@/types/boundary"
+
+export type MapSearchKind = "county" | "district" | "precinct"
+
+export interface MapSearchItem {
+  id: string
+  kind: MapSearchKind
+  /** Shown in the results, e.g. "DeKalb County", "State House District 89" */
+  label: string
+  /** Secondary line, e.g. the boundary type */
+  description: string
+  geometry: Polygon | MultiPolygon
+  /** Slug route for the detail page, when there is one */
+  path: string | null
+  /** Normalized words the query is matched against */
+  terms: string[]
+}
+
+/** Short forms people type for boundary types, e.g. "HD 89". */
+const TYPE_ALIASES: Record<string, string[]> = {
+  congressional: ["cd", "congress"],
+  congressional_district: ["cd", "congress"],
+  state_senate: ["sd", "senate"],
+  state_house: ["hd", "house"],
+  psc: ["psc"],
+  county_commission: ["commission"],
+  commission_district: ["commission"],
+  school_board: ["school", "boe"],
+  school_district: ["school"],
+  precinct: ["pct"],
+  county_precinct: ["pct"],
+}
+
+/**
+ * Lowercase words with punctuation dropped and leading zeros stripped from
+ * numbers, so "HD-089" and "hd 89" compare equal.
+ */
+export function normalizeSearchText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => (/^\d+$/.test(word) ? String(Number(word)) : word))
+}
+
+export function buildCountySearchItems(
+  counties: CountyFeatureCollection,
+): MapSearchItem[] {
+  return counties.features.map((feature) => {
+    const { name, boundary_identifier: fips } = feature.properties
+    return {
+      id: `county:${fips}`,
+      kind: "county",
+      label: `${name} County`,
+      description: "County",
+      geometry: feature.geometry,
+      path: countySlugPath(name, fips) || null,
+      terms: normalizeSearchText(`${name} county`),
+    }
+  })
+}
+
+export function buildBoundarySearchItems(
+  collection: BoundaryFeatureCollection,
+): MapSearchItem[] {
+  return collection.features.flatMap((feature, i): MapSearchItem[] => {
+    if (!feature.geometry) return []
+    const props = feature.properties
+    const typeLabel =
+      districtTypeLabels[props.boundary_type] ??
+      props.boundary_type.replaceAll("_", " ")
+    const isPrecinct = props.boundary_type.endsWith("precinct")
+    const label = props.precinct_name || props.name
+    return [
+      {
+        id: `${props.boundary_type}:${props.boundary_identifier ?? i}`,
+        kind: isPrecinct ? "precinct" : "district",
+        label,
+        description: props.precinct_county_name
+          ? `${typeLabel}, ${props.precinct_county_name} County`
+          : typeLabel,
+        geometry: feature.geometry,
+        // Precincts have no detail page of their own
+        path: isPrecinct
+          ? null
+          : districtSlugPath(props.name, props.boundary_type),
+        terms: normalizeSearchText(
+          [
+            label,
+            props.name,
+            props.precinct_id,
+            typeLabel,
+            ...(TYPE_ALIASES[props.boundary_type] ?? []),
+          ]
+            .filter(Boolean)
+            .join(" "),
+        ),
+      },
+    ]
+  })
+}
+
+/** True when a and b differ by at most one insertion, deletion or swap. */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false
+  let i = 0
+  let j = 0
+  let edits = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++
+      j++
+      continue
+    }
+    if (++edits > 1) return false
+    if (a.length > b.length) i++
+    else if (b.length > a.length) j++
+    else {
+      i++
+      j++
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
+
+/**
+ * How well one query word matches an item: numbers must match exactly
+ * (so "89" never finds 189), words may be a prefix or one typo away.
+ */
+function wordScore(word: string, terms: string[]): number {
+  if (/^\d+$/.test(word)) return terms.includes(word) ? 3 : 0
+  let best = 0
+  for (const term of terms) {
+    if (term === word) return 3
+    if (term.startsWith(word)) best = Math.max(best, 2)
+    else if (
+      word.length >= 4 &&
+      withinOneEdit(word, term.slice(0, word.length + 1))
+    ) {
+      best = Math.max(best, 1)
+    }
+  }
+  return best
+}
+
+/**
+ * Rank items against a free-text query. Every query word has to match;
+ * ties go to the item whose label starts with the query, then the
+ * shorter label.
+ */
+export function searchMapItems(
+  items: MapSearchItem[],
+  query: string,
+  limit = 8,
+): MapSearchItem[] {
+  const words = normalizeSearchText(query)
+  if (words.length === 0) return []
+  const phrase = words.join(" ")
+
+  const scored: { item: MapSearchItem; score: number }[] = []
+  for (const item of items) {
+    let score = 0
+    for (const word of words) {
+      const s = wordScore(word, item.terms)
+      if (s === 0) {
+        score = 0
+        break
+      }
+      score += s
+    }
+    if (score === 0) continue
+    if (normalizeSearchText(item.label).join(" ").startsWith(phrase)) {
+      score += 2
+    }
+    scored.push({ item, score })
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.item.label.length - b.item.label.length,
+    )
+    .slice(0, limit)
+    .map(({ item }) => item)
+}
@@ -0,0 +1,82 @@
+import type {
+  OfficialBoundaryType,
+  OfficialContactKind,
+} from "@/types/officials"
+
+export const OFFICIAL_BOUNDARY_TYPES: readonly OfficialBoundaryType[] = [
+  "congressional",
+  "state_senate",
+  "state_house",
+  "psc",
+]
+
+export function isOfficialBoundaryType(
+  boundaryType: string,
+): boundaryType is OfficialBoundaryType {
+  return (OFFICIAL_BOUNDARY_TYPES as readonly string[]).includes(boundaryType)
+}
+
+// Census GEOIDs for districts: 2-digit state FIPS + 2-digit congressional
+// or 3-digit legislative district, e.g. "1305" or "13105"
+const DISTRICT_GEOID = /^\d{2}(\d{2,3})$/
+
+/**
+ * District number used to match office holders, without leading zeros.
+ * Boundary names carry it ("District 5", "State House District 105");
+ * the identifier is the fallback, read as a GEOID when it looks like one
+ * ("1305" → "5") and otherwise by its trailing digits.
+ */
+export function officialDistrictNumber(
+  name: string,
+  boundaryIdentifier: string,
+): string | null {
+  const fromName = /(\d+)\s*$/.exec(name.trim())
+  const identifier = boundaryIdentifier.trim()
+  const digits =
+    fromName?.[1] ??
+    DISTRICT_GEOID.exec(identifier)?.[1] ??
+    /(\d+)$/.exec(identifier)?.[1]
+  if (!digits) return null
+  return String(Number.parseInt(digits, 10))
+}
+
+const partyAbbreviations: Record<string, string> = {
+  democratic: "D",
+  democrat: "D",
+  republican: "R",
+  independent: "I",
+  libertarian: "L",
+  green: "G",
+}
+
+/** "Democratic" → "D"; unknown parties keep their first letter. */
+export function partyAbbreviation(party: string | null): string | null {
+  if (!party) return null
+  const key = party.trim().toLowerCase()
+  return partyAbbreviations[key] ?? key.charAt(0).toUpperCase()
+}
+
+export const contactKindLabels: Record<OfficialContactKind, string> = {
+  website: "Website",
+  email: "Email",
+  phone: "Phone",
+  twitter: "X / Twitter",
+  facebook: "Facebook",
+  other: "Link",
+}
+
+/** "Jan 2025 – Jan 2027", open-ended when the term has no end date. */
+export function formatTerm(
+  termStart: string | null,
+  termEnd: string | null,
+): string | null {
+  if (!termStart && !termEnd) return null
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      year: "numeric",
+    })
+  const start = termStart ? format(termStart) : "?"
+  const end = termEnd ? format(termEnd) : "present"
+  return `${start} – ${end}`
+}
@@ -0,0 +1,199 @@
+import { z } from "zod"
+import type { PathOptions } from "leaflet"
+import { boundaryTypeLabels } from "@/lib/districts"
+import type {
+  MapExportLegendItem,
+  MapExportLegendSection,
+} from "@/lib/map-export"
+import { DISTRICT_COLORS, getDistrictStyle } from "@/lib/map-palette"
+import type { BoundaryFeatureCollection } from "@/types/boundary"
+
+export const OVERLAY_COLOR_SCHEMES = [
+  "palette",
+  "blue",
+  "red",
+  "green",
+  "purple",
+  "orange",
+  "gray",
+] as const
+
+export type OverlayColorScheme = (typeof OVERLAY_COLOR_SCHEMES)[number]
+
+export const overlayColorSchemeLabels: Record<OverlayColorScheme, string> = {
+  palette: "Distinct colors",
+  blue: "Blue",
+  red: "Red",
+  green: "Green",
+  purple: "Purple",
+  orange: "Orange",
+  gray: "Gray",
+}
+
+/** Single-hue schemes: every district of the layer shares one color. */
+const SCHEME_COLORS: Record<
+  Exclude<OverlayColorScheme, "palette">,
+  { fill: string; border: string }
+> = {
+  blue: { fill: "#4363d8", border: "#2e45a0" },
+  red: { fill: "#e6194b", border: "#a01235" },
+  green: { fill: "#3cb44b", border: "#2a7d34" },
+  purple: { fill: "#911eb4", border: "#6b1685" },
+  orange: { fill: "#f58231", border: "#b55f1e" },
+  gray: { fill: "#a9a9a9", border: "#575757" },
+}
+
+/** Swatch shown for a scheme in the layer settings. */
+export function overlaySchemeSwatch(scheme: OverlayColorScheme): string {
+  return scheme === "palette"
+    ? "conic-gradient(#e6194b, #3cb44b, #4363d8, #f58231, #e6194b)"
+    : SCHEME_COLORS[scheme].fill
+}
+
+export const MAX_OVERLAY_LAYERS = 4
+export const DEFAULT_OVERLAY_OPACITY = 100
+
+export const overlayLayerSchema = z.object({
+  type: z.string().regex(/^[a-z0-9_]+$/),
+  /** 0-100, scales both the fill and the outline */
+  opacity: z
+    .number()
+    .int()
+    .min(0)
+    .max(100)
+    .catch(DEFAULT_OVERLAY_OPACITY),
+  scheme: z.enum(OVERLAY_COLOR_SCHEMES).catch("palette"),
+  /** Permanent district labels; on unless turned off */
+  labels: z.boolean().catch(true),
+})
+
+export type OverlayLayerSettings = z.infer<typeof overlayLayerSchema>
+
+/**
+ * `layers` search param shared by the map routes. Order is z-order: the
+ * last layer is drawn on top.
+ */
+export const overlayLayersSearchSchema = z
+  .array(overlayLayerSchema)
+  .max(MAX_OVERLAY_LAYERS)
+  .optional()
+  .catch(undefined)
+
+/** A layer whose GeoJSON has loaded, ready to draw. */
+export interface OverlayLayerData {
+  settings: OverlayLayerSettings
+  data: BoundaryFeatureCollection
+}
+
+/**
+ * Layers to draw for a route's search params. Links from before layers
+ * could be stacked carry a single `overlay` type instead.
+ */
+export function resolveOverlayLayers(
+  layers: OverlayLayerSettings[] | undefined,
+  legacyOverlay: string | undefined,
+): OverlayLayerSettings[] {
+  if (!layers) {
+    return legacyOverlay ? [createOverlayLayer(legacyOverlay, [])] : []
+  }
+  const seen = new Set<string>()
+  return layers.filter((layer) => {
+    if (seen.has(layer.type)) return false
+    seen.add(layer.type)
+    return true
+  })
+}
+
+/**
+ * New layer settings. The first layer keeps the per-district palette;
+ * later ones get a single hue not already in use so stacked layers stay
+ * distinguishable.
+ */
+export function createOverlayLayer(
+  type: string,
+  existing: OverlayLayerSettings[],
+): OverlayLayerSettings {
+  const used = new Set(existing.map((layer) => layer.scheme))
+  const scheme =
+    existing.length === 0
+      ? "palette"
+      : (OVERLAY_COLOR_SCHEMES.find(
+          (s) => s !== "palette" && !used.has(s),
+        ) ?? "gray")
+  return { type, opacity: DEFAULT_OVERLAY_OPACITY, scheme, labels: true }
+}
+
+/**
+ * Show exactly the given types, keeping the settings and order of layers
+ * that stay on and adding new ones on top.
+ */
+export function setOverlayLayerTypes(
+  layers: OverlayLayerSettings[],
+  types: string[],
+): OverlayLayerSettings[] {
+  const next = layers.filter((layer) => types.includes(layer.type))
+  for (const type of types) {
+    if (next.length >= MAX_OVERLAY_LAYERS) break
+    if (!next.some((layer) => layer.type === type)) {
+      next.push(createOverlayLayer(type, next))
+    }
+  }
+  return next
+}
+
+/** Swap a layer with its neighbour; +1 raises it, -1 lowers it. */
+export function moveOverlayLayer(
+  layers: OverlayLayerSettings[],
+  index: number,
+  direction: 1 | -1,
+): OverlayLayerSettings[] {
+  const target = index + direction
+  if (target < 0 || target >= layers.length) return layers
+  const next = [...layers]
+  const [layer] = next.splice(index, 1)
+  next.splice(target, 0, layer)
+  return next
+}
+
+/** Leaflet style for one district of a layer. */
+export function overlayFeatureStyle(
+  settings: Pick<OverlayLayerSettings, "opacity" | "scheme">,
+  featureIndex: number,
+): PathOptions {
+  const base = getDistrictStyle(featureIndex)
+  const colors =
+    settings.scheme === "palette" ? null : SCHEME_COLORS[settings.scheme]
+  const alpha = settings.opacity / 100
+  return {
+    ...base,
+    ...(colors && { color: colors.border, fillColor: colors.fill }),
+    opacity: (base.opacity ?? 1) * alpha,
+    fillOpacity: (base.fillOpacity ?? 0) * alpha,
+  }
+}
+
+function overlayLegendItem(
+  settings: OverlayLayerSettings,
+): MapExportLegendItem {
+  const label =
+    boundaryTypeLabels[settings.type] ?? settings.type.replaceAll("_", " ")
+  if (settings.scheme === "palette") {
+    return {
+      label,
+      colors: DISTRICT_COLORS.slice(0, 4).map((color) => color.fill),
+      stroke: null,
+    }
+  }
+  const colors = SCHEME_COLORS[settings.scheme]
+  return { label, colors: [colors.fill], stroke: colors.border }
+}
+
+/** Map export legend for the layers, topmost first; empty with no layers. */
+export function overlayLegendSections(
+  layers: OverlayLayerSettings[],
+): MapExportLegendSection[] {
+  if (layers.length === 0) return []
+  return [
+    { title: "Districts", items: layers.map(overlayLegendItem).reverse() },
+  ]
+}
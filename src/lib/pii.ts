@@ -0,0 +1,65 @@
+import type { UserRole } from "@/types/auth"
+import type { VoterGeocodedLocation } from "@/types/lookup"
+import type { VoterDetail, VoterSummary } from "@/types/voters"
+
+const MASK_CHAR = "•"
+
+/** Admins and analysts see voter PII in full; viewers see masked values. */
+export function canViewVoterPii(role: UserRole | null | undefined): boolean {
+  return role === "admin" || role === "analyst"
+}
+
+/** Mask all but the last `visible` characters, e.g. "••••5678". */
+export function maskTrailing(value: string, visible = 4): string {
+  if (value.length <= visible) return MASK_CHAR.repeat(value.length)
+  return MASK_CHAR.repeat(value.length - visible) + value.slice(-visible)
+}
+
+/**
+ * Hide the house number and any unit number in a street address while
+ * keeping the street name, so viewers can still tell neighbourhoods apart.
+ */
+export function maskStreetAddress(address: string): string {
+  return address
+    .replace(/^\s*\d+[A-Za-z]?(-\d+)?\b/, MASK_CHAR.repeat(3))
+    .replace(
+      /(\b(?:apt|unit|ste|suite)\b\.?|#)\s*[\w-]+/gi,
+      (_, label: string) => `${label} ${MASK_CHAR.repeat(3)}`,
+    )
+}
+
+export function maskVoterSummary<T extends VoterSummary>(voter: T): T {
+  return {
+    ...voter,
+    voter_registration_number: maskTrailing(voter.voter_registration_number),
+    residence_address: maskStreetAddress(voter.residence_address),
+  }
+}
+
+/** Masked copy of a voter record for roles without PII access. */
+export function maskVoterDetail(voter: VoterDetail): VoterDetail {
+  return {
+    ...maskVoterSummary(voter),
+    birth_year: null,
+    gender: null,
+    race: null,
+    mailing_address: voter.mailing_address
+      ? maskStreetAddress(voter.mailing_address)
+      : null,
+  }
+}
+
+/**
+ * Masked copy of a geocoded location. Coordinates are rounded to two
+ * decimal places (roughly a kilometre) so the residence cannot be pinned.
+ */
+export function maskGeocodedLocation(
+  location: VoterGeocodedLocation,
+): VoterGeocodedLocation {
+  return {
+    ...location,
+    latitude: Math.round(location.latitude * 100) / 100,
+    longitude: Math.round(location.longitude * 100) / 100,
+    input_address: maskStreetAddress(location.input_address),
+  }
+}
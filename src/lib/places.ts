@@ -0,0 +1,143 @@
+import { STORES, requestToPromise, withStore } from "@/lib/db"
+import { toCsv } from "@/lib/csv"
+import { groupDistricts } from "@/lib/districts"
+import type {
+  LookupHistoryEntry,
+  NewSavedPlace,
+  SavedPlace,
+} from "@/types/places"
+
+/** Number of history entries kept per user; older entries are pruned. */
+export const MAX_HISTORY_ENTRIES = 50
+
+function byOwner<T>(store: IDBObjectStore, owner: string): Promise<T[]> {
+  return requestToPromise(
+    store.index("owner").getAll(IDBKeyRange.only(owner)),
+  ) as Promise<T[]>
+}
+
+// --- Lookup history ---
+
+async function historyNewestFirst(
+  store: IDBObjectStore,
+  owner: string,
+): Promise<LookupHistoryEntry[]> {
+  const entries = await byOwner<LookupHistoryEntry>(store, owner)
+  return entries.sort((a, b) => b.lookedUpAt.localeCompare(a.lookedUpAt))
+}
+
+/** List a user's lookup history, most recent first. */
+export function listLookupHistory(
+  owner: string,
+): Promise<LookupHistoryEntry[]> {
+  return withStore(STORES.lookupHistory, "readonly", (store) =>
+    historyNewestFirst(store, owner),
+  )
+}
+
+/**
+ * Record a lookup. Re-looking up the same point replaces the earlier entry,
+ * and history beyond `MAX_HISTORY_ENTRIES` is pruned oldest-first. Reading,
+ * pruning and adding share one transaction so concurrent lookups cannot
+ * interleave.
+ */
+export async function addLookupHistoryEntry(
+  entry: Omit<LookupHistoryEntry, "id" | "lookedUpAt">,
+): Promise<void> {
+  await withStore(STORES.lookupHistory, "readwrite", async (store) => {
+    const existing = await historyNewestFirst(store, entry.owner)
+    const duplicates = existing.filter(
+      (e) => e.latitude === entry.latitude && e.longitude === entry.longitude,
+    )
+    const remaining = existing.filter((e) => !duplicates.includes(e))
+    const overflow = remaining.slice(MAX_HISTORY_ENTRIES - 1)
+    for (const stale of [...duplicates, ...overflow]) {
+      store.delete(stale.id)
+    }
+    store.put({
+      ...entry,
+      id: crypto.randomUUID(),
+      lookedUpAt: new Date().toISOString(),
+    } satisfies LookupHistoryEntry)
+  })
+}
+
+export async function clearLookupHistory(owner: string): Promise<void> {
+  await withStore(STORES.lookupHistory, "readwrite", async (store) => {
+    const entries = await byOwner<LookupHistoryEntry>(store, owner)
+    for (const entry of entries) store.delete(entry.id)
+  })
+}
+
+// --- Saved places ---
+
+/** List a user's saved places, pinned first, then by name. */
+export async function listSavedPlaces(owner: string): Promise<SavedPlace[]> {
+  const places = await withStore(STORES.savedPlaces, "readonly", (store) =>
+    byOwner<SavedPlace>(store, owner),
+  )
+  return places.sort(
+    (a, b) =>
+      Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name),
+  )
+}
+
+export async function createSavedPlace(
+  owner: string,
+  place: NewSavedPlace,
+): Promise<SavedPlace> {
+  const now = new Date().toISOString()
+  const saved: SavedPlace = {
+    ...place,
+    id: crypto.randomUUID(),
+    owner,
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await withStore(STORES.savedPlaces, "readwrite", (store) => {
+    store.put(saved)
+  })
+  return saved
+}
+
+export async function updateSavedPlace(
+  place: SavedPlace,
+  changes: Partial<Pick<SavedPlace, "name" | "pinned">>,
+): Promise<SavedPlace> {
+  const updated: SavedPlace = {
+    ...place,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  }
+  await withStore(STORES.savedPlaces, "readwrite", (store) => {
+    store.put(updated)
+  })
+  return updated
+}
+
+export async function deleteSavedPlace(id: string): Promise<void> {
+  await withStore(STORES.savedPlaces, "readwrite", (store) => {
+    store.delete(id)
+  })
+}
+
+/**
+ * Serialize saved places to CSV with one row per place and a
+ * "Districts" column summarizing each place's districts by type.
+ */
+export function savedPlacesToCsv(places: SavedPlace[]): string {
+  return toCsv(
+    ["Name", "Address", "Latitude", "Longitude", "Pinned", "Districts"],
+    places.map((place) => [
+      place.name,
+      place.address ?? "",
+      String(place.latitude),
+      String(place.longitude),
+      place.pinned ? "yes" : "no",
+      groupDistricts(place.districts)
+        .map((g) => `${g.label}: ${g.districts.map((d) => d.name).join(", ")}`)
+        .join("; "),
+    ]),
+  )
+}
@@ -1,3 +1,6 @@
+/** Georgia's state FIPS code; every boundary in the app is in Georgia. */
+export const GA_STATE_FIPS = "13"
+
 /** FIPS state code → lowercase two-letter abbreviation (all 50 states + DC). */
 export const FIPS_TO_ABBREV: Record<string, string> = {
   "01": "al",
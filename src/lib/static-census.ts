@@ -0,0 +1,40 @@
+import type { CensusApiRawResponse, CensusVintage } from "@/types/census"
+
+/**
+ * Raw Census API tables for one state, saved by scripts/fetch-census.mjs.
+ * Each table is one batch of variables, header row first.
+ */
+export interface CensusSnapshot {
+  fetchedAt: string
+  fipsState: string
+  state: CensusApiRawResponse[]
+  counties: CensusApiRawResponse[]
+}
+
+const snapshots = new Map<string, Promise<CensusSnapshot | null>>()
+
+/**
+ * Loads the build-time census snapshot from static assets
+ * (public/census/<dataset>-<year>/<state FIPS>.json). Returns null if it
+ * doesn't exist, letting callers use the API.
+ */
+export function fetchStaticCensusSnapshot(
+  { year, dataset }: CensusVintage,
+  fipsState: string,
+): Promise<CensusSnapshot | null> {
+  const path = `census/${dataset}-${year}/${fipsState}.json`
+  let snapshot = snapshots.get(path)
+  if (!snapshot) {
+    snapshot = (async () => {
+      try {
+        const res = await fetch(`${import.meta.env.BASE_URL}${path}`)
+        if (!res.ok) return null
+        return (await res.json()) as CensusSnapshot
+      } catch {
+        return null
+      }
+    })()
+    snapshots.set(path, snapshot)
+  }
+  return snapshot
+}
@@ -0,0 +1,134 @@
+import { BASEMAP_SOURCES, plainAttribution } from "@/lib/basemaps"
+
+const TILE_SIZE = 256
+
+// Snapshots use the streets basemap, so a self-hosted tile server covers
+// them too
+const STREETS = BASEMAP_SOURCES.streets
+
+export interface StaticMapOptions {
+  latitude: number
+  longitude: number
+  zoom?: number
+  width?: number
+  height?: number
+  /**
+   * XYZ tile template; the server must send CORS headers. Without one the
+   * marker is drawn on a blank background.
+   */
+  tileUrl?: string
+  attribution?: string
+}
+
+/** Project a coordinate to Web Mercator pixel space at the given zoom. */
+function toWorldPixel(
+  latitude: number,
+  longitude: number,
+  zoom: number,
+): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sinLat = Math.sin((latitude * Math.PI) / 180)
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  }
+}
+
+/** Fill in an XYZ template the way Leaflet's TileLayer does. */
+export function tileUrl(
+  template: string,
+  z: number,
+  x: number,
+  y: number,
+): string {
+  return template
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+    .replace("{s}", "a")
+    .replace("{r}", "")
+}
+
+export function loadTile(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => resolve(img)
+    // A missing tile leaves a blank square rather than failing the snapshot
+    img.onerror = () => resolve(null)
+    img.src = url
+  })
+}
+
+/**
+ * Draw a non-interactive map snapshot centred on a point, with a marker
+ * and attribution, onto a canvas. Used where a live Leaflet map can't go,
+ * such as generated PDFs.
+ */
+export async function renderStaticMap({
+  latitude,
+  longitude,
+  zoom = 15,
+  width = 640,
+  height = 320,
+  tileUrl: template = STREETS?.url,
+  attribution = STREETS ? plainAttribution(STREETS.attribution) : "",
+}: StaticMapOptions): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas is not supported in this browser")
+
+  ctx.fillStyle = "#e5e7eb"
+  ctx.fillRect(0, 0, width, height)
+
+  const center = toWorldPixel(latitude, longitude, zoom)
+  const left = center.x - width / 2
+  const top = center.y - height / 2
+  const tileCount = 2 ** zoom
+
+  const minTileX = Math.floor(left / TILE_SIZE)
+  const maxTileX = Math.floor((left + width) / TILE_SIZE)
+  const minTileY = Math.floor(top / TILE_SIZE)
+  const maxTileY = Math.floor((top + height) / TILE_SIZE)
+
+  const tiles: Promise<void>[] = []
+  if (template) {
+    for (let tx = minTileX; tx <= maxTileX; tx++) {
+      for (let ty = minTileY; ty <= maxTileY; ty++) {
+        if (ty < 0 || ty >= tileCount) continue
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount
+        tiles.push(
+          loadTile(tileUrl(template, zoom, wrappedX, ty)).then((img) => {
+            if (img) {
+              ctx.drawImage(img, tx * TILE_SIZE - left, ty * TILE_SIZE - top)
+            }
+          }),
+        )
+      }
+    }
+  }
+  await Promise.all(tiles)
+
+  // Marker
+  ctx.beginPath()
+  ctx.arc(width / 2, height / 2, 8, 0, 2 * Math.PI)
+  ctx.fillStyle = "#2563eb"
+  ctx.fill()
+  ctx.lineWidth = 3
+  ctx.strokeStyle = "#ffffff"
+  ctx.stroke()
+
+  // Attribution
+  if (!attribution) return canvas
+  ctx.font = "11px sans-serif"
+  const textWidth = ctx.measureText(attribution).width
+  ctx.fillStyle = "rgba(255, 255, 255, 0.8)"
+  ctx.fillRect(width - textWidth - 8, height - 16, textWidth + 8, 16)
+  ctx.fillStyle = "#374151"
+  ctx.textBaseline = "middle"
+  ctx.fillText(attribution, width - textWidth - 4, height - 8)
+
+  return canvas
+}
@@ -0,0 +1,28 @@
+import type {
+  VoterRegistrationStatus,
+  VoterSummary,
+} from "@/types/voters"
+
+export const voterStatusLabels: Record<VoterRegistrationStatus, string> = {
+  active: "Active",
+  inactive: "Inactive",
+  cancelled: "Cancelled",
+}
+
+export const VOTER_PAGE_SIZES = [25, 50, 100] as const
+
+export function getVoterStatusBadgeVariant(
+  status: VoterRegistrationStatus,
+): "default" | "secondary" | "outline" {
+  if (status === "active") return "default"
+  if (status === "inactive") return "secondary"
+  return "outline"
+}
+
+/** "Last, First Middle" as printed on the voter file. */
+export function formatVoterName(
+  voter: Pick<VoterSummary, "first_name" | "middle_name" | "last_name">,
+): string {
+  const given = [voter.first_name, voter.middle_name].filter(Boolean).join(" ")
+  return given ? `${voter.last_name}, ${given}` : voter.last_name
+}
@@ -13,14 +13,22 @@ import { Route as LoginRouteImport } from './routes/login'
 import { Route as AdminRouteImport } from './routes/admin'
 import { Route as AboutRouteImport } from './routes/about'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as VotersIndexRouteImport } from './routes/voters/index'
 import { Route as LookupIndexRouteImport } from './routes/lookup/index'
 import { Route as AdminIndexRouteImport } from './routes/admin/index'
 import { Route as LookupResultsRouteImport } from './routes/lookup/results'
+import { Route as LookupCompareRouteImport } from './routes/lookup/compare'
+import { Route as LookupCardRouteImport } from './routes/lookup/card'
+import { Route as LookupBatchRouteImport } from './routes/lookup/batch'
 import { Route as DistrictsDistrictIdRouteImport } from './routes/districts/$districtId'
 import { Route as CountiesCountyIdRouteImport } from './routes/counties/$countyId'
+import { Route as CompareCountiesRouteImport } from './routes/compare/counties'
+import { Route as VotersVoterIdIndexRouteImport } from './routes/voters/$voterId/index'
 import { Route as AdminUsersIndexRouteImport } from './routes/admin/users/index'
 import { Route as AdminImportsIndexRouteImport } from './routes/admin/imports/index'
+import { Route as AdminGeocodingIndexRouteImport } from './routes/admin/geocoding/index'
 import { Route as AdminExportsIndexRouteImport } from './routes/admin/exports/index'
+import { Route as VotersVoterIdLocationsRouteImport } from './routes/voters/$voterId/locations'
 import { Route as DistrictsTypeNameRouteImport } from './routes/districts/$type/$name'
 import { Route as CountiesStateCountyRouteImport } from './routes/counties/$state/$county'
 import { Route as AdminUsersCreateRouteImport } from './routes/admin/users/create'
@@ -45,6 +53,11 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const VotersIndexRoute = VotersIndexRouteImport.update({
+  id: '/voters/',
+  path: '/voters/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const LookupIndexRoute = LookupIndexRouteImport.update({
   id: '/lookup/',
   path: '/lookup/',
@@ -60,6 +73,21 @@ const LookupResultsRoute = LookupResultsRouteImport.update({
   path: '/lookup/results',
   getParentRoute: () => rootRouteImport,
 } as any)
+const LookupCompareRoute = LookupCompareRouteImport.update({
+  id: '/lookup/compare',
+  path: '/lookup/compare',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LookupCardRoute = LookupCardRouteImport.update({
+  id: '/lookup/card',
+  path: '/lookup/card',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LookupBatchRoute = LookupBatchRouteImport.update({
+  id: '/lookup/batch',
+  path: '/lookup/batch',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DistrictsDistrictIdRoute = DistrictsDistrictIdRouteImport.update({
   id: '/districts/$districtId',
   path: '/districts/$districtId',
@@ -70,6 +98,16 @@ const CountiesCountyIdRoute = CountiesCountyIdRouteImport.update({
   path: '/counties/$countyId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const CompareCountiesRoute = CompareCountiesRouteImport.update({
+  id: '/compare/counties',
+  path: '/compare/counties',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const VotersVoterIdIndexRoute = VotersVoterIdIndexRouteImport.update({
+  id: '/voters/$voterId/',
+  path: '/voters/$voterId/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminUsersIndexRoute = AdminUsersIndexRouteImport.update({
   id: '/users/',
   path: '/users/',
@@ -80,11 +118,21 @@ const AdminImportsIndexRoute = AdminImportsIndexRouteImport.update({
   path: '/imports/',
   getParentRoute: () => AdminRoute,
 } as any)
+const AdminGeocodingIndexRoute = AdminGeocodingIndexRouteImport.update({
+  id: '/geocoding/',
+  path: '/geocoding/',
+  getParentRoute: () => AdminRoute,
+} as any)
 const AdminExportsIndexRoute = AdminExportsIndexRouteImport.update({
   id: '/exports/',
   path: '/exports/',
   getParentRoute: () => AdminRoute,
 } as any)
+const VotersVoterIdLocationsRoute = VotersVoterIdLocationsRouteImport.update({
+  id: '/voters/$voterId/locations',
+  path: '/voters/$voterId/locations',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DistrictsTypeNameRoute = DistrictsTypeNameRouteImport.update({
   id: '/districts/$type/$name',
   path: '/districts/$type/$name',
@@ -106,33 +154,49 @@ export interface FileRoutesByFullPath {
   '/about': typeof AboutRoute
   '/admin': typeof AdminRouteWithChildren
   '/login': typeof LoginRoute
+  '/compare/counties': typeof CompareCountiesRoute
   '/counties/$countyId': typeof CountiesCountyIdRoute
   '/districts/$districtId': typeof DistrictsDistrictIdRoute
+  '/lookup/batch': typeof LookupBatchRoute
+  '/lookup/card': typeof LookupCardRoute
+  '/lookup/compare': typeof LookupCompareRoute
   '/lookup/results': typeof LookupResultsRoute
   '/admin/': typeof AdminIndexRoute
   '/lookup/': typeof LookupIndexRoute
+  '/voters/': typeof VotersIndexRoute
   '/admin/users/create': typeof AdminUsersCreateRoute
   '/counties/$state/$county': typeof CountiesStateCountyRoute
   '/districts/$type/$name': typeof DistrictsTypeNameRoute
+  '/voters/$voterId/locations': typeof VotersVoterIdLocationsRoute
   '/admin/exports/': typeof AdminExportsIndexRoute
+  '/admin/geocoding/': typeof AdminGeocodingIndexRoute
   '/admin/imports/': typeof AdminImportsIndexRoute
   '/admin/users/': typeof AdminUsersIndexRoute
+  '/voters/$voterId/': typeof VotersVoterIdIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
   '/login': typeof LoginRoute
+  '/compare/counties': typeof CompareCountiesRoute
   '/counties/$countyId': typeof CountiesCountyIdRoute
   '/districts/$districtId': typeof DistrictsDistrictIdRoute
+  '/lookup/batch': typeof LookupBatchRoute
+  '/lookup/card': typeof LookupCardRoute
+  '/lookup/compare': typeof LookupCompareRoute
   '/lookup/results': typeof LookupResultsRoute
   '/admin': typeof AdminIndexRoute
   '/lookup': typeof LookupIndexRoute
+  '/voters': typeof VotersIndexRoute
   '/admin/users/create': typeof AdminUsersCreateRoute
   '/counties/$state/$county': typeof CountiesStateCountyRoute
   '/districts/$type/$name': typeof DistrictsTypeNameRoute
+  '/voters/$voterId/locations': typeof VotersVoterIdLocationsRoute
   '/admin/exports': typeof AdminExportsIndexRoute
+  '/admin/geocoding': typeof AdminGeocodingIndexRoute
   '/admin/imports': typeof AdminImportsIndexRoute
   '/admin/users': typeof AdminUsersIndexRoute
+  '/voters/$voterId': typeof VotersVoterIdIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -140,17 +204,25 @@ export interface FileRoutesById {
   '/about': typeof AboutRoute
   '/admin': typeof AdminRouteWithChildren
   '/login': typeof LoginRoute
+  '/compare/counties': typeof CompareCountiesRoute
   '/counties/$countyId': typeof CountiesCountyIdRoute
   '/districts/$districtId': typeof DistrictsDistrictIdRoute
+  '/lookup/batch': typeof LookupBatchRoute
+  '/lookup/card': typeof LookupCardRoute
+  '/lookup/compare': typeof LookupCompareRoute
   '/lookup/results': typeof LookupResultsRoute
   '/admin/': typeof AdminIndexRoute
   '/lookup/': typeof LookupIndexRoute
+  '/voters/': typeof VotersIndexRoute
   '/admin/users/create': typeof AdminUsersCreateRoute
   '/counties/$state/$county': typeof CountiesStateCountyRoute
   '/districts/$type/$name': typeof DistrictsTypeNameRoute
+  '/voters/$voterId/locations': typeof VotersVoterIdLocationsRoute
   '/admin/exports/': typeof AdminExportsIndexRoute
+  '/admin/geocoding/': typeof AdminGeocodingIndexRoute
   '/admin/imports/': typeof AdminImportsIndexRoute
   '/admin/users/': typeof AdminUsersIndexRoute
+  '/voters/$voterId/': typeof VotersVoterIdIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -159,50 +231,74 @@ export interface FileRouteTypes {
     | '/about'
     | '/admin'
     | '/login'
+    | '/compare/counties'
     | '/counties/$countyId'
     | '/districts/$districtId'
+    | '/lookup/batch'
+    | '/lookup/card'
+    | '/lookup/compare'
     | '/lookup/results'
     | '/admin/'
     | '/lookup/'
+    | '/voters/'
     | '/admin/users/create'
     | '/counties/$state/$county'
     | '/districts/$type/$name'
+    | '/voters/$voterId/locations'
     | '/admin/exports/'
+    | '/admin/geocoding/'
     | '/admin/imports/'
     | '/admin/users/'
+    | '/voters/$voterId/'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
     | '/about'
     | '/login'
+    | '/compare/counties'
     | '/counties/$countyId'
     | '/districts/$districtId'
+    | '/lookup/batch'
+    | '/lookup/card'
+    | '/lookup/compare'
     | '/lookup/results'
     | '/admin'
     | '/lookup'
+    | '/voters'
     | '/admin/users/create'
     | '/counties/$state/$county'
     | '/districts/$type/$name'
+    | '/voters/$voterId/locations'
     | '/admin/exports'
+    | '/admin/geocoding'
     | '/admin/imports'
     | '/admin/users'
+    | '/voters/$voterId'
   id:
     | '__root__'
     | '/'
     | '/about'
     | '/admin'
     | '/login'
+    | '/compare/counties'
     | '/counties/$countyId'
     | '/districts/$districtId'
+    | '/lookup/batch'
+    | '/lookup/card'
+    | '/lookup/compare'
     | '/lookup/results'
     | '/admin/'
     | '/lookup/'
+    | '/voters/'
     | '/admin/users/create'
     | '/counties/$state/$county'
     | '/districts/$type/$name'
+    | '/voters/$voterId/locations'
     | '/admin/exports/'
+    | '/admin/geocoding/'
     | '/admin/imports/'
     | '/admin/users/'
+    | '/voters/$voterId/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -210,12 +306,19 @@ export interface RootRouteChildren {
   AboutRoute: typeof AboutRoute
   AdminRoute: typeof AdminRouteWithChildren
   LoginRoute: typeof LoginRoute
+  CompareCountiesRoute: typeof CompareCountiesRoute
   CountiesCountyIdRoute: typeof CountiesCountyIdRoute
   DistrictsDistrictIdRoute: typeof DistrictsDistrictIdRoute
+  LookupBatchRoute: typeof LookupBatchRoute
+  LookupCardRoute: typeof LookupCardRoute
+  LookupCompareRoute: typeof LookupCompareRoute
   LookupResultsRoute: typeof LookupResultsRoute
   LookupIndexRoute: typeof LookupIndexRoute
+  VotersIndexRoute: typeof VotersIndexRoute
   CountiesStateCountyRoute: typeof CountiesStateCountyRoute
   DistrictsTypeNameRoute: typeof DistrictsTypeNameRoute
+  VotersVoterIdLocationsRoute: typeof VotersVoterIdLocationsRoute
+  VotersVoterIdIndexRoute: typeof VotersVoterIdIndexRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -248,6 +351,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/voters/': {
+      id: '/voters/'
+      path: '/voters'
+      fullPath: '/voters/'
+      preLoaderRoute: typeof VotersIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/lookup/': {
       id: '/lookup/'
       path: '/lookup'
@@ -269,6 +379,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LookupResultsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/lookup/compare': {
+      id: '/lookup/compare'
+      path: '/lookup/compare'
+      fullPath: '/lookup/compare'
+      preLoaderRoute: typeof LookupCompareRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/lookup/card': {
+      id: '/lookup/card'
+      path: '/lookup/card'
+      fullPath: '/lookup/card'
+      preLoaderRoute: typeof LookupCardRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/lookup/batch': {
+      id: '/lookup/batch'
+      path: '/lookup/batch'
+      fullPath: '/lookup/batch'
+      preLoaderRoute: typeof LookupBatchRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/districts/$districtId': {
       id: '/districts/$districtId'
       path: '/districts/$districtId'
@@ -283,6 +414,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof CountiesCountyIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/compare/counties': {
+      id: '/compare/counties'
+      path: '/compare/counties'
+      fullPath: '/compare/counties'
+      preLoaderRoute: typeof CompareCountiesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/voters/$voterId/': {
+      id: '/voters/$voterId/'
+      path: '/voters/$voterId'
+      fullPath: '/voters/$voterId/'
+      preLoaderRoute: typeof VotersVoterIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/users/': {
       id: '/admin/users/'
       path: '/users'
@@ -297,6 +442,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminImportsIndexRouteImport
       parentRoute: typeof AdminRoute
     }
+    '/admin/geocoding/': {
+      id: '/admin/geocoding/'
+      path: '/geocoding'
+      fullPath: '/admin/geocoding/'
+      preLoaderRoute: typeof AdminGeocodingIndexRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/admin/exports/': {
       id: '/admin/exports/'
       path: '/exports'
@@ -304,6 +456,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminExportsIndexRouteImport
       parentRoute: typeof AdminRoute
     }
+    '/voters/$voterId/locations': {
+      id: '/voters/$voterId/locations'
+      path: '/voters/$voterId/locations'
+      fullPath: '/voters/$voterId/locations'
+      preLoaderRoute: typeof VotersVoterIdLocationsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/districts/$type/$name': {
       id: '/districts/$type/$name'
       path: '/districts/$type/$name'
@@ -332,6 +491,7 @@ interface AdminRouteChildren {
   AdminIndexRoute: typeof AdminIndexRoute
   AdminUsersCreateRoute: typeof AdminUsersCreateRoute
   AdminExportsIndexRoute: typeof AdminExportsIndexRoute
+  AdminGeocodingIndexRoute: typeof AdminGeocodingIndexRoute
   AdminImportsIndexRoute: typeof AdminImportsIndexRoute
   AdminUsersIndexRoute: typeof AdminUsersIndexRoute
 }
@@ -340,6 +500,7 @@ const AdminRouteChildren: AdminRouteChildren = {
   AdminIndexRoute: AdminIndexRoute,
   AdminUsersCreateRoute: AdminUsersCreateRoute,
   AdminExportsIndexRoute: AdminExportsIndexRoute,
+  AdminGeocodingIndexRoute: AdminGeocodingIndexRoute,
   AdminImportsIndexRoute: AdminImportsIndexRoute,
   AdminUsersIndexRoute: AdminUsersIndexRoute,
 }
@@ -351,12 +512,19 @@ const rootRouteChildren: RootRouteChildren = {
   AboutRoute: AboutRoute,
   AdminRoute: AdminRouteWithChildren,
   LoginRoute: LoginRoute,
+  CompareCountiesRoute: CompareCountiesRoute,
   CountiesCountyIdRoute: CountiesCountyIdRoute,
   DistrictsDistrictIdRoute: DistrictsDistrictIdRoute,
+  LookupBatchRoute: LookupBatchRoute,
+  LookupCardRoute: LookupCardRoute,
+  LookupCompareRoute: LookupCompareRoute,
   LookupResultsRoute: LookupResultsRoute,
   LookupIndexRoute: LookupIndexRoute,
+  VotersIndexRoute: VotersIndexRoute,
   CountiesStateCountyRoute: CountiesStateCountyRoute,
   DistrictsTypeNameRoute: DistrictsTypeNameRoute,
+  VotersVoterIdLocationsRoute: VotersVoterIdLocationsRoute,
+  VotersVoterIdIndexRoute: VotersVoterIdIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
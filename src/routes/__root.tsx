@@ -7,7 +7,16 @@ import {
 } from "@tanstack/react-router"
 import { TanStackRouterDevtools } from "@tanstack/react-router-devtools"
 import { useEffect, useState } from "react"
-import { Loader2, LogIn, LogOut, Menu, Search, User } from "lucide-react"
+import {
+  BarChart3,
+  Loader2,
+  LogIn,
+  LogOut,
+  Menu,
+  Search,
+  User,
+  Users,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
   Sheet,
@@ -22,10 +31,15 @@ import { useCountyBoundary } from "@/hooks/useCountyBoundary"
 import { useCountySlugResolver } from "@/hooks/useCountySlugResolver"
 import { useDistrictSlugResolver } from "@/hooks/useDistrictSlugResolver"
 import { useBoundaryTypes } from "@/hooks/useBoundaryTypes"
-import { useBoundaryTypeGeoJSON } from "@/hooks/useBoundaryTypeGeoJSON"
+import { useOverlayLayersGeoJSON } from "@/hooks/useOverlayLayersGeoJSON"
 import { useStatewideOverlayTypes } from "@/hooks/useStatewideOverlayTypes"
 import { useUserRole } from "@/lib/hooks/use-user-role"
+import {
+  resolveOverlayLayers,
+  type OverlayLayerSettings,
+} from "@/lib/overlay-layers"
 import { AdminNavMenu, AdminNavLinks } from "@/components/admin-nav-menu"
+import { ThemeToggle } from "@/components/theme-toggle"
 import { Toaster } from "@/components/ui/sonner"
 
 function MobileNav({
@@ -78,6 +92,15 @@ function MobileNav({
                 About
               </Link>
             </SheetClose>
+            <SheetClose asChild>
+              <Link
+                to="/compare/counties"
+                className="[&.active]:font-bold py-2 text-sm flex items-center gap-2"
+              >
+                <BarChart3 className="h-4 w-4" />
+                Compare Counties
+              </Link>
+            </SheetClose>
             {isAuthenticated && (
               <SheetClose asChild>
                 <Link
@@ -89,6 +112,17 @@ function MobileNav({
                 </Link>
               </SheetClose>
             )}
+            {isAuthenticated && (
+              <SheetClose asChild>
+                <Link
+                  to="/voters"
+                  className="[&.active]:font-bold py-2 text-sm flex items-center gap-2"
+                >
+                  <Users className="h-4 w-4" />
+                  Voters
+                </Link>
+              </SheetClose>
+            )}
 
             {isAdmin && (
               <div className="pt-2 border-t mt-2">
@@ -97,7 +131,8 @@ function MobileNav({
             )}
           </div>
 
-          <div className="shrink-0 border-t px-4 py-4">
+          <div className="shrink-0 border-t px-4 py-4 flex flex-col gap-3">
+            <ThemeToggle showLabel />
             {isAuthenticated && user ? (
               <div className="flex flex-col gap-3">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -174,6 +209,31 @@ function RootLayout() {
     from: "/lookup/results",
     shouldThrow: false,
   })
+  const lookupBatchMatch = useMatch({
+    from: "/lookup/batch",
+    shouldThrow: false,
+  })
+  const lookupCompareMatch = useMatch({
+    from: "/lookup/compare",
+    shouldThrow: false,
+  })
+  const lookupCardMatch = useMatch({
+    from: "/lookup/card",
+    shouldThrow: false,
+  })
+  const votersMatch = useMatch({ from: "/voters/", shouldThrow: false })
+  const voterDetailMatch = useMatch({
+    from: "/voters/$voterId/",
+    shouldThrow: false,
+  })
+  const voterLocationsMatch = useMatch({
+    from: "/voters/$voterId/locations",
+    shouldThrow: false,
+  })
+  const compareCountiesMatch = useMatch({
+    from: "/compare/counties",
+    shouldThrow: false,
+  })
   const districtIdMatch = useMatch({
     from: "/districts/$districtId",
     shouldThrow: false,
@@ -212,22 +272,25 @@ function RootLayout() {
 
   const isOnHomePage = !!homeMatch
 
-  const countyOverlay =
-    (countyIdMatch?.search as { overlay?: string } | undefined)?.overlay ??
-    (countySlugMatch?.search as { overlay?: string } | undefined)?.overlay
-  const homeOverlay = (homeMatch?.search as { overlay?: string } | undefined)
-    ?.overlay
-  const selectedType = countyOverlay ?? homeOverlay ?? null
+  const layerSearch = (countyIdMatch?.search ??
+    countySlugMatch?.search ??
+    homeMatch?.search) as
+    | { layers?: OverlayLayerSettings[]; overlay?: string }
+    | undefined
+  const layers = resolveOverlayLayers(
+    layerSearch?.layers,
+    layerSearch?.overlay,
+  )
 
   const { data: boundaryTypes, isLoading: isTypesLoading } =
     useBoundaryTypes()
   const { data: statewideTypes, isLoading: isStatewideTypesLoading } =
     useStatewideOverlayTypes()
-  const { data: overlayData, isLoading: isOverlayLoading } =
-    useBoundaryTypeGeoJSON(
-      selectedType,
-      isOnCountyRoute ? (county?.name ?? null) : null,
-    )
+  const { featureCounts } = useOverlayLayersGeoJSON(
+    layers,
+    isOnCountyRoute ? (county?.name ?? null) : null,
+    isOnHomePage || !!county,
+  )
 
   // Determine header title
   let headerTitle: string | null = null
@@ -236,39 +299,58 @@ function RootLayout() {
     headerTitle = `${district.name} (${typeLabel})`
   } else if (isOnCountyRoute && county) {
     headerTitle = `${county.name} County`
-  } else if (lookupMatch || lookupResultsMatch) {
+  } else if (
+    lookupMatch ||
+    lookupResultsMatch ||
+    lookupBatchMatch ||
+    lookupCompareMatch ||
+    lookupCardMatch
+  ) {
     headerTitle = "Address Lookup"
+  } else if (votersMatch || voterDetailMatch || voterLocationsMatch) {
+    headerTitle = "Voters"
+  } else if (compareCountiesMatch) {
+    headerTitle = "Compare Counties"
   } else if (homeMatch) {
     headerTitle = "Voter Web"
   }
 
-  // Layer bar type change callback
-  const handleTypeChange = (type: string | undefined) => {
+  const countyLabels =
+    (homeMatch?.search as { countyLabels?: boolean } | undefined)
+      ?.countyLabels ?? false
+  const handleCountyLabelsChange = (shown: boolean) => {
+    navigate({
+      from: "/",
+      to: "/",
+      search: (prev) => ({ ...prev, countyLabels: shown || undefined }),
+      replace: true,
+    })
+  }
+
+  // Layer bar callback: the layer stack lives in the page's search params
+  const handleLayersChange = (next: OverlayLayerSettings[]) => {
+    const search = {
+      layers: next.length > 0 ? next : undefined,
+      overlay: undefined,
+    }
     if (isOnHomePage) {
       navigate({
         to: "/",
-        search: {
-          overlay: type as
-            | "congressional"
-            | "psc"
-            | "state_house"
-            | "state_senate"
-            | undefined,
-        },
+        search: (prev) => ({ ...prev, ...search }),
         replace: true,
       })
     } else if (countySlugMatch) {
       navigate({
         to: "/counties/$state/$county",
         params: { state: slugState, county: slugCounty },
-        search: { overlay: type },
+        search,
         replace: true,
       })
     } else {
       navigate({
         to: "/counties/$countyId",
         params: { countyId },
-        search: { overlay: type },
+        search,
         replace: true,
       })
     }
@@ -295,8 +377,8 @@ function RootLayout() {
   }
 
   return (
-    <div className="h-svh flex flex-col overflow-hidden bg-background text-foreground">
-      <header className="flex-none bg-background z-50">
+    <div className="h-svh flex flex-col overflow-hidden bg-background text-foreground print:h-auto print:overflow-visible">
+      <header className="flex-none bg-background z-50 print:hidden">
         {/* Row 1: Primary nav — desktop */}
         <nav className="hidden md:flex border-b px-4 py-2 items-center">
           <div className="flex-1 flex gap-4 min-w-0">
@@ -306,6 +388,13 @@ function RootLayout() {
             <Link to="/about" className="[&.active]:font-bold shrink-0">
               About
             </Link>
+            <Link
+              to="/compare/counties"
+              className="[&.active]:font-bold shrink-0"
+              aria-label="Compare counties"
+            >
+              <BarChart3 className="h-4 w-4" />
+            </Link>
             {isAuthenticated && (
               <Link
                 to="/lookup"
@@ -315,6 +404,15 @@ function RootLayout() {
                 <Search className="h-4 w-4" />
               </Link>
             )}
+            {isAuthenticated && (
+              <Link
+                to="/voters"
+                className="[&.active]:font-bold shrink-0"
+                aria-label="Voters"
+              >
+                <Users className="h-4 w-4" />
+              </Link>
+            )}
             {isAdmin && <AdminNavMenu />}
           </div>
 
@@ -325,6 +423,7 @@ function RootLayout() {
           )}
 
           <div className="flex-1 flex items-center justify-end gap-3 min-w-0">
+            <ThemeToggle />
             {isAuthenticated && user ? (
               <>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -364,13 +463,9 @@ function RootLayout() {
           <LayerBar
             boundaryTypes={boundaryTypes}
             isTypesLoading={isTypesLoading}
-            selectedType={selectedType}
-            onTypeChange={handleTypeChange}
-            overlayFeatureCount={
-              selectedType && overlayData && !isOverlayLoading
-                ? overlayData.features.length
-                : null
-            }
+            layers={layers}
+            onLayersChange={handleLayersChange}
+            featureCounts={featureCounts}
             countyName={county.name}
           />
         )}
@@ -378,19 +473,17 @@ function RootLayout() {
           <LayerBar
             boundaryTypes={statewideTypes}
             isTypesLoading={isStatewideTypesLoading}
-            selectedType={selectedType}
-            onTypeChange={handleTypeChange}
-            overlayFeatureCount={
-              selectedType && overlayData && !isOverlayLoading
-                ? overlayData.features.length
-                : null
-            }
+            layers={layers}
+            onLayersChange={handleLayersChange}
+            featureCounts={featureCounts}
             countyName="Georgia"
             statewide
+            countyLabels={countyLabels}
+            onCountyLabelsChange={handleCountyLabelsChange}
           />
         )}
       </header>
-      <main className="flex-1 min-h-0 overflow-auto">
+      <main className="flex-1 min-h-0 overflow-auto print:overflow-visible">
         <Outlet />
       </main>
       <Toaster />
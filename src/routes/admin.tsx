@@ -17,8 +17,8 @@ function AdminLayout() {
     return (
       <div className="container mx-auto p-6">
         <div className="animate-pulse space-y-4">
-          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
-          <div className="h-64 bg-gray-200 rounded"></div>
+          <div className="h-8 bg-gray-200 dark:bg-gray-800 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 dark:bg-gray-800 rounded"></div>
         </div>
       </div>
     )
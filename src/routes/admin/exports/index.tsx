@@ -89,10 +89,10 @@ function ExportsPage() {
       </div>
 
       {hasActiveJobs && (
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="bg-blue-50 border border-blue-200 dark:bg-blue-950/30 dark:border-blue-900 rounded-lg p-4">
           <div className="flex items-center gap-2">
-            <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
-            <p className="text-sm text-blue-900">
+            <Loader2 className="h-4 w-4 animate-spin text-blue-600 dark:text-blue-400" />
+            <p className="text-sm text-blue-900 dark:text-blue-200">
               Export jobs are processing. The table will update automatically.
             </p>
           </div>
@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react"
+import { toast } from "sonner"
+import { AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useBatchGeocode } from "@/hooks/useAddressLookup"
+import { useCountyBoundaries } from "@/hooks/useCountyBoundaries"
+import { useGeocodingJobsStore } from "@/stores/geocodingJobsStore"
+import type { BatchGeocodeJob, BatchGeocodeRequest } from "@/types/lookup"
+
+// Radix Select does not allow an empty item value
+const ALL = "__all__"
+
+interface BatchGeocodeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Providers offered in the picker, from getGeocodingProviderOptions */
+  providers: string[]
+  onStarted: (job: BatchGeocodeJob) => void
+}
+
+export function BatchGeocodeDialog({
+  open,
+  onOpenChange,
+  providers,
+  onStarted,
+}: BatchGeocodeDialogProps) {
+  const [county, setCounty] = useState(ALL)
+  const [provider, setProvider] = useState(ALL)
+  const [forceRegeocode, setForceRegeocode] = useState(false)
+  const batchGeocodeMutation = useBatchGeocode()
+  const addJob = useGeocodingJobsStore((state) => state.addJob)
+  const { data: counties } = useCountyBoundaries()
+
+  const countyNames = useMemo(
+    () =>
+      (counties?.features ?? [])
+        .map((feature) => feature.properties.name)
+        .sort((a, b) => a.localeCompare(b)),
+    [counties],
+  )
+
+  const handleStart = () => {
+    const request: BatchGeocodeRequest = {
+      county: county === ALL ? undefined : county,
+      provider: provider === ALL ? undefined : provider,
+      force_regeocode: forceRegeocode || undefined,
+    }
+    batchGeocodeMutation.mutate(request, {
+      onSuccess: (job) => {
+        addJob({ id: job.id, request, launchedAt: new Date().toISOString() })
+        toast.success("Batch geocoding started", {
+          description: `${job.total_records.toLocaleString()} records queued.`,
+        })
+        onStarted(job)
+        onOpenChange(false)
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Start Batch Geocoding</DialogTitle>
+          <DialogDescription>
+            Geocode voter addresses in the background
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="geocodeCounty">County</Label>
+            <Select value={county} onValueChange={setCounty}>
+              <SelectTrigger id="geocodeCounty" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All counties</SelectItem>
+                {countyNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="geocodeProvider">Provider</Label>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger id="geocodeProvider" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Server default</SelectItem>
+                {providers.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="forceRegeocode"
+              checked={forceRegeocode}
+              onCheckedChange={(checked) => setForceRegeocode(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="forceRegeocode">Force re-geocode</Label>
+              <p className="text-xs text-muted-foreground">
+                Geocode every address again, even ones already in the cache.
+                This is slower and may incur provider costs.
+              </p>
+            </div>
+          </div>
+
+          {batchGeocodeMutation.isError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Failed to start batch: {batchGeocodeMutation.error.message}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={batchGeocodeMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={batchGeocodeMutation.isPending}
+          >
+            {batchGeocodeMutation.isPending ? "Starting..." : "Start Batch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
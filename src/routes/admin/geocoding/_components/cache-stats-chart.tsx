@@ -0,0 +1,85 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatNumber } from "@/lib/formatters"
+import type { CacheStats } from "@/types/lookup"
+
+interface CacheStatsChartProps {
+  stats: CacheStats
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString()
+
+/** Cached geocode counts per provider, with the date range each covers. */
+export function CacheStatsChart({ stats }: CacheStatsChartProps) {
+  const data = Object.entries(stats)
+    .map(([provider, entry]) => ({ provider, ...entry }))
+    .sort((a, b) => b.count - a.count)
+
+  return (
+    <div className="space-y-4">
+      <ResponsiveContainer width="100%" height={Math.max(120, data.length * 48)}>
+        <BarChart
+          data={data}
+          layout="vertical"
+          margin={{ left: 20, right: 20, top: 5, bottom: 5 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis
+            type="number"
+            tickFormatter={(v: number) => formatNumber(v)}
+          />
+          <YAxis type="category" dataKey="provider" width={100} />
+          <RechartsTooltip
+            formatter={(value) => [formatNumber(Number(value)), "Cached"]}
+          />
+          <Bar dataKey="count" fill="#4363d8" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead className="text-right">Cached</TableHead>
+              <TableHead>Earliest</TableHead>
+              <TableHead>Latest</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.map((row) => (
+              <TableRow key={row.provider}>
+                <TableCell className="font-medium">{row.provider}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatNumber(row.count)}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatDate(row.earliest)}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatDate(row.latest)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useBatchGeocodeStatus } from "@/hooks/useAddressLookup"
+import { formatNumber } from "@/lib/formatters"
+import {
+  formatDuration,
+  getGeocodeJobEta,
+  getGeocodeJobProgress,
+  getGeocodeJobStatusBadgeVariant,
+  getGeocodeJobThroughput,
+  isActiveGeocodeJob,
+} from "@/lib/geocoding-jobs"
+import { cn } from "@/lib/utils"
+
+interface GeocodingJobProgressProps {
+  jobId: string
+}
+
+function Stat({
+  label,
+  value,
+  className,
+}: {
+  label: string
+  value: string
+  className?: string
+}) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className={cn("text-lg font-semibold tabular-nums", className)}>
+        {value}
+      </dd>
+    </div>
+  )
+}
+
+/**
+ * Live progress for one batch job. Polls every 3 seconds until the job
+ * completes or fails.
+ */
+export function GeocodingJobProgress({ jobId }: GeocodingJobProgressProps) {
+  const { data: job, isLoading, error, dataUpdatedAt } =
+    useBatchGeocodeStatus(jobId)
+
+  if (isLoading) {
+    return <Skeleton className="h-40 rounded-lg" />
+  }
+
+  if (error || !job) {
+    return (
+      <div className="border border-destructive rounded-lg p-6 text-center">
+        <p className="text-destructive">
+          Failed to load job {jobId.slice(0, 8)}
+          {error ? `: ${error.message}` : ""}
+        </p>
+      </div>
+    )
+  }
+
+  const progress = getGeocodeJobProgress(job)
+  const throughput = getGeocodeJobThroughput(job, dataUpdatedAt)
+  const eta = getGeocodeJobEta(job, throughput)
+  const isActive = isActiveGeocodeJob(job)
+
+  return (
+    <div className="border rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold">Job</h2>
+          <span className="font-mono text-xs text-muted-foreground">
+            {job.id.slice(0, 8)}
+          </span>
+          <Badge variant={getGeocodeJobStatusBadgeVariant(job.status)}>
+            {job.status}
+          </Badge>
+        </div>
+        {isActive && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Updating every 3s
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={progress === null ? undefined : Math.round(progress)}
+          aria-label="Batch geocoding progress"
+          className="h-2 w-full overflow-hidden rounded-full bg-muted"
+        >
+          <div
+            className="h-full bg-primary transition-[width]"
+            style={{ width: `${progress ?? 0}%` }}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {formatNumber(job.processed)} / {formatNumber(job.total_records)}{" "}
+          processed
+          {progress !== null && ` (${Math.round(progress)}%)`}
+          {eta !== null && ` · about ${formatDuration(eta)} remaining`}
+        </p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+        <Stat label="Processed" value={formatNumber(job.processed)} />
+        <Stat
+          label="Succeeded"
+          value={formatNumber(job.succeeded)}
+          className="text-green-600"
+        />
+        <Stat
+          label="Failed"
+          value={formatNumber(job.failed)}
+          className={job.failed > 0 ? "text-destructive" : undefined}
+        />
+        <Stat label="Cache hits" value={formatNumber(job.cache_hits)} />
+        <Stat
+          label="Throughput"
+          value={throughput === null ? "-" : `${throughput.toFixed(1)}/s`}
+        />
+      </dl>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { X } from "lucide-react"
+import { useBatchGeocodeStatus } from "@/hooks/useAddressLookup"
+import { formatNumber } from "@/lib/formatters"
+import {
+  getGeocodeJobProgress,
+  getGeocodeJobStatusBadgeVariant,
+} from "@/lib/geocoding-jobs"
+import { cn } from "@/lib/utils"
+import type { GeocodingJobRecord } from "@/stores/geocodingJobsStore"
+
+interface GeocodingJobTableProps {
+  jobs: GeocodingJobRecord[]
+  selectedJobId: string | null
+  onSelect: (jobId: string) => void
+  onRemove: (jobId: string) => void
+}
+
+const formatDateTime = (dateString: string | null) => {
+  if (!dateString) return "-"
+  return new Date(dateString).toLocaleString()
+}
+
+function GeocodingJobRow({
+  record,
+  isSelected,
+  onSelect,
+  onRemove,
+}: {
+  record: GeocodingJobRecord
+  isSelected: boolean
+  onSelect: (jobId: string) => void
+  onRemove: (jobId: string) => void
+}) {
+  // Each row polls its own job while it is active
+  const { data: job, isError } = useBatchGeocodeStatus(record.id)
+  const progress = job ? getGeocodeJobProgress(job) : null
+
+  return (
+    <TableRow
+      onClick={() => onSelect(record.id)}
+      aria-selected={isSelected}
+      className={cn("cursor-pointer", isSelected && "bg-muted")}
+    >
+      <TableCell className="font-mono text-xs">{record.id.slice(0, 8)}</TableCell>
+      <TableCell>{record.request.county ?? "All counties"}</TableCell>
+      <TableCell>
+        <div className="flex flex-wrap gap-1">
+          <Badge variant="outline">{record.request.provider ?? "default"}</Badge>
+          {record.request.force_regeocode && (
+            <Badge variant="outline">force</Badge>
+          )}
+        </div>
+      </TableCell>
+      <TableCell>
+        {job ? (
+          <Badge variant={getGeocodeJobStatusBadgeVariant(job.status)}>
+            {job.status}
+          </Badge>
+        ) : isError ? (
+          <Badge variant="outline">unknown</Badge>
+        ) : null}
+      </TableCell>
+      <TableCell className="text-xs text-muted-foreground">
+        {job &&
+          `${formatNumber(job.processed)} / ${formatNumber(job.total_records)}${
+            progress !== null ? ` (${Math.round(progress)}%)` : ""
+          }`}
+        {job && job.failed > 0 && (
+          <span className="text-destructive">
+            {" "}
+            · {formatNumber(job.failed)} failed
+          </span>
+        )}
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">
+        {formatDateTime(job?.started_at ?? record.launchedAt)}
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">
+        {formatDateTime(job?.completed_at ?? null)}
+      </TableCell>
+      <TableCell>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          aria-label={`Remove job ${record.id.slice(0, 8)} from history`}
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove(record.id)
+          }}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export function GeocodingJobTable({
+  jobs,
+  selectedJobId,
+  onSelect,
+  onRemove,
+}: GeocodingJobTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Job ID</TableHead>
+            <TableHead>County</TableHead>
+            <TableHead>Provider</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Progress</TableHead>
+            <TableHead>Started</TableHead>
+            <TableHead>Completed</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {jobs.map((record) => (
+            <GeocodingJobRow
+              key={record.id}
+              record={record}
+              isSelected={record.id === selectedJobId}
+              onSelect={onSelect}
+              onRemove={onRemove}
+            />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { useState } from "react"
+import { Database, Loader2, MapPinned, RefreshCw } from "lucide-react"
+import { useCacheStats } from "@/hooks/useAddressLookup"
+import { getGeocodingProviderOptions } from "@/lib/geocoding-jobs"
+import { useGeocodingJobsStore } from "@/stores/geocodingJobsStore"
+import { EmptyState } from "@/components/ui/empty-state"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { AdminErrorBoundary } from "@/components/admin-error-boundary"
+import { BatchGeocodeDialog } from "./_components/batch-geocode-dialog"
+import { CacheStatsChart } from "./_components/cache-stats-chart"
+import { GeocodingJobProgress } from "./_components/geocoding-job-progress"
+import { GeocodingJobTable } from "./_components/geocoding-job-table"
+
+export const Route = createFileRoute("/admin/geocoding/")({
+  component: () => (
+    <AdminErrorBoundary>
+      <GeocodingPage />
+    </AdminErrorBoundary>
+  ),
+})
+
+function GeocodingPage() {
+  const jobs = useGeocodingJobsStore((state) => state.jobs)
+  const removeJob = useGeocodingJobsStore((state) => state.removeJob)
+  const clearJobs = useGeocodingJobsStore((state) => state.clearJobs)
+  const {
+    data: cacheStats,
+    isLoading: isCacheLoading,
+    error: cacheError,
+    refetch: refetchCacheStats,
+    isRefetching: isCacheRefetching,
+  } = useCacheStats()
+  const [showStartDialog, setShowStartDialog] = useState(false)
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+
+  // Show the most recent job until the user picks another one
+  const visibleJobId =
+    selectedJobId && jobs.some((job) => job.id === selectedJobId)
+      ? selectedJobId
+      : (jobs[0]?.id ?? null)
+  const providers = Object.keys(cacheStats ?? {}).sort()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Batch Geocoding</h1>
+          <p className="text-muted-foreground">
+            Geocode voter addresses in bulk and monitor the geocode cache
+          </p>
+        </div>
+        <Button onClick={() => setShowStartDialog(true)}>
+          <MapPinned className="h-4 w-4 mr-2" />
+          Start Batch
+        </Button>
+      </div>
+
+      {visibleJobId && <GeocodingJobProgress jobId={visibleJobId} />}
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Job History</h2>
+          {jobs.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearJobs}>
+              Clear history
+            </Button>
+          )}
+        </div>
+        {jobs.length === 0 ? (
+          <EmptyState
+            icon={<MapPinned className="h-12 w-12" />}
+            title="No batch jobs yet"
+            description="Start a batch to geocode voter addresses for one county or the whole state. Jobs started from this browser are listed here."
+            action={{
+              label: "Start Batch",
+              onClick: () => setShowStartDialog(true),
+            }}
+          />
+        ) : (
+          <GeocodingJobTable
+            jobs={jobs}
+            selectedJobId={visibleJobId}
+            onSelect={setSelectedJobId}
+            onRemove={removeJob}
+          />
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Cache Statistics</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => refetchCacheStats()}
+            disabled={isCacheRefetching}
+          >
+            {isCacheRefetching ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+        {isCacheLoading ? (
+          <Skeleton className="h-48 rounded-lg" />
+        ) : cacheError ? (
+          <div className="border border-destructive rounded-lg p-6 text-center">
+            <p className="text-destructive">
+              Failed to load cache statistics: {cacheError.message}
+            </p>
+          </div>
+        ) : providers.length === 0 ? (
+          <EmptyState
+            icon={<Database className="h-12 w-12" />}
+            title="Cache is empty"
+            description="Geocoded addresses are cached per provider. Statistics appear here after the first batch."
+          />
+        ) : (
+          <CacheStatsChart stats={cacheStats!} />
+        )}
+      </section>
+
+      <BatchGeocodeDialog
+        open={showStartDialog}
+        onOpenChange={setShowStartDialog}
+        providers={getGeocodingProviderOptions(cacheStats)}
+        onStarted={(job) => setSelectedJobId(job.id)}
+      />
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { createFileRoute, Link } from "@tanstack/react-router"
-import { Users, Upload, Download } from "lucide-react"
+import { Users, Upload, Download, MapPinned } from "lucide-react"
 import { Button } from "@/components/ui/button"
 
 export const Route = createFileRoute("/admin/")({
@@ -12,15 +12,15 @@ function AdminIndexPage() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">Admin Dashboard</h1>
         <p className="text-muted-foreground">
-          Manage users, import data, and generate exports
+          Manage users, import data, generate exports, and run geocoding
         </p>
       </div>
 
-      <div className="grid md:grid-cols-3 gap-6">
+      <div className="grid md:grid-cols-2 gap-6">
         {/* User Management Card */}
         <div className="border rounded-lg p-6 hover:shadow-md transition-shadow">
           <div className="flex items-center gap-3 mb-4">
-            <div className="p-2 rounded-lg bg-blue-100 text-blue-600">
+            <div className="p-2 rounded-lg bg-blue-100 text-blue-600 dark:bg-blue-950 dark:text-blue-400">
               <Users className="h-6 w-6" />
             </div>
             <h2 className="text-xl font-semibold">User Management</h2>
@@ -36,7 +36,7 @@ function AdminIndexPage() {
         {/* Imports Card */}
         <div className="border rounded-lg p-6 hover:shadow-md transition-shadow">
           <div className="flex items-center gap-3 mb-4">
-            <div className="p-2 rounded-lg bg-green-100 text-green-600">
+            <div className="p-2 rounded-lg bg-green-100 text-green-600 dark:bg-green-950 dark:text-green-400">
               <Upload className="h-6 w-6" />
             </div>
             <h2 className="text-xl font-semibold">Imports</h2>
@@ -64,6 +64,22 @@ function AdminIndexPage() {
             <Link to="/admin/exports">View Exports</Link>
           </Button>
         </div>
+
+        {/* Geocoding Card */}
+        <div className="border rounded-lg p-6 hover:shadow-md transition-shadow">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="p-2 rounded-lg bg-orange-100 text-orange-600 dark:bg-orange-950 dark:text-orange-400">
+              <MapPinned className="h-6 w-6" />
+            </div>
+            <h2 className="text-xl font-semibold">Geocoding</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Batch geocode voter addresses and review cache statistics
+          </p>
+          <Button asChild className="w-full">
+            <Link to="/admin/geocoding">Open Console</Link>
+          </Button>
+        </div>
       </div>
     </div>
   )
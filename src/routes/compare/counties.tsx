@@ -0,0 +1,287 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router"
+import { useMemo } from "react"
+import { z } from "zod"
+import { AlertCircle, BarChart3, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  CensusComparisonSections,
+  type CensusComparisonColumn,
+  type CensusFieldPopulations,
+} from "@/components/census/CensusComparison"
+import { CensusExportButtons } from "@/components/census/CensusExportButtons"
+import { useAllCountyCensusProfiles } from "@/hooks/useAllCountyCensusProfiles"
+import { useCountyBoundaries } from "@/hooks/useCountyBoundaries"
+import { useCountyCensusExport } from "@/hooks/useCountyCensusExport"
+import { useStateCensusProfile } from "@/hooks/useStateCensusProfile"
+import {
+  DEFAULT_CENSUS_VINTAGE,
+  censusDatasetLabels,
+  formatVintage,
+} from "@/lib/census"
+import { CENSUS_FIELDS } from "@/lib/census-fields"
+import {
+  censusExportFilename,
+  exportCensusProfiles,
+  type CensusExportFormat,
+} from "@/lib/census-export"
+import { downloadBlob } from "@/lib/download"
+import { GA_STATE_FIPS } from "@/lib/states"
+
+const MAX_COUNTIES = 4
+
+const COUNTY_COLORS = ["#4363d8", "#e6194b", "#3cb44b", "#f58231"]
+const STATE_COLOR = "#6b7280"
+
+const compareCountiesSearchSchema = z.object({
+  /** 5-digit county FIPS codes, e.g. ["13121", "13089"] */
+  counties: z
+    .array(z.string().regex(/^\d{5}$/))
+    .max(MAX_COUNTIES)
+    .optional()
+    .catch(undefined),
+  state: z.boolean().optional().catch(undefined),
+})
+
+export const Route = createFileRoute("/compare/counties")({
+  component: CompareCountiesPage,
+  validateSearch: compareCountiesSearchSchema,
+})
+
+function CompareCountiesPage() {
+  const { counties: selected = [], state: includeState = false } =
+    Route.useSearch()
+  const navigate = useNavigate({ from: Route.fullPath })
+
+  const vintage = DEFAULT_CENSUS_VINTAGE
+  const { data: boundaries, isLoading: isBoundariesLoading } =
+    useCountyBoundaries()
+  const {
+    data: profiles,
+    isLoading: isProfilesLoading,
+    error: profilesError,
+  } = useAllCountyCensusProfiles(GA_STATE_FIPS, vintage)
+  const { data: stateProfile } = useStateCensusProfile(
+    includeState ? GA_STATE_FIPS : undefined,
+    vintage,
+  )
+
+  const countyNames = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const feature of boundaries?.features ?? []) {
+      const fips = feature.properties.boundary_identifier
+      if (fips.startsWith(GA_STATE_FIPS)) {
+        names.set(fips, feature.properties.name)
+      }
+    }
+    return new Map(
+      [...names].sort(([, a], [, b]) => a.localeCompare(b)),
+    )
+  }, [boundaries])
+
+  const populations = useMemo<CensusFieldPopulations>(() => {
+    const all = Object.values(profiles ?? {})
+    return Object.fromEntries(
+      CENSUS_FIELDS.map(({ field }) => [
+        field,
+        all.map((profile) => profile[field]),
+      ]),
+    )
+  }, [profiles])
+
+  const columns: CensusComparisonColumn[] = selected.map((fips, index) => ({
+    key: fips,
+    label: `${countyNames.get(fips) ?? fips} County`,
+    color: COUNTY_COLORS[index % COUNTY_COLORS.length],
+    profile: profiles?.[fips.slice(2)],
+    ranked: true,
+  }))
+  if (includeState) {
+    columns.push({
+      key: GA_STATE_FIPS,
+      label: "Georgia",
+      color: STATE_COLOR,
+      profile: stateProfile,
+      ranked: false,
+    })
+  }
+
+  const exportAllCounties = useCountyCensusExport(
+    GA_STATE_FIPS,
+    "Georgia",
+    vintage,
+  )
+
+  const handleExportSelected = async (format: CensusExportFormat) => {
+    const rows = columns.flatMap((column) =>
+      column.profile
+        ? [
+            {
+              geography: { name: column.label, fips: column.key },
+              profile: column.profile,
+            },
+          ]
+        : [],
+    )
+    const blob = await exportCensusProfiles(rows, vintage, format)
+    downloadBlob(
+      blob,
+      censusExportFilename("county comparison", vintage, format),
+    )
+  }
+
+  const setSearch = (counties: string[], state: boolean) => {
+    navigate({
+      search: {
+        counties: counties.length > 0 ? counties : undefined,
+        state: state || undefined,
+      },
+      replace: true,
+    })
+  }
+
+  const available = [...countyNames].filter(
+    ([fips]) => !selected.includes(fips),
+  )
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6 p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Compare Counties
+          </CardTitle>
+          <CardDescription>
+            Pick up to {MAX_COUNTIES} counties to compare their{" "}
+            {censusDatasetLabels[vintage.dataset]} census profiles. Percentile
+            ranks place each value among all {countyNames.size || 159} Georgia
+            counties.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {selected.map((fips, index) => (
+              <span
+                key={fips}
+                className="flex items-center gap-2 rounded-md border py-1 pl-2 pr-1 text-sm"
+              >
+                <span
+                  className="inline-block h-2.5 w-2.5 rounded-sm"
+                  style={{
+                    backgroundColor:
+                      COUNTY_COLORS[index % COUNTY_COLORS.length],
+                  }}
+                />
+                {countyNames.get(fips) ?? fips}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Remove ${countyNames.get(fips) ?? fips}`}
+                  onClick={() =>
+                    setSearch(
+                      selected.filter((f) => f !== fips),
+                      includeState,
+                    )
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            ))}
+            {selected.length < MAX_COUNTIES && (
+              <Select
+                value=""
+                onValueChange={(fips) =>
+                  setSearch([...selected, fips], includeState)
+                }
+                disabled={isBoundariesLoading}
+              >
+                <SelectTrigger className="w-56" aria-label="Add county">
+                  <Plus className="h-4 w-4" />
+                  <SelectValue placeholder="Add county" />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map(([fips, name]) => (
+                    <SelectItem key={fips} value={fips}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="compare-include-state"
+              checked={includeState}
+              onCheckedChange={(checked) =>
+                setSearch(selected, checked === true)
+              }
+            />
+            <Label htmlFor="compare-include-state" className="text-sm">
+              Include Georgia statewide
+            </Label>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            <CensusExportButtons
+              label="Comparison"
+              onExport={handleExportSelected}
+              disabled={columns.length === 0 || isProfilesLoading}
+            />
+            <CensusExportButtons
+              label="All counties"
+              onExport={exportAllCounties}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {profilesError ? (
+        <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>
+            Census data could not be loaded. {profilesError.message}
+          </span>
+        </div>
+      ) : columns.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">
+          Add a county to start comparing.
+        </p>
+      ) : isProfilesLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      ) : (
+        <>
+          <CensusComparisonSections
+            columns={columns}
+            populations={populations}
+          />
+          <p className="text-xs text-muted-foreground">
+            Source: U.S. Census Bureau, {formatVintage(vintage)} Data
+            Profile. Percentile ranks count ties as half below.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,14 @@
 import { createFileRoute } from "@tanstack/react-router"
 import { z } from "zod"
 import { CountyDetailContent } from "@/components/CountyDetailContent"
+import {
+  overlayLayersSearchSchema,
+  resolveOverlayLayers,
+} from "@/lib/overlay-layers"
 
 const countySearchSchema = z.object({
+  layers: overlayLayersSearchSchema,
+  /** Single overlay type from links made before layers could stack */
   overlay: z.string().optional().catch(undefined),
 })
 
@@ -13,6 +19,11 @@ export const Route = createFileRoute("/counties/$countyId")({
 
 function CountyDetailPage() {
   const { countyId } = Route.useParams()
-  const { overlay } = Route.useSearch()
-  return <CountyDetailContent countyId={countyId} overlay={overlay} />
+  const { layers, overlay } = Route.useSearch()
+  return (
+    <CountyDetailContent
+      countyId={countyId}
+      layers={resolveOverlayLayers(layers, overlay)}
+    />
+  )
 }
@@ -2,9 +2,15 @@ import { createFileRoute } from "@tanstack/react-router"
 import { z } from "zod"
 import { Loader2, AlertCircle } from "lucide-react"
 import { CountyDetailContent } from "@/components/CountyDetailContent"
+import {
+  overlayLayersSearchSchema,
+  resolveOverlayLayers,
+} from "@/lib/overlay-layers"
 import { useCountySlugResolver } from "@/hooks/useCountySlugResolver"
 
 const countySearchSchema = z.object({
+  layers: overlayLayersSearchSchema,
+  /** Single overlay type from links made before layers could stack */
   overlay: z.string().optional().catch(undefined),
 })
 
@@ -15,7 +21,7 @@ export const Route = createFileRoute("/counties/$state/$county")({
 
 function CountySlugPage() {
   const { state, county } = Route.useParams()
-  const { overlay } = Route.useSearch()
+  const { layers, overlay } = Route.useSearch()
   const { countyId, isLoading, isNotFound } = useCountySlugResolver(
     state,
     county,
@@ -45,5 +51,10 @@ function CountySlugPage() {
     )
   }
 
-  return <CountyDetailContent countyId={countyId} overlay={overlay} />
+  return (
+    <CountyDetailContent
+      countyId={countyId}
+      layers={resolveOverlayLayers(layers, overlay)}
+    />
+  )
 }
@@ -1,11 +1,31 @@
-import { useState } from "react"
-import { createFileRoute } from "@tanstack/react-router"
+import { useMemo, useState } from "react"
+import { createFileRoute, useNavigate } from "@tanstack/react-router"
 import { z } from "zod"
-import { AlertCircle, ChevronDown, ChevronUp } from "lucide-react"
+import { AlertCircle, ChevronDown, ChevronUp, Crosshair } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ChoroplethControls } from "@/components/ChoroplethControls"
 import { GeorgiaCountyMap } from "@/components/GeorgiaCountyMap"
+import { ProbeResultsSheet } from "@/components/ProbeResultsSheet"
 import { useCountyBoundaries } from "@/hooks/useCountyBoundaries"
-import { useBoundaryTypeGeoJSON } from "@/hooks/useBoundaryTypeGeoJSON"
+import { useOverlayLayersGeoJSON } from "@/hooks/useOverlayLayersGeoJSON"
+import { useAllCountyCensusProfiles } from "@/hooks/useAllCountyCensusProfiles"
 import { StateCensusProfileCard } from "@/components/StateCensusProfileCard"
+import { useAuthStore } from "@/stores/authStore"
+import { roundCoordinate } from "@/lib/geo"
+import { DEFAULT_CENSUS_VINTAGE } from "@/lib/census"
+import { CENSUS_FIELDS, getCensusField } from "@/lib/census-fields"
+import {
+  CLASSIFICATION_METHODS,
+  classifyValues,
+  rampColors,
+  type CountyChoropleth,
+} from "@/lib/choropleth"
+import {
+  overlayLayersSearchSchema,
+  resolveOverlayLayers,
+} from "@/lib/overlay-layers"
+import { GA_STATE_FIPS } from "@/lib/states"
+import type { CensusEstimateField } from "@/types/census"
 import {
   Drawer,
   DrawerContent,
@@ -15,24 +35,103 @@ import {
 } from "@/components/ui/drawer"
 
 const homeSearchSchema = z.object({
+  layers: overlayLayersSearchSchema,
+  /** Single overlay type from links made before layers could stack */
   overlay: z
     .enum(["congressional", "psc", "state_house", "state_senate"])
     .optional()
     .catch(undefined),
+  // Probed point ("what districts am I in"), encoded for shareable links
+  lat: z.coerce.number().min(-90).max(90).optional().catch(undefined),
+  lng: z.coerce.number().min(-180).max(180).optional().catch(undefined),
+  // Census field the counties are shaded by, and how values are classed
+  colorBy: z
+    .enum(
+      CENSUS_FIELDS.map((f) => f.field) as [
+        CensusEstimateField,
+        ...CensusEstimateField[],
+      ],
+    )
+    .optional()
+    .catch(undefined),
+  classify: z.enum(CLASSIFICATION_METHODS).optional().catch(undefined),
+  countyLabels: z.boolean().optional().catch(undefined),
 })
 
+const CHOROPLETH_CLASS_COUNT = 5
+
 export const Route = createFileRoute("/")({
   component: Index,
   validateSearch: homeSearchSchema,
 })
 
 function Index() {
-  const { overlay } = Route.useSearch()
+  const {
+    layers,
+    overlay,
+    lat,
+    lng,
+    colorBy,
+    classify = "quantile",
+    countyLabels = false,
+  } = Route.useSearch()
+  const navigate = useNavigate({ from: "/" })
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const probePoint: [number, number] | null =
+    isAuthenticated && lat !== undefined && lng !== undefined
+      ? [lat, lng]
+      : null
+  const [probeMode, setProbeMode] = useState(probePoint !== null)
   const { data, isLoading: isCountiesLoading, isError, error } =
     useCountyBoundaries()
-  const { data: overlayData, isLoading: isOverlayLoading } =
-    useBoundaryTypeGeoJSON(overlay ?? null, null)
+  const { overlays, isLoading: isOverlayLoading } = useOverlayLayersGeoJSON(
+    resolveOverlayLayers(layers, overlay),
+    null,
+  )
   const [drawerOpen, setDrawerOpen] = useState(false)
+  const { data: countyProfiles, isLoading: isCensusLoading } =
+    useAllCountyCensusProfiles(
+      GA_STATE_FIPS,
+      colorBy ? DEFAULT_CENSUS_VINTAGE : null,
+    )
+
+  const choropleth = useMemo<CountyChoropleth | null>(() => {
+    if (!colorBy || !countyProfiles) return null
+    const values = Object.fromEntries(
+      Object.entries(countyProfiles).map(([fipsCounty, profile]) => [
+        `${GA_STATE_FIPS}${fipsCounty}`,
+        profile[colorBy],
+      ]),
+    )
+    const bounds = classifyValues(
+      Object.values(values),
+      classify,
+      CHOROPLETH_CLASS_COUNT,
+    )
+    return {
+      field: getCensusField(colorBy),
+      method: classify,
+      values,
+      bounds,
+      colors: rampColors(Math.max(bounds.length - 1, 0)),
+    }
+  }, [colorBy, classify, countyProfiles])
+
+  const setProbePoint = (point: [number, number] | null) => {
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        lat: point ? roundCoordinate(point[0]) : undefined,
+        lng: point ? roundCoordinate(point[1]) : undefined,
+      }),
+      replace: true,
+    })
+  }
+
+  const handleProbeModeToggle = () => {
+    if (probeMode) setProbePoint(null)
+    setProbeMode(!probeMode)
+  }
 
   return (
     <div className="relative h-full w-full">
@@ -40,13 +139,60 @@ function Index() {
       <div className="relative z-0 h-full w-full">
         <GeorgiaCountyMap
           data={data ?? null}
-          overlayData={overlayData}
+          overlays={overlays}
           isCountiesLoading={isCountiesLoading}
           isOverlayLoading={isOverlayLoading}
+          isCensusLoading={isCensusLoading}
           className="rounded-none border-0"
+          probeMode={probeMode}
+          probePoint={probePoint}
+          onProbe={(pointLat, pointLng) => setProbePoint([pointLat, pointLng])}
+          choropleth={choropleth}
+          showCountyLabels={countyLabels}
+          // Keep clear of the probe toggle in the top-right corner
+          searchClassName={isAuthenticated ? "right-3 top-14" : undefined}
         />
       </div>
 
+      <ChoroplethControls
+        field={colorBy}
+        method={classify}
+        onFieldChange={(field) =>
+          navigate({
+            search: (prev) => ({ ...prev, colorBy: field }),
+            replace: true,
+          })
+        }
+        onMethodChange={(method) =>
+          navigate({
+            search: (prev) => ({
+              ...prev,
+              classify: method === "quantile" ? undefined : method,
+            }),
+            replace: true,
+          })
+        }
+        className="absolute left-14 top-3 z-[1000]"
+      />
+
+      {/* Probe mode toggle: click anywhere to list the districts at that point */}
+      {isAuthenticated && (
+        <Button
+          variant={probeMode ? "default" : "outline"}
+          size="sm"
+          onClick={handleProbeModeToggle}
+          aria-pressed={probeMode}
+          className="absolute right-3 top-3 z-[1000] shadow-sm"
+        >
+          <Crosshair className="h-4 w-4" />
+          {probeMode ? "Click map to probe" : "Probe districts"}
+        </Button>
+      )}
+      <ProbeResultsSheet
+        point={probePoint}
+        onClose={() => setProbePoint(null)}
+      />
+
       {/* Error overlay on map */}
       {isError && (
         <div className="absolute inset-0 z-[500] flex items-center justify-center bg-background/60">
@@ -0,0 +1,387 @@
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { useState } from "react"
+import {
+  AlertCircle,
+  ArrowLeft,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Play,
+  RotateCcw,
+  Square,
+  Upload,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { BatchResultsTable } from "@/components/lookup/BatchResultsTable"
+import { useBatchLookup } from "@/hooks/useBatchLookup"
+import { requireAuth } from "@/lib/auth-guards"
+import { parseCsv, type ParsedCsv } from "@/lib/csv"
+import { downloadBlob } from "@/lib/download"
+import {
+  buildEnrichedCsv,
+  composeAddress,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_BATCH_RETRIES,
+  MAX_BATCH_ROWS,
+} from "@/lib/batch-lookup"
+import {
+  formatFileSize,
+  MAX_FILE_SIZE,
+  validateFileSize,
+  validateFileType,
+  VOTER_FILE_TYPES,
+} from "@/lib/utils/file-validation"
+
+export const Route = createFileRoute("/lookup/batch")({
+  component: BatchLookupPage,
+  beforeLoad: ({ location }) => {
+    requireAuth(location.pathname)
+  },
+})
+
+const NO_COLUMN = "__none__"
+
+type ColumnRole = "address" | "city" | "state" | "zip"
+
+const columnRoles: { role: ColumnRole; label: string; pattern: RegExp }[] = [
+  { role: "address", label: "Street address", pattern: /address|street/i },
+  { role: "city", label: "City (optional)", pattern: /^city$/i },
+  { role: "state", label: "State (optional)", pattern: /^state$/i },
+  { role: "zip", label: "ZIP (optional)", pattern: /zip|postal/i },
+]
+
+function detectColumns(headers: string[]): Record<ColumnRole, string> {
+  const detected = {} as Record<ColumnRole, string>
+  for (const { role, pattern } of columnRoles) {
+    const index = headers.findIndex((h) => pattern.test(h))
+    detected[role] = index >= 0 ? String(index) : NO_COLUMN
+  }
+  return detected
+}
+
+function BatchLookupPage() {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [csv, setCsv] = useState<ParsedCsv | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [columns, setColumns] = useState<Record<ColumnRole, string>>(
+    detectColumns([]),
+  )
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY)
+  const [maxRetries, setMaxRetries] = useState(DEFAULT_BATCH_RETRIES)
+  const { results, isRunning, start, resume, cancel, reset } =
+    useBatchLookup()
+
+  const handleFile = async (file: File) => {
+    setFileError(null)
+    reset()
+
+    if (!validateFileType(file, VOTER_FILE_TYPES)) {
+      setFileError("File must be in CSV format")
+      return
+    }
+    if (!validateFileSize(file)) {
+      setFileError(
+        `File size must be less than ${formatFileSize(MAX_FILE_SIZE)}`,
+      )
+      return
+    }
+
+    const parsed = parseCsv(await file.text())
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      setFileError("The CSV file has no data rows.")
+      return
+    }
+    if (parsed.rows.length > MAX_BATCH_ROWS) {
+      setFileError(
+        `The CSV file has ${parsed.rows.length.toLocaleString()} rows. Split it into files of at most ${MAX_BATCH_ROWS.toLocaleString()} rows.`,
+      )
+      return
+    }
+
+    setFileName(file.name)
+    setCsv(parsed)
+    setColumns(detectColumns(parsed.headers))
+  }
+
+  const columnIndexes = columnRoles
+    .map(({ role }) => columns[role])
+    .filter((value) => value !== NO_COLUMN)
+    .map(Number)
+  const hasAddressColumn = columns.address !== NO_COLUMN
+  const options = { concurrency, maxRetries }
+
+  const handleStart = () => {
+    if (!csv) return
+    start(
+      csv.rows.map((row) => composeAddress(row, columnIndexes)),
+      options,
+    )
+  }
+
+  const handleDownload = () => {
+    if (!csv || !fileName) return
+    const blob = new Blob([buildEnrichedCsv(csv.headers, csv.rows, results)], {
+      type: "text/csv;charset=utf-8",
+    })
+    downloadBlob(blob, fileName.replace(/\.csv$/i, "") + "-districts.csv")
+  }
+
+  const counts = results.reduce(
+    (acc, row) => {
+      acc[row.status] = (acc[row.status] ?? 0) + 1
+      return acc
+    },
+    {} as Record<string, number>,
+  )
+  const completed =
+    (counts.matched ?? 0) + (counts["no-match"] ?? 0) + (counts.failed ?? 0)
+  const percent = results.length > 0 ? (completed / results.length) * 100 : 0
+  const hasUnfinished = (counts.failed ?? 0) + (counts.pending ?? 0) > 0
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Batch Address Lookup</h1>
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV of addresses to find the districts for every row
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/lookup">
+            <ArrowLeft className="h-4 w-4" />
+            Single Lookup
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            1. Upload CSV
+          </CardTitle>
+          <CardDescription>
+            The first row must contain column headers. Up to{" "}
+            {MAX_BATCH_ROWS.toLocaleString()} rows per file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label
+            htmlFor="batch-file"
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setIsDragging(false)
+              const file = e.dataTransfer.files[0]
+              if (file) handleFile(file)
+            }}
+            className={`flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border border-dashed p-8 text-center text-sm text-muted-foreground transition-colors hover:bg-accent ${
+              isDragging ? "border-primary bg-accent" : ""
+            }`}
+          >
+            <Upload className="h-6 w-6" />
+            {fileName && csv ? (
+              <span>
+                <span className="font-medium text-foreground">{fileName}</span>{" "}
+                — {csv.rows.length.toLocaleString()} rows
+              </span>
+            ) : (
+              <span>Drop a CSV file here or click to browse</span>
+            )}
+            <input
+              id="batch-file"
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              disabled={isRunning}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ""
+              }}
+            />
+          </label>
+
+          {fileError && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>{fileError}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {csv && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map Columns</CardTitle>
+            <CardDescription>
+              Selected columns are joined with commas to form each address
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {columnRoles.map(({ role, label }) => (
+                <div key={role} className="space-y-2">
+                  <Label htmlFor={`column-${role}`}>{label}</Label>
+                  <Select
+                    value={columns[role]}
+                    onValueChange={(value) =>
+                      setColumns((prev) => ({ ...prev, [role]: value }))
+                    }
+                    disabled={isRunning}
+                  >
+                    <SelectTrigger id={`column-${role}`} className="w-full">
+                      <SelectValue placeholder="Select column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>None</SelectItem>
+                      {csv.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {hasAddressColumn && (
+              <p className="text-sm text-muted-foreground">
+                First row:{" "}
+                <span className="font-mono text-foreground">
+                  {composeAddress(csv.rows[0], columnIndexes) || "—"}
+                </span>
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 sm:max-w-sm">
+              <div className="space-y-2">
+                <Label htmlFor="batch-concurrency">Parallel requests</Label>
+                <Input
+                  id="batch-concurrency"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={concurrency}
+                  disabled={isRunning}
+                  onChange={(e) =>
+                    setConcurrency(
+                      Math.min(10, Math.max(1, Number(e.target.value) || 1)),
+                    )
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-retries">Retries per row</Label>
+                <Input
+                  id="batch-retries"
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={maxRetries}
+                  disabled={isRunning}
+                  onChange={(e) =>
+                    setMaxRetries(
+                      Math.min(5, Math.max(0, Number(e.target.value) || 0)),
+                    )
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {isRunning ? (
+                <Button variant="outline" onClick={cancel}>
+                  <Square className="h-4 w-4" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={handleStart} disabled={!hasAddressColumn}>
+                  <Play className="h-4 w-4" />
+                  {results.length > 0 ? "Start Over" : "Start Lookup"}
+                </Button>
+              )}
+              {!isRunning && results.length > 0 && hasUnfinished && (
+                <Button variant="outline" onClick={() => resume(options)}>
+                  <RotateCcw className="h-4 w-4" />
+                  Retry Unfinished
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {isRunning && <Loader2 className="h-5 w-5 animate-spin" />}
+                  3. Results
+                </CardTitle>
+                <CardDescription>
+                  {completed.toLocaleString()} of{" "}
+                  {results.length.toLocaleString()} rows processed ·{" "}
+                  {(counts.matched ?? 0).toLocaleString()} matched ·{" "}
+                  {(counts["no-match"] ?? 0).toLocaleString()} no match ·{" "}
+                  {(counts.failed ?? 0).toLocaleString()} failed
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownload}
+                disabled={completed === 0}
+              >
+                <Download className="h-4 w-4" />
+                Download CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(percent)}
+              aria-label="Batch lookup progress"
+              className="h-2 w-full overflow-hidden rounded-full bg-muted"
+            >
+              <div
+                className="h-full bg-primary transition-[width]"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <BatchResultsTable results={results} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { useMemo, useState } from "react"
+import { z } from "zod"
+import { toast } from "sonner"
+import {
+  AlertCircle,
+  ArrowLeft,
+  FileDown,
+  FileJson,
+  Loader2,
+  Printer,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { usePointLookup } from "@/hooks/useAddressLookup"
+import { useStaticMap } from "@/hooks/useStaticMap"
+import { requireAuth } from "@/lib/auth-guards"
+import {
+  buildDistrictCard,
+  districtCardFilename,
+  districtCardToJson,
+  districtCardToPdf,
+} from "@/lib/district-card"
+import { downloadBlob } from "@/lib/download"
+
+const cardSearchSchema = z.object({
+  address: z.string().optional().catch(undefined),
+  lat: z.coerce.number().optional().catch(undefined),
+  lng: z.coerce.number().optional().catch(undefined),
+})
+
+export const Route = createFileRoute("/lookup/card")({
+  component: DistrictCardPage,
+  validateSearch: cardSearchSchema,
+  beforeLoad: ({ location }) => {
+    requireAuth(location.pathname)
+  },
+})
+
+function DistrictCardPage() {
+  const { address, lat, lng } = Route.useSearch()
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
+
+  const lookupParams =
+    lat !== undefined && lng !== undefined ? { lat, lng } : null
+  const { data, isLoading, isError } = usePointLookup(lookupParams)
+  const { data: mapImage, isLoading: isMapLoading } = useStaticMap(
+    lookupParams
+      ? { latitude: lookupParams.lat, longitude: lookupParams.lng }
+      : null,
+  )
+
+  const card = useMemo(
+    () =>
+      data
+        ? buildDistrictCard(
+            {
+              latitude: data.latitude,
+              longitude: data.longitude,
+              address: address ?? null,
+            },
+            data.districts,
+          )
+        : null,
+    [data, address],
+  )
+
+  const handleDownloadPdf = async () => {
+    if (!card) return
+    setIsGeneratingPdf(true)
+    try {
+      const blob = await districtCardToPdf(card, mapImage)
+      downloadBlob(blob, districtCardFilename(card, "pdf"))
+    } catch (error) {
+      toast.error("Could not generate PDF", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setIsGeneratingPdf(false)
+    }
+  }
+
+  const handleDownloadJson = () => {
+    if (!card) return
+    downloadBlob(districtCardToJson(card), districtCardFilename(card, "json"))
+  }
+
+  if (lookupParams === null) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-4 p-4">
+        <p className="text-muted-foreground">No location provided.</p>
+        <Button variant="outline" asChild>
+          <Link to="/lookup">
+            <ArrowLeft className="h-4 w-4" />
+            Go to Address Lookup
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-md space-y-4 p-4 print:max-w-none print:p-0">
+      <div className="flex flex-wrap gap-2 print:hidden">
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/lookup/results" search={{ lat, lng, address }}>
+            <ArrowLeft className="h-4 w-4" />
+            Back to Results
+          </Link>
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => globalThis.print()}
+            disabled={!card}
+          >
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadPdf}
+            disabled={!card || isMapLoading || isGeneratingPdf}
+          >
+            {isGeneratingPdf ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FileDown className="h-4 w-4" />
+            )}
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadJson}
+            disabled={!card}
+          >
+            <FileJson className="h-4 w-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {isError && (
+        <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>Failed to look up districts. Please try again.</span>
+        </div>
+      )}
+
+      <article className="district-card space-y-4 rounded-lg border bg-card p-5 text-card-foreground print:rounded-none print:border-0 print:p-0">
+        <header>
+          <h2 className="text-xl font-bold">Voter District Card</h2>
+          <p className="text-sm text-muted-foreground">
+            {address ??
+              `${lookupParams.lat.toFixed(5)}, ${lookupParams.lng.toFixed(5)}`}
+          </p>
+        </header>
+
+        {mapImage ? (
+          <img
+            src={mapImage}
+            alt="Map of the looked-up location"
+            className="aspect-[2/1] w-full rounded-md border object-cover"
+          />
+        ) : isMapLoading ? (
+          <Skeleton className="aspect-[2/1] w-full rounded-md" />
+        ) : null}
+
+        {isLoading && (
+          <div className="space-y-2">
+            {Array.from({ length: 7 }).map((_, i) => (
+              <Skeleton key={i} className="h-5" />
+            ))}
+          </div>
+        )}
+
+        {card && (
+          <dl className="divide-y text-sm">
+            {card.districts.map((entry) => (
+              <div
+                key={`${entry.boundaryType}-${entry.identifier}`}
+                className="flex justify-between gap-4 py-1.5"
+              >
+                <dt className="text-muted-foreground">{entry.label}</dt>
+                <dd className="text-right font-semibold">{entry.name}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {card && (
+          <footer className="text-xs text-muted-foreground">
+            Generated {new Date(card.generatedAt).toLocaleDateString()}
+          </footer>
+        )}
+      </article>
+    </div>
+  )
+}
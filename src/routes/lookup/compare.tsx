@@ -0,0 +1,351 @@
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router"
+import { useMemo, useState } from "react"
+import { Controller, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowLeftRight,
+  Loader2,
+  Printer,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { CompareLookupMap } from "@/components/CompareLookupMap"
+import { AddressAutocomplete } from "@/components/lookup/AddressAutocomplete"
+import { DistrictComparisonTable } from "@/components/lookup/DistrictComparisonTable"
+import { usePointLookup } from "@/hooks/useAddressLookup"
+import { useDistrictGeometries } from "@/hooks/useDistrictGeometries"
+import { verifyAddress } from "@/api/lookup"
+import { requireAuth } from "@/lib/auth-guards"
+import { compareDistricts } from "@/lib/districts"
+import { parseCoordinates } from "@/lib/geo"
+import type { AddressSuggestion } from "@/types/lookup"
+import type { LookupTarget } from "@/types/places"
+
+const compareSearchSchema = z.object({
+  aAddress: z.string().optional().catch(undefined),
+  aLat: z.coerce.number().min(-90).max(90).optional().catch(undefined),
+  aLng: z.coerce.number().min(-180).max(180).optional().catch(undefined),
+  bAddress: z.string().optional().catch(undefined),
+  bLat: z.coerce.number().min(-90).max(90).optional().catch(undefined),
+  bLng: z.coerce.number().min(-180).max(180).optional().catch(undefined),
+})
+
+export const Route = createFileRoute("/lookup/compare")({
+  component: LookupComparePage,
+  validateSearch: compareSearchSchema,
+  beforeLoad: ({ location }) => {
+    requireAuth(location.pathname)
+  },
+})
+
+const compareFormSchema = z.object({
+  a: z.string().trim().min(1, "Enter an address or coordinates"),
+  b: z.string().trim().min(1, "Enter an address or coordinates"),
+})
+
+type CompareFormData = z.infer<typeof compareFormSchema>
+type Side = keyof CompareFormData
+
+function formatTarget(target: LookupTarget): string {
+  return (
+    target.address ??
+    `${target.latitude.toFixed(5)}, ${target.longitude.toFixed(5)}`
+  )
+}
+
+/**
+ * Turn one form field into a lookup target: a picked suggestion, a typed
+ * "lat, lng" pair, or the best match from the verify endpoint.
+ */
+async function resolveTarget(
+  text: string,
+  selected: AddressSuggestion | undefined,
+): Promise<LookupTarget | null> {
+  if (selected?.address === text) return selected
+
+  const coordinates = parseCoordinates(text)
+  if (coordinates) return { ...coordinates, address: null }
+
+  const result = await verifyAddress(text)
+  const best = result.suggestions.reduce<AddressSuggestion | undefined>(
+    (top, s) =>
+      !top || s.confidence_score > top.confidence_score ? s : top,
+    undefined,
+  )
+  return best ?? null
+}
+
+function LookupComparePage() {
+  const search = Route.useSearch()
+  const navigate = useNavigate()
+
+  const targetA: LookupTarget | null =
+    search.aLat !== undefined && search.aLng !== undefined
+      ? {
+          latitude: search.aLat,
+          longitude: search.aLng,
+          address: search.aAddress ?? null,
+        }
+      : null
+  const targetB: LookupTarget | null =
+    search.bLat !== undefined && search.bLng !== undefined
+      ? {
+          latitude: search.bLat,
+          longitude: search.bLng,
+          address: search.bAddress ?? null,
+        }
+      : null
+
+  const [selected, setSelected] = useState<
+    Partial<Record<Side, AddressSuggestion>>
+  >({})
+  const [isResolving, setIsResolving] = useState(false)
+  const [apiError, setApiError] = useState<string | null>(null)
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CompareFormData>({
+    resolver: zodResolver(compareFormSchema),
+    defaultValues: {
+      a: targetA ? formatTarget(targetA) : "",
+      b: targetB ? formatTarget(targetB) : "",
+    },
+  })
+
+  const onSubmit = async (data: CompareFormData) => {
+    setApiError(null)
+    setIsResolving(true)
+    try {
+      const [a, b] = await Promise.all([
+        resolveTarget(data.a, selected.a),
+        resolveTarget(data.b, selected.b),
+      ])
+      if (!a || !b) {
+        setApiError(
+          `No matching address found for ${!a ? "A" : "B"}. Please check your input.`,
+        )
+        return
+      }
+      navigate({
+        to: "/lookup/compare",
+        search: {
+          aLat: a.latitude,
+          aLng: a.longitude,
+          aAddress: a.address ?? undefined,
+          bLat: b.latitude,
+          bLng: b.longitude,
+          bAddress: b.address ?? undefined,
+        },
+      })
+    } catch {
+      setApiError("Failed to verify addresses. Please try again.")
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const lookupA = usePointLookup(
+    targetA ? { lat: targetA.latitude, lng: targetA.longitude } : null,
+  )
+  const lookupB = usePointLookup(
+    targetB ? { lat: targetB.latitude, lng: targetB.longitude } : null,
+  )
+
+  const rows = useMemo(
+    () =>
+      lookupA.data && lookupB.data
+        ? compareDistricts(lookupA.data.districts, lookupB.data.districts)
+        : [],
+    [lookupA.data, lookupB.data],
+  )
+  const boundaryIds = useMemo(
+    () => [
+      ...new Set(
+        rows.flatMap((row) =>
+          [...row.a, ...row.b].map((d) => d.boundary_id),
+        ),
+      ),
+    ],
+    [rows],
+  )
+  const { geometries, isLoading: isGeometryLoading } =
+    useDistrictGeometries(boundaryIds)
+
+  const changedCount = rows.filter((row) => row.status !== "same").length
+  const isComparing = lookupA.isLoading || lookupB.isLoading
+  const isLookupError = lookupA.isError || lookupB.isError
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-4 print:max-w-none print:p-0">
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Compare Addresses
+          </CardTitle>
+          <CardDescription>
+            See which districts change between two addresses, such as a
+            voter's old and new residence
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              {(["a", "b"] as const).map((side) => (
+                <div key={side} className="space-y-2">
+                  <Label htmlFor={`compare-${side}`}>
+                    Location {side.toUpperCase()}
+                  </Label>
+                  <Controller
+                    name={side}
+                    control={control}
+                    render={({ field }) => (
+                      <AddressAutocomplete
+                        id={`compare-${side}`}
+                        placeholder="Address or lat, lng"
+                        invalid={!!errors[side]}
+                        disabled={isResolving}
+                        value={field.value}
+                        onChange={field.onChange}
+                        onBlur={field.onBlur}
+                        onSelect={(suggestion) =>
+                          setSelected((prev) => ({
+                            ...prev,
+                            [side]: suggestion,
+                          }))
+                        }
+                      />
+                    )}
+                  />
+                  {errors[side] && (
+                    <p className="text-sm text-destructive">
+                      {errors[side].message}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="submit" disabled={isResolving}>
+                {isResolving ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Verifying addresses...
+                  </>
+                ) : (
+                  <>
+                    <ArrowLeftRight className="h-4 w-4" />
+                    Compare
+                  </>
+                )}
+              </Button>
+              <Button variant="ghost" asChild>
+                <Link to="/lookup">
+                  <ArrowLeft className="h-4 w-4" />
+                  Address Lookup
+                </Link>
+              </Button>
+            </div>
+          </form>
+
+          {apiError && (
+            <div className="mt-4 flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>{apiError}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {targetA && targetB && (
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <h2 className="text-xl font-semibold">District Comparison</h2>
+              <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 text-sm text-muted-foreground">
+                <dt className="font-medium">A:</dt>
+                <dd>{formatTarget(targetA)}</dd>
+                <dt className="font-medium">B:</dt>
+                <dd>{formatTarget(targetB)}</dd>
+              </dl>
+              {rows.length > 0 && (
+                <p className="mt-2 text-sm">
+                  {changedCount === 0
+                    ? "Both locations are in the same districts."
+                    : `${changedCount} of ${rows.length} district types differ.`}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="print:hidden"
+              onClick={() => globalThis.print()}
+              disabled={rows.length === 0}
+            >
+              <Printer className="h-4 w-4" />
+              Print Summary
+            </Button>
+          </div>
+
+          {isComparing && (
+            <div className="space-y-4">
+              <Skeleton className="h-80 rounded-lg" />
+              <Skeleton className="h-64 rounded-lg" />
+            </div>
+          )}
+
+          {isLookupError && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>
+                Failed to look up districts for{" "}
+                {lookupA.isError && lookupB.isError
+                  ? "either location"
+                  : lookupA.isError
+                    ? "location A"
+                    : "location B"}
+                . Please try again.
+              </span>
+            </div>
+          )}
+
+          {lookupA.data && lookupB.data && (
+            <>
+              <div className="h-80 break-inside-avoid sm:h-96">
+                <CompareLookupMap
+                  a={lookupA.data}
+                  b={lookupB.data}
+                  geometries={geometries}
+                  isLoading={isGeometryLoading}
+                />
+              </div>
+              <DistrictComparisonTable
+                rows={rows}
+                labelA={formatTarget(targetA)}
+                labelB={formatTarget(targetB)}
+              />
+              <p className="hidden text-xs text-muted-foreground print:block">
+                Printed {new Date().toLocaleString()}
+              </p>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,18 @@
-import { createFileRoute, useNavigate } from "@tanstack/react-router"
-import { useForm } from "react-hook-form"
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router"
+import { Controller, useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 import { useState } from "react"
 import { HTTPError } from "ky"
-import { Search, LocateFixed, Loader2, AlertCircle } from "lucide-react"
+import {
+  Search,
+  LocateFixed,
+  Loader2,
+  AlertCircle,
+  FileSpreadsheet,
+  ArrowLeftRight,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import {
   Card,
@@ -16,9 +22,13 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { AddressAutocomplete } from "@/components/lookup/AddressAutocomplete"
+import { ConfidenceScore } from "@/components/lookup/ConfidenceWarning"
+import { SavedPlacesPanel } from "@/components/lookup/SavedPlacesPanel"
 import { requireAuth } from "@/lib/auth-guards"
 import { verifyAddress } from "@/api/lookup"
-import type { AddressSuggestion } from "@/types/lookup"
+import type { AddressSuggestion, AddressValidation } from "@/types/lookup"
+import type { LookupTarget } from "@/types/places"
 
 export const Route = createFileRoute("/lookup/")({
   component: LookupPage,
@@ -55,23 +65,36 @@ function LookupPage() {
   const [suggestions, setSuggestions] = useState<AddressSuggestion[] | null>(
     null,
   )
+  const [validation, setValidation] = useState<AddressValidation>()
   const [apiError, setApiError] = useState<string | null>(null)
 
   const {
-    register,
+    control,
     handleSubmit,
     formState: { errors },
   } = useForm<AddressFormData>({
     resolver: zodResolver(addressSchema),
+    defaultValues: { address: "" },
   })
 
-  const navigateToResults = (suggestion: AddressSuggestion) => {
+  const navigateToResults = (
+    target: LookupTarget & { confidence_score?: number },
+    validation?: AddressValidation,
+  ) => {
     navigate({
       to: "/lookup/results",
       search: {
-        lat: suggestion.latitude,
-        lng: suggestion.longitude,
-        address: suggestion.address,
+        lat: target.latitude,
+        lng: target.longitude,
+        address: target.address ?? undefined,
+        confidence: target.confidence_score,
+        // Problems with what the user typed, not with the suggestion
+        missing: validation?.missing_components.length
+          ? validation.missing_components
+          : undefined,
+        malformed: validation?.malformed_components.length
+          ? validation.malformed_components
+          : undefined,
       },
     })
   }
@@ -92,11 +115,12 @@ function LookupPage() {
 
       if (result.suggestions.length === 1) {
         setIsVerifying(false)
-        navigateToResults(result.suggestions[0])
+        navigateToResults(result.suggestions[0], result.validation)
         return
       }
 
       setSuggestions(result.suggestions)
+      setValidation(result.validation)
       setIsVerifying(false)
     } catch (error) {
       setApiError(getErrorMessage(error))
@@ -104,9 +128,12 @@ function LookupPage() {
     }
   }
 
-  const handleSelectSuggestion = (suggestion: AddressSuggestion) => {
+  const handleSelectSuggestion = (
+    suggestion: AddressSuggestion,
+    suggestionValidation: AddressValidation | undefined,
+  ) => {
     setSuggestions(null)
-    navigateToResults(suggestion)
+    navigateToResults(suggestion, suggestionValidation)
   }
 
   const handleUseMyLocation = () => {
@@ -172,13 +199,21 @@ function LookupPage() {
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="address">Address</Label>
-              <Input
-                id="address"
-                type="text"
-                placeholder="123 Main St, Atlanta, GA 30303"
-                aria-invalid={!!errors.address}
-                disabled={isVerifying}
-                {...register("address")}
+              <Controller
+                name="address"
+                control={control}
+                render={({ field }) => (
+                  <AddressAutocomplete
+                    id="address"
+                    placeholder="123 Main St, Atlanta, GA 30303"
+                    invalid={!!errors.address}
+                    disabled={isVerifying}
+                    value={field.value}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    onSelect={handleSelectSuggestion}
+                  />
+                )}
               />
               {errors.address && (
                 <p className="text-sm text-destructive">
@@ -217,9 +252,14 @@ function LookupPage() {
                     key={suggestion.address}
                     type="button"
                     className="w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-accent transition-colors"
-                    onClick={() => handleSelectSuggestion(suggestion)}
+                    onClick={() =>
+                      handleSelectSuggestion(suggestion, validation)
+                    }
                   >
-                    {suggestion.address}
+                    <span className="flex items-start justify-between gap-2">
+                      <span>{suggestion.address}</span>
+                      <ConfidenceScore score={suggestion.confidence_score} />
+                    </span>
                   </button>
                 ))}
               </div>
@@ -267,6 +307,23 @@ function LookupPage() {
               <span>{geoError}</span>
             </div>
           )}
+
+          <Separator />
+
+          <SavedPlacesPanel onOpen={navigateToResults} />
+
+          <Button variant="link" size="sm" className="w-full" asChild>
+            <Link to="/lookup/batch">
+              <FileSpreadsheet className="h-4 w-4" />
+              Look up a list of addresses from a CSV
+            </Link>
+          </Button>
+          <Button variant="link" size="sm" className="w-full" asChild>
+            <Link to="/lookup/compare">
+              <ArrowLeftRight className="h-4 w-4" />
+              Compare districts for two addresses
+            </Link>
+          </Button>
         </CardContent>
       </Card>
     </div>
@@ -1,19 +1,43 @@
-import { createFileRoute, Link } from "@tanstack/react-router"
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import { z } from "zod"
 import { HTTPError } from "ky"
-import { Loader2, AlertCircle, ArrowLeft, MapPin, RefreshCw } from "lucide-react"
+import {
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+  MapPin,
+  RefreshCw,
+  Star,
+  IdCard,
+  Move,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { DistrictCard } from "@/components/DistrictCard"
-import { usePointLookup } from "@/hooks/useAddressLookup"
+import { LookupResultsMap } from "@/components/LookupResultsMap"
+import { ConfidenceWarning } from "@/components/lookup/ConfidenceWarning"
+import { SavePlaceDialog } from "@/components/lookup/SavePlaceDialog"
+import { useGeocodeAddress, usePointLookup } from "@/hooks/useAddressLookup"
+import { useDistrictGeometries } from "@/hooks/useDistrictGeometries"
+import { useRecordLookup } from "@/hooks/useSavedPlaces"
 import { requireAuth } from "@/lib/auth-guards"
-import type { LookupDistrict } from "@/types/lookup"
+import { getConfidenceLevel } from "@/lib/confidence"
+import { groupDistricts } from "@/lib/districts"
+import { roundCoordinate } from "@/lib/geo"
 
 const resultsSearchSchema = z.object({
   address: z.string().optional().catch(undefined),
   lat: z.coerce.number().optional().catch(undefined),
   lng: z.coerce.number().optional().catch(undefined),
   accuracy: z.coerce.number().optional().catch(undefined),
+  // Geocoder confidence of the chosen suggestion, when known
+  confidence: z.coerce.number().min(0).max(1).optional().catch(undefined),
+  // Address components missing from or malformed in what the user typed
+  missing: z.array(z.string()).optional().catch(undefined),
+  malformed: z.array(z.string()).optional().catch(undefined),
+  // Set once the user has dragged the pin to correct the geocode
+  adjusted: z.boolean().optional().catch(undefined),
 })
 
 export const Route = createFileRoute("/lookup/results")({
@@ -24,73 +48,26 @@ export const Route = createFileRoute("/lookup/results")({
   },
 })
 
-const districtSortOrder: Record<string, number> = {
-  precinct: 0,
-  county_precinct: 0,
-  county: 1,
-  commission_district: 2,
-  county_commission: 2,
-  congressional: 3,
-  congressional_district: 3,
-  state_senate: 4,
-  state_house: 5,
-  school_district: 6,
-  school_board: 6,
-  psc: 7,
-}
-
-const boundaryTypeLabels: Record<string, string> = {
-  precinct: "Voting Precincts",
-  county_precinct: "Voting Precincts",
-  county: "Counties",
-  commission_district: "Commission Districts",
-  county_commission: "County Commission Districts",
-  congressional: "Congressional Districts",
-  congressional_district: "Congressional Districts",
-  state_senate: "State Senate Districts",
-  state_house: "State House Districts",
-  school_district: "School Districts",
-  school_board: "School Board Districts",
-  psc: "Public Service Commission Districts",
-}
-
-interface DistrictGroup {
-  boundaryType: string
-  label: string
-  districts: LookupDistrict[]
-}
-
-function groupDistricts(districts: LookupDistrict[]): DistrictGroup[] {
-  const sorted = [...districts].sort((a, b) => {
-    const orderA = districtSortOrder[a.boundary_type] ?? 99
-    const orderB = districtSortOrder[b.boundary_type] ?? 99
-    return orderA - orderB
-  })
-
-  const groups: DistrictGroup[] = []
-  for (const district of sorted) {
-    const last = groups.at(-1)
-    if (last?.boundaryType === district.boundary_type) {
-      last.districts.push(district)
-    } else {
-      groups.push({
-        boundaryType: district.boundary_type,
-        label:
-          boundaryTypeLabels[district.boundary_type] ??
-          district.boundary_type,
-        districts: [district],
-      })
-    }
-  }
-  return groups
-}
+// Lookups already added to history this session, so that refetches and
+// coming back to the same results do not record them again
+const recordedLookups = new Set<string>()
 
 function isProviderUnavailable(error: Error | null): boolean {
   return error instanceof HTTPError && error.response.status === 502
 }
 
 function LookupResultsPage() {
-  const { address, lat, lng, accuracy } = Route.useSearch()
+  const {
+    address,
+    lat,
+    lng,
+    accuracy,
+    confidence: suggestionConfidence,
+    adjusted,
+    missing,
+    malformed,
+  } = Route.useSearch()
+  const navigate = useNavigate({ from: Route.fullPath })
 
   const lookupParams =
     lat !== undefined && lng !== undefined
@@ -100,6 +77,80 @@ function LookupResultsPage() {
   const { data, isLoading, isError, error, refetch, isRefetching } =
     usePointLookup(lookupParams)
 
+  const [selectedDistrictId, setSelectedDistrictId] = useState<string | null>(
+    null,
+  )
+  const groups = useMemo(
+    () => groupDistricts(data?.districts ?? []),
+    [data?.districts],
+  )
+  const boundaryIds = useMemo(
+    () => groups.flatMap((g) => g.districts.map((d) => d.boundary_id)),
+    [groups],
+  )
+  const { geometries, isLoading: isGeometryLoading } =
+    useDistrictGeometries(boundaryIds)
+
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const { mutate: recordLookup } = useRecordLookup()
+
+  // Add each successful lookup to the user's local history, once
+  useEffect(() => {
+    if (!data) return
+    const key = [data.latitude, data.longitude, address].join("|")
+    if (recordedLookups.has(key)) return
+    recordedLookups.add(key)
+    recordLookup({
+      address: address ?? null,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      accuracy: data.accuracy,
+      districts: data.districts,
+    })
+  }, [data, address, recordLookup])
+
+  const [isAdjustingPin, setIsAdjustingPin] = useState(false)
+  // Saved places, history and cards link here with an address but no
+  // suggestion score, so ask the geocoder how sure it is
+  const { data: geocode } = useGeocodeAddress(
+    suggestionConfidence === undefined && !adjusted && address ? address : null,
+  )
+  const confidence = suggestionConfidence ?? geocode?.confidence
+  const needsReview =
+    confidence !== undefined &&
+    !adjusted &&
+    getConfidenceLevel(confidence) !== "high"
+  const validation =
+    missing || malformed
+      ? {
+          missing_components: missing ?? [],
+          malformed_components: malformed ?? [],
+        }
+      : undefined
+
+  const handlePointMove = useCallback(
+    (latitude: number, longitude: number) => {
+      navigate({
+        search: (prev) => ({
+          ...prev,
+          lat: roundCoordinate(latitude),
+          lng: roundCoordinate(longitude),
+          accuracy: undefined,
+          adjusted: true,
+        }),
+        replace: true,
+      })
+    },
+    [navigate],
+  )
+
+  const handleMapDistrictClick = useCallback((boundaryId: string) => {
+    setSelectedDistrictId(boundaryId)
+    document
+      .getElementById(`district-${boundaryId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" })
+  }, [])
+
   if (lookupParams === null) {
     return (
       <div className="flex h-full flex-col items-center justify-center gap-4 p-4">
@@ -173,7 +224,6 @@ function LookupResultsPage() {
     )
   }
 
-  const groups = groupDistricts(data?.districts ?? [])
   const totalDistricts = groups.reduce((sum, g) => sum + g.districts.length, 0)
 
   return (
@@ -191,12 +241,80 @@ function LookupResultsPage() {
             {totalDistricts === 1 ? "district" : "districts"} found
           </p>
         </div>
-        <Button variant="outline" size="sm" asChild>
-          <Link to="/lookup">
-            <ArrowLeft className="h-4 w-4" />
-            Search Again
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSaveDialogOpen(true)}
+            disabled={!data}
+          >
+            <Star className="h-4 w-4" />
+            Save Place
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/lookup/card" search={{ lat, lng, address }}>
+              <IdCard className="h-4 w-4" />
+              District Card
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/lookup">
+              <ArrowLeft className="h-4 w-4" />
+              Search Again
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {needsReview && (
+        <ConfidenceWarning
+          confidence={confidence}
+          validation={validation}
+          isAdjusting={isAdjustingPin}
+          onAdjustPin={() => setIsAdjustingPin((value) => !value)}
+        />
+      )}
+
+      {adjusted && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <Move className="h-4 w-4 shrink-0" />
+          <span>Pin adjusted manually; districts reflect the new location.</span>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => setIsAdjustingPin((value) => !value)}
+          >
+            {isAdjustingPin ? "Done adjusting" : "Adjust again"}
+          </Button>
+        </div>
+      )}
+
+      {data && saveDialogOpen && (
+        <SavePlaceDialog
+          open={saveDialogOpen}
+          onOpenChange={setSaveDialogOpen}
+          place={{
+            address: address ?? null,
+            latitude: data.latitude,
+            longitude: data.longitude,
+            districts: data.districts,
+          }}
+        />
+      )}
+
+      <div className="h-80 sm:h-96">
+        <LookupResultsMap
+          latitude={data?.latitude ?? lookupParams.lat}
+          longitude={data?.longitude ?? lookupParams.lng}
+          accuracy={data?.accuracy ?? lookupParams.accuracy}
+          groups={groups}
+          geometries={geometries}
+          selectedDistrictId={selectedDistrictId}
+          onDistrictClick={handleMapDistrictClick}
+          onPointMove={isAdjustingPin ? handlePointMove : undefined}
+          isLoading={isGeometryLoading}
+        />
       </div>
 
       {groups.length === 0 ? (
@@ -210,6 +328,8 @@ function LookupResultsPage() {
               <DistrictCard
                 key={district.boundary_id}
                 district={district}
+                isSelected={district.boundary_id === selectedDistrictId}
+                onSelect={setSelectedDistrictId}
               />
             )),
           )}
@@ -0,0 +1,181 @@
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { useMemo } from "react"
+import { HTTPError } from "ky"
+import { ArrowLeft, IdCard, Landmark, ShieldAlert } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DistrictCard } from "@/components/DistrictCard"
+import { VoterLocationPanel } from "@/components/voters/VoterLocationPanel"
+import { useVoter } from "@/hooks/useVoters"
+import { requireAuth } from "@/lib/auth-guards"
+import { groupDistricts } from "@/lib/districts"
+import { canViewVoterPii } from "@/lib/pii"
+import {
+  formatVoterName,
+  getVoterStatusBadgeVariant,
+  voterStatusLabels,
+} from "@/lib/voters"
+import { useAuthStore } from "@/stores/authStore"
+import type { VoterDetail } from "@/types/voters"
+
+export const Route = createFileRoute("/voters/$voterId/")({
+  component: VoterDetailPage,
+  beforeLoad: ({ location }) => {
+    requireAuth(location.pathname)
+  },
+})
+
+const formatDate = (dateString: string | null) =>
+  dateString ? new Date(dateString).toLocaleDateString() : "—"
+
+function RegistrationFields({
+  voter,
+  showPii,
+}: Readonly<{ voter: VoterDetail; showPii: boolean }>) {
+  const restricted = (
+    <span className="text-muted-foreground italic">Restricted</span>
+  )
+  const fields: [string, React.ReactNode][] = [
+    [
+      "Registration #",
+      <span className="font-mono">{voter.voter_registration_number}</span>,
+    ],
+    ["Status", voterStatusLabels[voter.status]],
+    ["Status reason", voter.status_reason ?? "—"],
+    ["Registered", formatDate(voter.registration_date)],
+    ["Last contact", formatDate(voter.last_contact_date)],
+    ["Last voted", formatDate(voter.last_vote_date)],
+    [
+      "Residence",
+      `${voter.residence_address}, ${voter.residence_city} ${voter.residence_zip}`,
+    ],
+    ["Mailing address", voter.mailing_address ?? "—"],
+    ["County", voter.county],
+    ["Precinct", voter.precinct ?? "—"],
+    ["Birth year", showPii ? (voter.birth_year ?? "—") : restricted],
+    ["Gender", showPii ? (voter.gender ?? "—") : restricted],
+    ["Race", showPii ? (voter.race ?? "—") : restricted],
+  ]
+
+  return (
+    <dl className="grid grid-cols-1 gap-x-6 gap-y-2 text-sm sm:grid-cols-2">
+      {fields.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-2 border-b py-1">
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="text-right">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+function VoterDetailPage() {
+  const { voterId } = Route.useParams()
+  const role = useAuthStore((state) => state.user?.role)
+  const showPii = canViewVoterPii(role)
+  const { data: voter, isLoading, error } = useVoter(voterId, showPii)
+
+  const districts = useMemo(
+    () => groupDistricts(voter?.districts ?? []).flatMap((g) => g.districts),
+    [voter?.districts],
+  )
+
+  const isNotFound =
+    error instanceof HTTPError && error.response.status === 404
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-4">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/voters">
+          <ArrowLeft className="h-4 w-4" />
+          Voter search
+        </Link>
+      </Button>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-1/2" />
+          <Skeleton className="h-48 rounded-lg" />
+        </div>
+      ) : error ? (
+        <div className="border border-destructive rounded-lg p-6 text-center">
+          <p className="text-destructive">
+            {isNotFound
+              ? "This voter could not be found."
+              : `Failed to load voter: ${error.message}`}
+          </p>
+        </div>
+      ) : voter ? (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold">{formatVoterName(voter)}</h1>
+            <Badge variant={getVoterStatusBadgeVariant(voter.status)}>
+              {voterStatusLabels[voter.status]}
+            </Badge>
+          </div>
+
+          {!showPii && (
+            <div className="flex items-start gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+              <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>
+                Identifiers, house numbers and demographics are masked for
+                your role.
+              </span>
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <IdCard className="h-5 w-5" />
+                Registration
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RegistrationFields voter={voter} showPii={showPii} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="h-5 w-5" />
+                Assigned Districts
+              </CardTitle>
+              <CardDescription>
+                Based on the voter's primary geocoded location
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {districts.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">
+                  No districts assigned. Set a primary location to assign
+                  districts.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {districts.map((district) => (
+                    <DistrictCard
+                      key={district.boundary_id}
+                      district={district}
+                    />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <VoterLocationPanel voterId={voterId} showPii={showPii} />
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { VoterLocationPanel } from "@/components/voters/VoterLocationPanel"
+import { requireAuth } from "@/lib/auth-guards"
+import { canViewVoterPii } from "@/lib/pii"
+import { useAuthStore } from "@/stores/authStore"
+
+export const Route = createFileRoute("/voters/$voterId/locations")({
+  component: VoterLocationsPage,
+  beforeLoad: ({ location }) => {
+    requireAuth(location.pathname)
+  },
+})
+
+function VoterLocationsPage() {
+  const { voterId } = Route.useParams()
+  const role = useAuthStore((state) => state.user?.role)
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-4 p-4">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/voters/$voterId" params={{ voterId }}>
+          <ArrowLeft className="h-4 w-4" />
+          Voter record
+        </Link>
+      </Button>
+      <VoterLocationPanel voterId={voterId} showPii={canViewVoterPii(role)} />
+    </div>
+  )
+}
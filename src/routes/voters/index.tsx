@@ -0,0 +1,236 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router"
+import { z } from "zod"
+import { ChevronLeft, ChevronRight, ShieldAlert, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { EmptyState } from "@/components/ui/empty-state"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  VoterSearchFilters,
+  type VoterSearchFilterValues,
+} from "@/components/voters/VoterSearchFilters"
+import {
+  VoterSearchTable,
+  type VoterSort,
+} from "@/components/voters/VoterSearchTable"
+import { useVoterSearch } from "@/hooks/useVoters"
+import { requireAuth } from "@/lib/auth-guards"
+import { formatNumber } from "@/lib/formatters"
+import { canViewVoterPii } from "@/lib/pii"
+import { VOTER_PAGE_SIZES } from "@/lib/voters"
+import { useAuthStore } from "@/stores/authStore"
+
+const votersSearchSchema = z.object({
+  name: z.string().optional().catch(undefined),
+  address: z.string().optional().catch(undefined),
+  county: z.string().optional().catch(undefined),
+  precinct: z.string().optional().catch(undefined),
+  status: z
+    .enum(["active", "inactive", "cancelled"])
+    .optional()
+    .catch(undefined),
+  page: z.coerce.number().int().min(1).optional().catch(undefined),
+  pageSize: z.coerce
+    .number()
+    .refine((n) => (VOTER_PAGE_SIZES as readonly number[]).includes(n))
+    .optional()
+    .catch(undefined),
+  sortBy: z
+    .enum([
+      "last_name",
+      "first_name",
+      "county",
+      "precinct",
+      "status",
+      "registration_date",
+    ])
+    .optional()
+    .catch(undefined),
+  sortDir: z.enum(["asc", "desc"]).optional().catch(undefined),
+})
+
+export const Route = createFileRoute("/voters/")({
+  component: VoterSearchPage,
+  validateSearch: votersSearchSchema,
+  beforeLoad: ({ location }) => {
+    requireAuth(location.pathname)
+  },
+})
+
+function VoterSearchPage() {
+  const search = Route.useSearch()
+  const navigate = useNavigate({ from: Route.fullPath })
+  const role = useAuthStore((state) => state.user?.role)
+  const showPii = canViewVoterPii(role)
+
+  const page = search.page ?? 1
+  const pageSize = search.pageSize ?? VOTER_PAGE_SIZES[0]
+  const { data, isLoading, isFetching, error } = useVoterSearch(
+    {
+      name: search.name,
+      // Searching by street address is limited to roles that can see it
+      address: showPii ? search.address : undefined,
+      county: search.county,
+      precinct: search.precinct,
+      status: search.status,
+      page,
+      page_size: pageSize,
+      sort_by: search.sortBy,
+      sort_dir: search.sortDir,
+    },
+    showPii,
+  )
+
+  const voters = data?.voters ?? []
+  const total = data?.total ?? 0
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const firstRow = total === 0 ? 0 : (page - 1) * pageSize + 1
+  const lastRow = Math.min(page * pageSize, total)
+
+  const handleFilters = (filters: VoterSearchFilterValues) => {
+    navigate({
+      search: (prev) => ({ ...prev, ...filters, page: undefined }),
+    })
+  }
+
+  const handleSort = (sort: VoterSort) => {
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        sortBy: sort.sortBy,
+        sortDir: sort.sortDir,
+        page: undefined,
+      }),
+      replace: true,
+    })
+  }
+
+  const goToPage = (next: number) => {
+    navigate({
+      search: (prev) => ({ ...prev, page: next > 1 ? next : undefined }),
+    })
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-4">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Voters</h1>
+        <p className="text-muted-foreground">
+          Search the voter file by name, address, county, precinct or
+          registration status
+        </p>
+      </div>
+
+      {!showPii && (
+        <div className="flex items-start gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+          <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>
+            Registration numbers and house numbers are masked for your role.
+          </span>
+        </div>
+      )}
+
+      <VoterSearchFilters
+        // Remount when the URL filters change so the inputs stay in sync
+        key={JSON.stringify([
+          search.name,
+          search.address,
+          search.county,
+          search.precinct,
+          search.status,
+        ])}
+        values={search}
+        showAddress={showPii}
+        onSubmit={handleFilters}
+      />
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 8 }).map((_, i) => (
+            <Skeleton key={i} className="h-10" />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="border border-destructive rounded-lg p-6 text-center">
+          <p className="text-destructive">
+            Failed to search voters: {error.message}
+          </p>
+        </div>
+      ) : voters.length === 0 ? (
+        <EmptyState
+          icon={<Users className="h-12 w-12" />}
+          title="No voters found"
+          description="Try a shorter name, a different address or fewer filters."
+        />
+      ) : (
+        <div className="space-y-3">
+          <VoterSearchTable
+            voters={voters}
+            sort={{ sortBy: search.sortBy, sortDir: search.sortDir }}
+            onSortChange={handleSort}
+            isFetching={isFetching}
+          />
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+            <span className="text-muted-foreground">
+              {formatNumber(firstRow)}–{formatNumber(lastRow)} of{" "}
+              {formatNumber(total)} voters
+            </span>
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(pageSize)}
+                onValueChange={(value) =>
+                  navigate({
+                    search: (prev) => ({
+                      ...prev,
+                      pageSize: Number(value),
+                      page: undefined,
+                    }),
+                  })
+                }
+              >
+                <SelectTrigger className="w-[110px]" aria-label="Page size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VOTER_PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size} / page
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Previous page"
+                disabled={page <= 1}
+                onClick={() => goToPage(page - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="tabular-nums">
+                Page {page} of {formatNumber(pageCount)}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Next page"
+                disabled={page >= pageCount}
+                onClick={() => goToPage(page + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { BasemapChoice } from "@/lib/basemaps"
+
+interface BasemapState {
+  /** Choice per user id; "" holds the signed-out choice */
+  choices: Record<string, BasemapChoice>
+  setChoice: (owner: string, choice: BasemapChoice) => void
+}
+
+/**
+ * Basemap each user last picked in this browser. Every map reads the
+ * same choice, so switching on one map switches them all.
+ */
+export const useBasemapStore = create<BasemapState>()(
+  persist(
+    (set) => ({
+      choices: {},
+      setChoice: (owner, choice) =>
+        set((state) => ({ choices: { ...state.choices, [owner]: choice } })),
+    }),
+    { name: "basemap" },
+  ),
+)
@@ -0,0 +1,41 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { BatchGeocodeRequest } from "@/types/lookup"
+
+const MAX_JOB_HISTORY = 50
+
+export interface GeocodingJobRecord {
+  id: string
+  request: BatchGeocodeRequest
+  launchedAt: string
+}
+
+interface GeocodingJobsState {
+  jobs: GeocodingJobRecord[]
+  addJob: (job: GeocodingJobRecord) => void
+  removeJob: (id: string) => void
+  clearJobs: () => void
+}
+
+/**
+ * Batch geocoding jobs launched from this browser, newest first.
+ * The API has no job listing endpoint, so the console keeps its own history.
+ */
+export const useGeocodingJobsStore = create<GeocodingJobsState>()(
+  persist(
+    (set) => ({
+      jobs: [],
+      addJob: (job) =>
+        set((state) => ({
+          jobs: [job, ...state.jobs.filter((j) => j.id !== job.id)].slice(
+            0,
+            MAX_JOB_HISTORY,
+          ),
+        })),
+      removeJob: (id) =>
+        set((state) => ({ jobs: state.jobs.filter((j) => j.id !== id) })),
+      clearJobs: () => set({ jobs: [] }),
+    }),
+    { name: "geocoding-jobs" },
+  ),
+)
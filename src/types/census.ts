@@ -4,12 +4,24 @@
  */
 export type CensusApiRawResponse = string[][]
 
+/** American Community Survey dataset: 5-year or 1-year estimates. */
+export type CensusDataset = "acs5" | "acs1"
+
+/** A release of ACS data, e.g. the 2023 5-year estimates. */
+export interface CensusVintage {
+  year: number
+  dataset: CensusDataset
+}
+
+/** District types with an ACS geography of their own. */
+export type CensusDistrictType = "congressional" | "state_senate" | "state_house"
+
 /**
- * Parsed Census ACS 5-Year Data Profile for a county.
+ * Estimates from the Census ACS Data Profile.
  * Percentage fields are in 0-100 scale (as returned by Census API "PE" suffix variables).
  * Monetary values are in USD. Time values are in minutes.
  */
-export interface CensusProfile {
+export interface CensusEstimates {
   totalPopulation: number | null
   medianAge: number | null
   percentUnder18: number | null
@@ -39,3 +51,56 @@ export interface CensusProfile {
   vacancyRate: number | null
   percentNoVehicle: number | null
 }
+
+export type CensusEstimateField = keyof CensusEstimates
+
+/**
+ * Parsed Census ACS Data Profile for a county, state or district.
+ */
+export interface CensusProfile extends CensusEstimates {
+  /**
+   * 90% margins of error ("M"/"PM" variables), in the same units as each
+   * estimate; percentage points for percent fields. 0 when the estimate is
+   * controlled and has no sampling error, null when not published.
+   */
+  margins: Record<CensusEstimateField, number | null>
+}
+
+/** A place Census profiles can be fetched for. */
+export type CensusGeography =
+  | { kind: "state"; fipsState: string }
+  | { kind: "county"; fipsState: string; fipsCounty: string }
+  | {
+      kind: "district"
+      fipsState: string
+      districtType: CensusDistrictType
+      /** District number without padding, e.g. "5" */
+      districtNumber: string
+    }
+
+/** One bar of a distribution, e.g. an income bracket. Value in 0-100 %. */
+export interface CensusDistributionBin {
+  label: string
+  percent: number | null
+}
+
+/** One age band of a population pyramid. Counts of people. */
+export interface CensusAgeSexBin {
+  label: string
+  male: number | null
+  female: number | null
+}
+
+/**
+ * Distributions behind the headline indicators, from the ACS detailed
+ * table B01001 (age by sex) and the Data Profile.
+ */
+export interface CensusBreakdowns {
+  ageSex: CensusAgeSexBin[]
+  /** Share of households */
+  householdTypes: CensusDistributionBin[]
+  /** Share of the population 25 and over, by highest level completed */
+  education: CensusDistributionBin[]
+  /** Share of households by annual household income */
+  householdIncome: CensusDistributionBin[]
+}
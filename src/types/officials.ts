@@ -0,0 +1,61 @@
+/** District types that have an elected office holder we can look up. */
+export type OfficialBoundaryType =
+  | "congressional"
+  | "state_senate"
+  | "state_house"
+  | "psc"
+
+export type OfficialContactKind =
+  | "website"
+  | "email"
+  | "phone"
+  | "twitter"
+  | "facebook"
+  | "other"
+
+export interface OfficialContactLink {
+  kind: OfficialContactKind
+  /** Link target: http(s) URL, or a mailto:/tel: URI */
+  url: string
+  label?: string
+}
+
+/**
+ * An office holder, normalized from whichever provider supplied it.
+ * Dates are ISO 8601 (YYYY-MM-DD).
+ */
+export interface ElectedOfficial {
+  id: string
+  name: string
+  party: string | null
+  /** e.g. "U.S. Representative", "State Senator" */
+  officeTitle: string
+  boundaryType: OfficialBoundaryType
+  /** District number without leading zeros, e.g. "5" */
+  district: string
+  photoUrl: string | null
+  contactLinks: OfficialContactLink[]
+  termStart: string | null
+  termEnd: string | null
+}
+
+/**
+ * Source of office holder data. Implementations normalize their upstream
+ * format (Congress.gov, Open States, a fixture file, ...) to ElectedOfficial.
+ */
+export interface OfficialsProvider {
+  readonly id: string
+  /** Attribution shown under the officials list */
+  readonly label: string
+  getOfficials(
+    boundaryType: OfficialBoundaryType,
+    district: string,
+    signal?: AbortSignal,
+  ): Promise<ElectedOfficial[]>
+}
+
+/** Shape of the JSON file read by the fixture provider. */
+export interface OfficialsFixture {
+  label: string
+  officials: ElectedOfficial[]
+}
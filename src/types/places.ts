@@ -0,0 +1,47 @@
+import type { LookupDistrict } from "@/types/lookup"
+
+/**
+ * A past point lookup, stored locally per user so recent addresses
+ * can be revisited without retyping them.
+ */
+export interface LookupHistoryEntry {
+  id: string
+  /** ID of the user who performed the lookup */
+  owner: string
+  address: string | null
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  districts: LookupDistrict[]
+  /** ISO 8601 timestamp of the lookup */
+  lookedUpAt: string
+}
+
+/**
+ * A named location a user has saved (e.g. a church or polling place),
+ * along with the districts resolved when it was saved.
+ */
+export interface SavedPlace {
+  id: string
+  owner: string
+  name: string
+  address: string | null
+  latitude: number
+  longitude: number
+  districts: LookupDistrict[]
+  pinned: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewSavedPlace = Pick<
+  SavedPlace,
+  "name" | "address" | "latitude" | "longitude" | "districts"
+>
+
+/** Anything that can be re-opened on the lookup results page. */
+export interface LookupTarget {
+  latitude: number
+  longitude: number
+  address: string | null
+}
@@ -0,0 +1,69 @@
+import type { LookupDistrict } from "./lookup"
+
+export type VoterRegistrationStatus = "active" | "inactive" | "cancelled"
+
+export type VoterSortField =
+  | "last_name"
+  | "first_name"
+  | "county"
+  | "precinct"
+  | "status"
+  | "registration_date"
+
+export type SortDirection = "asc" | "desc"
+
+// --- Voter search ---
+
+export interface VoterSearchParams {
+  name?: string
+  address?: string
+  county?: string
+  precinct?: string
+  status?: VoterRegistrationStatus
+  /** 1-based page number */
+  page: number
+  page_size: number
+  sort_by?: VoterSortField
+  sort_dir?: SortDirection
+}
+
+export interface VoterSummary {
+  id: string
+  voter_registration_number: string
+  first_name: string
+  middle_name: string | null
+  last_name: string
+  residence_address: string
+  residence_city: string
+  residence_zip: string
+  county: string
+  precinct: string | null
+  status: VoterRegistrationStatus
+  registration_date: string | null
+}
+
+export interface VoterSearchResponse {
+  /** Voters on the requested page */
+  voters: VoterSummary[]
+  /** Total number of voters matching the filters across all pages */
+  total: number
+  /** 1-based page number of this response */
+  page: number
+  /** Page size used by the server */
+  page_size: number
+}
+
+// --- Voter detail ---
+
+export interface VoterDetail extends VoterSummary {
+  suffix: string | null
+  birth_year: number | null
+  gender: string | null
+  race: string | null
+  mailing_address: string | null
+  status_reason: string | null
+  last_contact_date: string | null
+  last_vote_date: string | null
+  /** Districts assigned from the voter's primary geocoded location */
+  districts: LookupDistrict[]
+}